@@ -0,0 +1,191 @@
+import React, { useState, useRef } from 'react';
+import { X, Download, FileUp, AlertTriangle, FileSpreadsheet } from 'lucide-react';
+import type { DaySheet } from '../types';
+import {
+  createBackup,
+  downloadText,
+  exportSheetDelimited,
+  mergeLibraries,
+  parseBackup,
+  toFileName,
+  type LibraryBackup
+} from '../services/backup';
+import { todayKey } from '../services/srs';
+import { useDialogFocus } from './useDialogFocus';
+
+type BackupModalProps = {
+  sheets: DaySheet[];
+  activeSheet: DaySheet | undefined;
+  onRestore: (sheets: DaySheet[], summary: string) => void; // The app closes the dialog and offers undo
+  onClose: () => void;
+};
+
+const BackupModal = ({ sheets, activeSheet, onRestore, onClose }: BackupModalProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  const [pending, setPending] = useState<LibraryBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const totalWords = sheets.reduce((sum, s) => sum + s.words.length, 0);
+
+  const handleExportLibrary = () => {
+    const backup = createBackup(sheets);
+    downloadText(`vocabmaster-backup-${todayKey()}.json`, JSON.stringify(backup, null, 2), 'application/json');
+  };
+
+  const handleExportSheet = (delimiter: ',' | '\t') => {
+    if (!activeSheet) return;
+    const extension = delimiter === ',' ? 'csv' : 'tsv';
+    const mimeType = delimiter === ',' ? 'text/csv' : 'text/tab-separated-values';
+    // BOM so Excel opens the Chinese translations as UTF-8
+    downloadText(`${toFileName(activeSheet.name)}.${extension}`, '\uFEFF' + exportSheetDelimited(activeSheet, delimiter), mimeType);
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      setPending(parseBackup(await file.text()));
+    } catch (e) {
+      setPending(null);
+      setError((e as Error).message);
+    }
+  };
+
+  const handleMerge = () => {
+    if (!pending) return;
+    const { sheets: merged, summary } = mergeLibraries(sheets, pending.sheets);
+    onRestore(merged, `Merged: ${summary.addedSheets} new days, ${summary.addedWords} new words, ${summary.updatedWords} words updated with newer progress.`);
+  };
+
+  const handleReplace = () => {
+    if (!pending) return;
+    onRestore(pending.sheets, `Library replaced with ${pending.sheets.length} days from the backup.`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="backup-title"
+        tabIndex={-1}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h3 id="backup-title" className="font-bold text-lg text-slate-800">Backup &amp; Export</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {/* Full library */}
+          <section>
+            <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Library</h4>
+            <p className="text-sm text-gray-500 mb-3">
+              {sheets.length} days, {totalWords} words, including review progress.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={handleExportLibrary}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white rounded-lg hover:bg-slate-800 text-sm font-medium"
+              >
+                <Download className="w-4 h-4" />
+                Download backup
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 px-4 py-2 bg-white ring-1 ring-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+              >
+                <FileUp className="w-4 h-4" />
+                Restore from file
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+
+            {error && (
+              <p className="mt-3 flex items-center gap-2 text-sm text-red-600">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </p>
+            )}
+
+            {pending && (
+              <div className="mt-4 bg-amber-50 text-amber-800 p-4 rounded-lg text-sm">
+                <p className="mb-3">
+                  Backup from {new Date(pending.exportedAt).toLocaleString()} with {pending.sheets.length} days
+                  and {pending.sheets.reduce((sum, s) => sum + s.words.length, 0)} words.
+                </p>
+                <p className="text-xs text-amber-700/80 mb-3">
+                  <strong>Merge</strong> keeps your current library and adds what is new; when the same word exists on both sides, the copy reviewed most recently wins.
+                  <strong> Replace</strong> discards the current library.
+                </p>
+                <div className="flex gap-3">
+                  <button
+                    onClick={handleMerge}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium"
+                  >
+                    Merge
+                  </button>
+                  <button
+                    onClick={handleReplace}
+                    className="px-4 py-2 bg-white ring-1 ring-red-200 text-red-600 rounded-lg hover:bg-red-50 text-sm font-medium"
+                  >
+                    Replace
+                  </button>
+                  <button
+                    onClick={() => setPending(null)}
+                    className="px-4 py-2 text-gray-600 hover:bg-amber-100 rounded-lg text-sm font-medium"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+
+          {/* Current sheet */}
+          {activeSheet && (
+            <section>
+              <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Current Day</h4>
+              <p className="text-sm text-gray-500 mb-3">
+                Export "{activeSheet.name}" as a spreadsheet. The columns match the importer, so it can be edited and imported again.
+              </p>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => handleExportSheet(',')}
+                  className="flex items-center gap-2 px-4 py-2 bg-white ring-1 ring-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                  CSV
+                </button>
+                <button
+                  onClick={() => handleExportSheet('\t')}
+                  className="flex items-center gap-2 px-4 py-2 bg-white ring-1 ring-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                  TSV
+                </button>
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupModal;
@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Volume2, RotateCcw, Headphones, Languages, CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import type { WordItem } from '../types';
+import { checkSpelling, type SpellingResult } from '../services/spelling';
+import { speakText } from '../services/speech';
+import type { PlaybackSettings } from '../services/player';
+
+type PromptMode = 'audio' | 'translation';
+
+type DictationSessionProps = {
+  title: string;
+  words: WordItem[];
+  mistakeIds: string[];
+  playbackSettings: PlaybackSettings; // The word is read with the user's English voice, rate and pitch
+  onResult: (wordId: string, verdict: SpellingResult['verdict']) => void;
+  onClose: () => void;
+};
+
+const VERDICT_STYLES: Record<SpellingResult['verdict'], { label: string; className: string }> = {
+  correct: { label: 'Correct', className: 'text-green-600' },
+  typo: { label: 'Almost — minor typo', className: 'text-amber-600' },
+  wrong: { label: 'Incorrect', className: 'text-red-600' },
+};
+
+// Renders the typed answer against the expected word, letter by letter
+const DiffView = ({ result }: { result: SpellingResult }) => (
+  <div className="font-mono text-2xl tracking-wider flex flex-wrap justify-center">
+    {result.diff.map((op, idx) => {
+      switch (op.type) {
+        case 'match':
+          return <span key={idx} className="text-slate-800">{op.char}</span>;
+        case 'substitute':
+          return <span key={idx} className="text-red-600 bg-red-50 rounded" title={`expected "${op.expected}"`}>{op.actual}</span>;
+        case 'missing':
+          return <span key={idx} className="text-amber-600 bg-amber-50 rounded underline" title="missing letter">{op.expected}</span>;
+        case 'extra':
+          return <span key={idx} className="text-red-400 line-through" title="extra letter">{op.actual}</span>;
+      }
+    })}
+  </div>
+);
+
+const DictationSession = ({ title, words, mistakeIds, playbackSettings, onResult, onClose }: DictationSessionProps) => {
+  const [mode, setMode] = useState<PromptMode>('audio');
+  const [queue, setQueue] = useState<WordItem[]>([]);
+  const [position, setPosition] = useState(0);
+  const [started, setStarted] = useState(false);
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<SpellingResult | null>(null);
+  const [results, setResults] = useState<Record<string, SpellingResult['verdict']>>({});
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const current = queue[position];
+  const isFinished = started && position >= queue.length;
+  const mistakeWords = words.filter(w => mistakeIds.includes(w.id));
+
+  const speakCurrent = () => {
+    if (!current) return;
+    window.speechSynthesis.cancel();
+    speakText(current.word, {
+      voiceURI: playbackSettings.voiceURI,
+      rate: playbackSettings.rate,
+      pitch: playbackSettings.pitch,
+    });
+  };
+
+  // Speak each new word automatically in audio mode
+  useEffect(() => {
+    if (!started || !current) return;
+    if (mode === 'audio') speakCurrent();
+    inputRef.current?.focus();
+  }, [started, position, queue]);
+
+  // Stop any pending speech when the session closes
+  useEffect(() => () => window.speechSynthesis.cancel(), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const start = (deck: WordItem[]) => {
+    setQueue(deck);
+    setPosition(0);
+    setAnswer('');
+    setResult(null);
+    setResults({});
+    setStarted(true);
+  };
+
+  const submit = () => {
+    if (!current) return;
+    if (result) {
+      // Second Enter moves on
+      setPosition(p => p + 1);
+      setAnswer('');
+      setResult(null);
+      return;
+    }
+    if (!answer.trim()) return;
+    const checked = checkSpelling(current.word, answer);
+    setResult(checked);
+    setResults(prev => ({ ...prev, [current.id]: checked.verdict }));
+    onResult(current.id, checked.verdict);
+  };
+
+  const wrongWords = queue.filter(w => results[w.id] === 'wrong');
+  const tally = (verdict: SpellingResult['verdict']) => Object.values(results).filter(v => v === verdict).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 className="font-bold text-lg text-slate-800">Dictation</h3>
+            <p className="text-xs text-gray-400">{title}</p>
+          </div>
+          <div className="flex items-center gap-4">
+            {started && !isFinished && (
+              <span className="text-sm font-medium text-gray-500">{position + 1} / {queue.length}</span>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {!started && (
+            <div className="flex flex-col items-center text-center py-4">
+              <p className="text-gray-500 mb-4">How should each word be given?</p>
+              <div className="flex gap-3 mb-8">
+                <button
+                  onClick={() => setMode('audio')}
+                  className={`
+                    flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium ring-1 transition-colors
+                    ${mode === 'audio' ? 'bg-indigo-600 text-white ring-indigo-600' : 'bg-white text-gray-600 ring-gray-200 hover:bg-gray-50'}
+                  `}
+                >
+                  <Headphones className="w-4 h-4" />
+                  Spoken word
+                </button>
+                <button
+                  onClick={() => setMode('translation')}
+                  className={`
+                    flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium ring-1 transition-colors
+                    ${mode === 'translation' ? 'bg-indigo-600 text-white ring-indigo-600' : 'bg-white text-gray-600 ring-gray-200 hover:bg-gray-50'}
+                  `}
+                >
+                  <Languages className="w-4 h-4" />
+                  Translation only
+                </button>
+              </div>
+
+              <div className="flex flex-col sm:flex-row gap-3">
+                <button
+                  onClick={() => start([...words])}
+                  disabled={words.length === 0}
+                  className="px-6 py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 font-medium shadow-lg shadow-indigo-200 transition-colors disabled:opacity-50"
+                >
+                  All words ({words.length})
+                </button>
+                <button
+                  onClick={() => start(mistakeWords)}
+                  disabled={mistakeWords.length === 0}
+                  className="flex items-center justify-center gap-2 px-6 py-3 bg-white ring-1 ring-red-200 text-red-600 rounded-xl hover:bg-red-50 font-medium transition-colors disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Retry mistakes ({mistakeWords.length})
+                </button>
+              </div>
+
+              {mistakeWords.length > 0 && (
+                <div className="w-full text-left bg-gray-50 rounded-lg p-3 border border-gray-100 mt-6">
+                  <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest block mb-1">Mistakes</span>
+                  <p className="text-sm text-slate-600">{mistakeWords.map(w => w.word).join(', ')}</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {started && current && (
+            <div className="flex flex-col items-center text-center">
+              <div className="min-h-[100px] flex flex-col items-center justify-center mb-4">
+                {mode === 'audio' ? (
+                  <button
+                    onClick={speakCurrent}
+                    className="w-16 h-16 rounded-full bg-indigo-50 text-indigo-600 ring-1 ring-indigo-200 hover:bg-indigo-100 flex items-center justify-center"
+                    title="Play again"
+                  >
+                    <Volume2 className="w-7 h-7" />
+                  </button>
+                ) : (
+                  <>
+                    <p className="text-2xl font-bold text-slate-800">{current.translation || '—'}</p>
+                    {current.pos && <span className="text-sm italic font-serif text-gray-400 mt-1">{current.pos}</span>}
+                  </>
+                )}
+              </div>
+
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  submit();
+                }}
+                className="w-full"
+              >
+                <input
+                  ref={inputRef}
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  readOnly={result !== null}
+                  autoComplete="off"
+                  autoCapitalize="off"
+                  spellCheck={false}
+                  placeholder="Type the spelling and press Enter"
+                  className="w-full p-4 text-center text-xl font-mono border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50"
+                />
+              </form>
+
+              {result && (
+                <div className="mt-6 flex flex-col items-center gap-3">
+                  <span className={`flex items-center gap-2 font-semibold ${VERDICT_STYLES[result.verdict].className}`}>
+                    {result.verdict === 'correct' && <CheckCircle2 className="w-5 h-5" />}
+                    {result.verdict === 'typo' && <AlertCircle className="w-5 h-5" />}
+                    {result.verdict === 'wrong' && <XCircle className="w-5 h-5" />}
+                    {VERDICT_STYLES[result.verdict].label}
+                  </span>
+                  {result.verdict !== 'correct' && <DiffView result={result} />}
+                  <p className="text-sm text-gray-500">
+                    <span className="font-bold text-slate-700">{current.word}</span>
+                    {current.translation && ` — ${current.translation}`}
+                  </p>
+                  <p className="text-xs text-gray-400">Press Enter to continue</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {isFinished && (
+            <div className="flex flex-col items-center text-center py-4">
+              <h4 className="text-xl font-bold text-slate-800 mb-6">Dictation complete</h4>
+              <div className="grid grid-cols-3 gap-3 w-full mb-6">
+                {(['correct', 'typo', 'wrong'] as const).map(v => (
+                  <div key={v} className="rounded-xl p-3 ring-1 ring-gray-200">
+                    <div className={`text-2xl font-bold ${VERDICT_STYLES[v].className}`}>{tally(v)}</div>
+                    <div className="text-xs font-medium uppercase tracking-wider text-gray-500">{v}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-3">
+                {wrongWords.length > 0 && (
+                  <button
+                    onClick={() => start(wrongWords)}
+                    className="flex items-center gap-2 px-4 py-2 bg-white ring-1 ring-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Retry mistakes
+                  </button>
+                )}
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DictationSession;
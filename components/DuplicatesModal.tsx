@@ -0,0 +1,110 @@
+import React, { useState, useRef } from 'react';
+import { X, Copy, CheckCircle2 } from 'lucide-react';
+import { isExactDuplicate, pickBestProgress, type WordLocation } from '../services/duplicates';
+import { useDialogFocus } from './useDialogFocus';
+
+type DuplicatesModalProps = {
+  groups: WordLocation[][];
+  onMerge: (groups: WordLocation[][]) => void;
+  onClose: () => void;
+};
+
+const DuplicatesModal = ({ groups, onMerge, onClose }: DuplicatesModalProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  // Groups are keyed by their first word. Copies spelled the same start selected; groups that
+  // only match by inflection ("abate", "abated") may be separate entries, so they start skipped.
+  const [skipped, setSkipped] = useState<Set<string>>(
+    () => new Set(groups.filter(group => !isExactDuplicate(group)).map(group => group[0].word.id))
+  );
+  const selected = groups.filter(group => !skipped.has(group[0].word.id));
+
+  const toggle = (key: string) => setSkipped(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="duplicates-title"
+        tabIndex={-1}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h3 id="duplicates-title" className="font-bold text-lg text-slate-800">Duplicate Words</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {groups.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-gray-400">
+              <CheckCircle2 className="w-12 h-12 mb-4 text-green-400" />
+              <p>No duplicates in your library.</p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 mb-4">
+                Each group becomes one word in the day where it first appears. The copy with the most
+                progress decides its schedule; synonyms, meanings and examples from every copy are combined.
+                Groups that only share a base form, such as "abate" and "abated", are left unticked.
+              </p>
+              <ul className="space-y-3">
+                {groups.map(group => {
+                  const key = group[0].word.id;
+                  const best = pickBestProgress(group.map(loc => loc.word));
+                  return (
+                    <li key={key} className={`rounded-xl ring-1 p-3 ${skipped.has(key) ? 'ring-gray-200 opacity-60' : 'ring-indigo-200 bg-indigo-50/30'}`}>
+                      <label className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-2">
+                        <input type="checkbox" checked={!skipped.has(key)} onChange={() => toggle(key)} />
+                        <Copy className="w-4 h-4 text-indigo-400" />
+                        {isExactDuplicate(group) ? `${group.length} copies` : `${group.length} forms of one word?`}
+                      </label>
+                      <ul className="space-y-1 text-sm pl-6">
+                        {group.map(({ word, sheetName }) => (
+                          <li key={word.id} className="flex items-baseline gap-2 min-w-0">
+                            <span className={`font-medium ${word.learned ? 'text-green-700' : 'text-slate-700'}`}>{word.word}</span>
+                            <span className="text-xs text-gray-400 truncate">{sheetName}{word.translation && ` · ${word.translation}`}</span>
+                            {word === best && (
+                              <span className="ml-auto flex-shrink-0 text-[10px] font-bold text-indigo-500 uppercase tracking-widest">Progress kept</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => onMerge(selected)}
+            disabled={selected.length === 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200 transition-colors disabled:opacity-50"
+          >
+            Merge {selected.length} {selected.length === 1 ? 'group' : 'groups'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesModal;
@@ -0,0 +1,187 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Sparkles, Loader2, CheckCircle2, XCircle, RotateCcw, Circle } from 'lucide-react';
+import type { WordItem } from '../types';
+import {
+  needsEnrichment,
+  runEnrichmentBatch,
+  type EnrichmentClient,
+  type EnrichmentResult,
+  type EnrichmentStatus
+} from '../services/enrichment';
+import { useDialogFocus } from './useDialogFocus';
+
+type EnrichModalProps = {
+  sheetName: string;
+  words: WordItem[];
+  client: EnrichmentClient;
+  onApply: (wordId: string, result: EnrichmentResult) => void;
+  onClose: () => void;
+};
+
+type WordStatus = { status: EnrichmentStatus; error?: string };
+
+const EnrichModal = ({ sheetName, words, client, onApply, onClose }: EnrichModalProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  const [onlyMissing, setOnlyMissing] = useState(true);
+  const [statuses, setStatuses] = useState<Record<string, WordStatus>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Cancel in-flight work when the modal closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const targets = onlyMissing ? words.filter(needsEnrichment) : words;
+  const listed = isRunning || Object.keys(statuses).length > 0
+    ? words.filter(w => statuses[w.id])
+    : targets;
+  const doneCount = listed.filter(w => statuses[w.id]?.status === 'done').length;
+  const failedCount = listed.filter(w => statuses[w.id]?.status === 'failed').length;
+  const progress = listed.length === 0 ? 0 : Math.round(((doneCount + failedCount) / listed.length) * 100);
+
+  const run = async (batch: WordItem[]) => {
+    if (batch.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setStatuses(prev => ({
+      ...prev,
+      ...Object.fromEntries(batch.map(w => [w.id, { status: 'pending' as const }])),
+    }));
+
+    await runEnrichmentBatch(batch, {
+      client,
+      // The rate limit is there for the API; the offline client has none
+      minIntervalMs: client.isOffline ? 0 : undefined,
+      signal: controller.signal,
+      onStatus: (wordId, status, error) => setStatuses(prev => ({ ...prev, [wordId]: { status, error } })),
+      onResult: onApply,
+    });
+
+    setIsRunning(false);
+  };
+
+  const statusIcon = (status?: EnrichmentStatus) => {
+    switch (status) {
+      case 'running': return <Loader2 className="w-4 h-4 text-indigo-500 animate-spin" />;
+      case 'done': return <CheckCircle2 className="w-4 h-4 text-green-500" />;
+      case 'failed': return <XCircle className="w-4 h-4 text-red-500" />;
+      default: return <Circle className="w-4 h-4 text-gray-300" />;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="enrich-title"
+        tabIndex={-1}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 id="enrich-title" className="font-bold text-lg text-slate-800">Enrich Words</h3>
+            <p className="text-xs text-gray-400">{sheetName} · {client.name}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {client.isOffline && (
+            <div className="bg-amber-50 text-amber-800 p-4 rounded-lg text-sm mb-4">
+              No Gemini API key is configured, so enrichment runs offline and only guesses the part of speech from the word's ending.
+              Set <code>GEMINI_API_KEY</code> in <code>.env.local</code> and restart the dev server for full details.
+            </div>
+          )}
+          <p className="text-sm text-gray-500 mb-4">
+            Fills in missing part of speech, synonyms and translation, and adds example sentences and collocations.
+            Fields you have already filled in are kept.
+          </p>
+
+          <label className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+            <input
+              type="checkbox"
+              checked={onlyMissing}
+              disabled={isRunning}
+              onChange={(e) => setOnlyMissing(e.target.checked)}
+            />
+            Only words with missing details
+          </label>
+
+          {listed.length > 0 && Object.keys(statuses).length > 0 && (
+            <div className="mb-4">
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span>{doneCount} done{failedCount > 0 && `, ${failedCount} failed`}</span>
+                <span>{progress}%</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${progress}%` }} />
+              </div>
+            </div>
+          )}
+
+          <ul className="border border-gray-200 rounded-xl divide-y divide-gray-100 text-sm max-h-72 overflow-y-auto">
+            {listed.map(word => {
+              const entry = statuses[word.id];
+              return (
+                <li key={word.id} className="px-3 py-2 flex items-center gap-3">
+                  {statusIcon(entry?.status)}
+                  <span className="font-medium text-slate-700 flex-1 truncate">{word.word}</span>
+                  {entry?.status === 'failed' && (
+                    <>
+                      <span className="text-xs text-red-500 truncate max-w-[140px]" title={entry.error}>{entry.error}</span>
+                      <button
+                        onClick={() => run([word])}
+                        disabled={isRunning}
+                        className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
+                        title="Retry"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+            {listed.length === 0 && (
+              <li className="px-3 py-6 text-center text-gray-400">Every word already has full details.</li>
+            )}
+          </ul>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3">
+          {isRunning ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg text-sm font-medium transition-colors"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg text-sm font-medium transition-colors"
+            >
+              Close
+            </button>
+          )}
+          <button
+            onClick={() => run(targets.filter(w => statuses[w.id]?.status !== 'done'))}
+            disabled={isRunning || targets.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200 transition-colors disabled:opacity-50"
+          >
+            {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            {isRunning ? 'Enriching…' : `Enrich ${targets.filter(w => statuses[w.id]?.status !== 'done').length} words`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EnrichModal;
@@ -0,0 +1,340 @@
+import React, { useState, useEffect } from 'react';
+import { X, RotateCcw, ArrowLeftRight, CheckCircle2, XCircle } from 'lucide-react';
+import type { Grade, WordItem } from '../types';
+import {
+  EXERCISE_LABELS,
+  buildClozeQuestions,
+  buildMatchingRounds,
+  buildSynonymQuestions,
+  buildTranslationQuestions,
+  gradeForResult,
+  type ChoiceQuestion,
+  type ExerciseKind,
+  type MatchingRound
+} from '../services/exercises';
+
+const QUESTION_TITLES: Record<Exclude<ExerciseKind, 'matching'>, string> = {
+  translation: 'What does this mean?',
+  synonym: 'Which word has this synonym?',
+  cloze: 'Which word fills the blank?',
+};
+
+const QUESTION_BUILDERS = {
+  translation: buildTranslationQuestions,
+  synonym: buildSynonymQuestions,
+  cloze: buildClozeQuestions,
+};
+
+type ExerciseSessionProps = {
+  title: string;
+  words: WordItem[]; // Words being tested
+  pool: WordItem[]; // Whole library, for distractors
+  onGrade: (wordId: string, grade: Grade) => void;
+  onClose: () => void;
+};
+
+const ExerciseSession = ({ title, words, pool, onGrade, onClose }: ExerciseSessionProps) => {
+  const [kind, setKind] = useState<ExerciseKind>('translation');
+  const [started, setStarted] = useState(false);
+  const [questions, setQuestions] = useState<ChoiceQuestion[]>([]);
+  const [rounds, setRounds] = useState<MatchingRound[]>([]);
+  const [position, setPosition] = useState(0); // Question or round index
+  const [chosenId, setChosenId] = useState<string | null>(null);
+  // Matching state for the current round
+  const [selectedWordId, setSelectedWordId] = useState<string | null>(null);
+  const [matched, setMatched] = useState<Set<string>>(new Set());
+  const [wrongPair, setWrongPair] = useState<[string, string] | null>(null);
+  const [mistakes, setMistakes] = useState<Record<string, number>>({});
+  // Whether each word was answered correctly the first time
+  const [results, setResults] = useState<Record<string, boolean>>({});
+
+  const total = kind === 'matching' ? rounds.length : questions.length;
+  const isFinished = started && position >= total;
+  const question = kind !== 'matching' ? questions[position] : undefined;
+  const questionTitle = kind !== 'matching' ? QUESTION_TITLES[kind] : '';
+  const round = kind === 'matching' ? rounds[position] : undefined;
+
+  const build = (k: ExerciseKind, deck: WordItem[]): { questions: ChoiceQuestion[]; rounds: MatchingRound[] } => {
+    if (k === 'matching') return { questions: [], rounds: buildMatchingRounds(deck) };
+    return { questions: QUESTION_BUILDERS[k](deck, pool), rounds: [] };
+  };
+
+  const available = (k: ExerciseKind) => {
+    const built = build(k, words);
+    return k === 'matching' ? built.rounds.reduce((sum, r) => sum + r.words.length, 0) : built.questions.length;
+  };
+
+  const start = (deck: WordItem[]) => {
+    const built = build(kind, deck);
+    setQuestions(built.questions);
+    setRounds(built.rounds);
+    setPosition(0);
+    setChosenId(null);
+    setSelectedWordId(null);
+    setMatched(new Set());
+    setMistakes({});
+    setResults({});
+    setStarted(true);
+  };
+
+  const record = (wordId: string, missCount: number) => {
+    onGrade(wordId, gradeForResult(missCount));
+    setResults(prev => ({ ...prev, [wordId]: missCount === 0 }));
+  };
+
+  // --- Multiple choice ---
+
+  const choose = (optionId: string) => {
+    if (!question || chosenId) return;
+    setChosenId(optionId);
+    record(question.word.id, optionId === question.answerId ? 0 : 1);
+  };
+
+  const next = () => {
+    setPosition(p => p + 1);
+    setChosenId(null);
+    setSelectedWordId(null);
+    setMatched(new Set());
+  };
+
+  // --- Matching ---
+
+  const pickTranslation = (wordId: string) => {
+    if (!selectedWordId || matched.has(wordId)) return;
+    if (wordId === selectedWordId) {
+      record(wordId, mistakes[wordId] || 0);
+      setMatched(prev => new Set(prev).add(wordId));
+      setSelectedWordId(null);
+    } else {
+      setMistakes(prev => ({ ...prev, [selectedWordId]: (prev[selectedWordId] || 0) + 1 }));
+      setWrongPair([selectedWordId, wordId]);
+    }
+  };
+
+  // Clear the red flash of a wrong pairing
+  useEffect(() => {
+    if (!wrongPair) return;
+    const timer = setTimeout(() => setWrongPair(null), 600);
+    return () => clearTimeout(timer);
+  }, [wrongPair]);
+
+  const roundComplete = round ? matched.size === round.words.length : false;
+
+  // Keyboard shortcuts: 1-4 answer, Enter continues, Esc closes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+        return;
+      }
+      if (!started || isFinished) return;
+      if (e.key === 'Enter' && (chosenId || roundComplete)) {
+        e.preventDefault();
+        next();
+        return;
+      }
+      const index = Number(e.key) - 1;
+      if (question && index >= 0 && index < question.options.length) choose(question.options[index].id);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const optionClass = (optionId: string) => {
+    if (!chosenId || !question) return 'bg-white ring-gray-200 text-slate-700 hover:bg-indigo-50 hover:ring-indigo-200';
+    if (optionId === question.answerId) return 'bg-green-50 ring-green-300 text-green-700';
+    if (optionId === chosenId) return 'bg-red-50 ring-red-300 text-red-700';
+    return 'bg-white ring-gray-200 text-gray-400';
+  };
+
+  const answered = Object.keys(results).length;
+  const correct = Object.values(results).filter(Boolean).length;
+  const missed = words.filter(w => results[w.id] === false);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 className="font-bold text-lg text-slate-800">Exercises</h3>
+            <p className="text-xs text-gray-400">{title}</p>
+          </div>
+          <div className="flex items-center gap-4">
+            {started && !isFinished && (
+              <span className="text-sm font-medium text-gray-500">
+                {kind === 'matching' ? `Round ${position + 1} / ${total}` : `${position + 1} / ${total}`}
+              </span>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {!started && (
+            <div className="flex flex-col items-center text-center py-2">
+              <p className="text-gray-500 mb-4">Choose an exercise:</p>
+              <div className="grid gap-3 w-full mb-6">
+                {(Object.keys(EXERCISE_LABELS) as ExerciseKind[]).map(k => {
+                  const count = available(k);
+                  return (
+                    <button
+                      key={k}
+                      onClick={() => setKind(k)}
+                      disabled={count === 0}
+                      className={`
+                        text-left px-4 py-3 rounded-xl ring-1 transition-colors disabled:opacity-50
+                        ${kind === k ? 'bg-indigo-50 ring-indigo-300' : 'bg-white ring-gray-200 hover:bg-gray-50'}
+                      `}
+                    >
+                      <div className="flex justify-between items-baseline">
+                        <span className="font-medium text-slate-800">{EXERCISE_LABELS[k].label}</span>
+                        <span className="text-xs text-gray-400">{count} words</span>
+                      </div>
+                      <p className="text-sm text-gray-500">{EXERCISE_LABELS[k].description}</p>
+                    </button>
+                  );
+                })}
+              </div>
+              <button
+                onClick={() => start(words)}
+                disabled={available(kind) === 0}
+                className="px-6 py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 font-medium shadow-lg shadow-indigo-200 transition-colors disabled:opacity-50"
+              >
+                Start
+              </button>
+              <p className="text-xs text-gray-400 mt-6">
+                Shortcuts: <kbd>1</kbd>–<kbd>4</kbd> answer · <kbd>Enter</kbd> next · <kbd>Esc</kbd> close
+              </p>
+            </div>
+          )}
+
+          {question && !isFinished && (
+            <div className="flex flex-col items-center text-center">
+              <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+                {questionTitle}
+              </span>
+              {kind === 'cloze' ? (
+                <p className="text-xl font-medium leading-relaxed text-slate-700 mb-8">{question.prompt}</p>
+              ) : (
+                <h2 className="text-3xl font-bold tracking-tight text-slate-800 mb-8">{question.prompt}</h2>
+              )}
+              <div className="grid gap-2 w-full">
+                {question.options.map((option, idx) => (
+                  <button
+                    key={option.id}
+                    onClick={() => choose(option.id)}
+                    className={`flex items-center gap-3 px-4 py-3 rounded-xl ring-1 text-left transition-colors ${optionClass(option.id)}`}
+                  >
+                    <span className="text-xs text-gray-400 w-4">{idx + 1}</span>
+                    <span className="flex-1">{option.label}</span>
+                    {chosenId && option.id === question.answerId && <CheckCircle2 className="w-5 h-5 text-green-500" />}
+                    {chosenId === option.id && option.id !== question.answerId && <XCircle className="w-5 h-5 text-red-500" />}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {round && !isFinished && (
+            <div>
+              <p className="text-sm text-gray-500 text-center mb-4">Select a word, then its meaning.</p>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="flex flex-col gap-2">
+                  {round.words.map(word => (
+                    <button
+                      key={word.id}
+                      onClick={() => !matched.has(word.id) && setSelectedWordId(word.id)}
+                      disabled={matched.has(word.id)}
+                      className={`
+                        px-3 py-2.5 rounded-xl ring-1 text-sm font-medium text-left transition-colors
+                        ${matched.has(word.id) ? 'bg-green-50 ring-green-200 text-green-600'
+                          : wrongPair?.[0] === word.id ? 'bg-red-50 ring-red-300 text-red-700'
+                          : selectedWordId === word.id ? 'bg-indigo-50 ring-indigo-400 text-indigo-700'
+                          : 'bg-white ring-gray-200 text-slate-700 hover:bg-gray-50'}
+                      `}
+                    >
+                      {word.word}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-col gap-2">
+                  {round.translations.map(option => (
+                    <button
+                      key={option.id}
+                      onClick={() => pickTranslation(option.id)}
+                      disabled={matched.has(option.id)}
+                      className={`
+                        px-3 py-2.5 rounded-xl ring-1 text-sm text-left transition-colors
+                        ${matched.has(option.id) ? 'bg-green-50 ring-green-200 text-green-600'
+                          : wrongPair?.[1] === option.id ? 'bg-red-50 ring-red-300 text-red-700'
+                          : 'bg-white ring-gray-200 text-slate-700 hover:bg-gray-50'}
+                      `}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {isFinished && (
+            <div className="flex flex-col items-center text-center py-4">
+              <h4 className="text-xl font-bold text-slate-800 mb-1">Exercise complete</h4>
+              <p className="text-gray-500 text-sm mb-6">{EXERCISE_LABELS[kind].label}</p>
+              <div className="text-5xl font-bold text-indigo-600 mb-1">
+                {answered === 0 ? 0 : Math.round((correct / answered) * 100)}%
+              </div>
+              <p className="text-sm text-gray-500 mb-6">{correct} of {answered} correct</p>
+              {missed.length > 0 && (
+                <div className="w-full text-left bg-gray-50 rounded-lg p-3 border border-gray-100 mb-6">
+                  <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest block mb-1">Missed</span>
+                  <p className="text-sm text-slate-600">{missed.map(w => w.word).join(', ')}</p>
+                </div>
+              )}
+              <div className="flex gap-3">
+                {missed.length > 0 && (
+                  <button
+                    onClick={() => start(missed)}
+                    className="flex items-center gap-2 px-4 py-2 bg-white ring-1 ring-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Retry missed
+                  </button>
+                )}
+                <button
+                  onClick={() => setStarted(false)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white ring-1 ring-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                >
+                  <ArrowLeftRight className="w-4 h-4" />
+                  New session
+                </button>
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {started && !isFinished && (chosenId || roundComplete) && (
+          <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end">
+            <button
+              onClick={next}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200 transition-colors"
+            >
+              {position + 1 < total ? 'Next' : 'Finish'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExerciseSession;
@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { X, Volume2, RotateCcw, ArrowLeftRight, Eye } from 'lucide-react';
+import type { Grade, WordItem } from '../types';
+
+type Direction = 'en-zh' | 'zh-en';
+
+type FlashcardSessionProps = {
+  title: string;
+  words: WordItem[];
+  onGrade: (wordId: string, grade: Grade) => void;
+  onSpeak: (word: WordItem) => void;
+  onClose: () => void;
+};
+
+const GRADE_BUTTONS: { grade: Grade; label: string; key: string; className: string }[] = [
+  { grade: 'again', label: 'Again', key: '1', className: 'bg-red-50 text-red-600 ring-red-200 hover:bg-red-100' },
+  { grade: 'hard', label: 'Hard', key: '2', className: 'bg-amber-50 text-amber-600 ring-amber-200 hover:bg-amber-100' },
+  { grade: 'good', label: 'Good', key: '3', className: 'bg-green-50 text-green-600 ring-green-200 hover:bg-green-100' },
+  { grade: 'easy', label: 'Easy', key: '4', className: 'bg-indigo-50 text-indigo-600 ring-indigo-200 hover:bg-indigo-100' },
+];
+
+const FlashcardSession = ({ title, words, onGrade, onSpeak, onClose }: FlashcardSessionProps) => {
+  const [direction, setDirection] = useState<Direction>('en-zh');
+  const [started, setStarted] = useState(false);
+  // Snapshot of the deck so grading (which reorders the due queue) doesn't reshuffle the session
+  const [queue, setQueue] = useState<WordItem[]>(() => [...words]);
+  const [position, setPosition] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  // First grade per word; 'again' cards are re-queued but keep their first result
+  const [results, setResults] = useState<Record<string, Grade>>({});
+
+  const current = queue[position];
+  const isFinished = started && position >= queue.length;
+
+  const grade = (value: Grade) => {
+    if (!current || !revealed) return;
+    onGrade(current.id, value);
+    setResults(prev => (prev[current.id] ? prev : { ...prev, [current.id]: value }));
+    if (value === 'again') {
+      setQueue(prev => [...prev, current]);
+    }
+    setPosition(p => p + 1);
+    setRevealed(false);
+  };
+
+  const restart = (deck: WordItem[]) => {
+    setQueue(deck);
+    setPosition(0);
+    setRevealed(false);
+    setResults({});
+    setStarted(true);
+  };
+
+  // Keyboard shortcuts: Space/Enter reveals, 1-4 grade, Esc closes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+        return;
+      }
+      if (!started || isFinished) return;
+      if ((e.key === ' ' || e.key === 'Enter') && !revealed) {
+        e.preventDefault();
+        setRevealed(true);
+        return;
+      }
+      const match = GRADE_BUTTONS.find(b => b.key === e.key);
+      if (match) grade(match.grade);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const prompt = (word: WordItem) => direction === 'en-zh'
+    ? (
+      <>
+        <h2 className="text-4xl font-bold tracking-tight text-slate-800">{word.word}</h2>
+        {word.pos && <span className="text-sm italic font-serif text-gray-400 mt-2">{word.pos}</span>}
+      </>
+    )
+    : <h2 className="text-3xl font-bold text-slate-800">{word.translation || '—'}</h2>;
+
+  const answer = (word: WordItem) => direction === 'en-zh'
+    ? (
+      <>
+        <p className="text-2xl font-medium text-slate-700">{word.translation || '—'}</p>
+        {word.replacement && <p className="text-sm text-slate-500 mt-3">{word.replacement}</p>}
+      </>
+    )
+    : (
+      <>
+        <p className="text-3xl font-bold tracking-tight text-slate-800">{word.word}</p>
+        {word.pos && <span className="text-sm italic font-serif text-gray-400 mt-1">{word.pos}</span>}
+        {word.replacement && <p className="text-sm text-slate-500 mt-3">{word.replacement}</p>}
+      </>
+    );
+
+  const counts = GRADE_BUTTONS.map(b => ({
+    ...b,
+    count: Object.values(results).filter(g => g === b.grade).length,
+  }));
+  const missed = words.filter(w => results[w.id] === 'again');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 className="font-bold text-lg text-slate-800">Flashcards</h3>
+            <p className="text-xs text-gray-400">{title}</p>
+          </div>
+          <div className="flex items-center gap-4">
+            {started && !isFinished && (
+              <span className="text-sm font-medium text-gray-500">{position + 1} / {queue.length}</span>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {!started && (
+            <div className="flex flex-col items-center text-center py-6">
+              <p className="text-gray-500 mb-6">{words.length} cards in this session. Choose a direction:</p>
+              <div className="flex gap-3 mb-8">
+                {(['en-zh', 'zh-en'] as Direction[]).map(d => (
+                  <button
+                    key={d}
+                    onClick={() => setDirection(d)}
+                    className={`
+                      px-4 py-2 rounded-lg text-sm font-medium ring-1 transition-colors
+                      ${direction === d ? 'bg-indigo-600 text-white ring-indigo-600' : 'bg-white text-gray-600 ring-gray-200 hover:bg-gray-50'}
+                    `}
+                  >
+                    {d === 'en-zh' ? 'English → Chinese' : 'Chinese → English'}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => restart([...words])}
+                disabled={words.length === 0}
+                className="px-6 py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 font-medium shadow-lg shadow-indigo-200 transition-colors disabled:opacity-50"
+              >
+                Start
+              </button>
+              <p className="text-xs text-gray-400 mt-6">
+                Shortcuts: <kbd>Space</kbd> reveal · <kbd>1</kbd>–<kbd>4</kbd> grade · <kbd>Esc</kbd> close
+              </p>
+            </div>
+          )}
+
+          {started && current && (
+            <div className="flex flex-col items-center text-center">
+              <div className="w-full min-h-[140px] flex flex-col items-center justify-center">
+                {prompt(current)}
+              </div>
+
+              <div className="w-full border-t border-dashed border-gray-200 my-4" />
+
+              <div className="w-full min-h-[120px] flex flex-col items-center justify-center">
+                {revealed ? answer(current) : (
+                  <button
+                    onClick={() => setRevealed(true)}
+                    className="flex items-center gap-2 px-5 py-2.5 rounded-lg bg-slate-900 text-white hover:bg-slate-800 transition-colors"
+                  >
+                    <Eye className="w-4 h-4" />
+                    Show Answer
+                  </button>
+                )}
+              </div>
+
+              <button
+                onClick={() => onSpeak(current)}
+                className="mt-4 flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-white border border-gray-200 text-gray-600 hover:bg-indigo-50 hover:text-indigo-600"
+              >
+                <Volume2 className="w-4 h-4" />
+                Listen
+              </button>
+            </div>
+          )}
+
+          {isFinished && (
+            <div className="flex flex-col items-center text-center py-4">
+              <h4 className="text-xl font-bold text-slate-800 mb-1">Session complete</h4>
+              <p className="text-gray-500 text-sm mb-6">{Object.keys(results).length} cards reviewed</p>
+              <div className="grid grid-cols-4 gap-3 w-full mb-6">
+                {counts.map(c => (
+                  <div key={c.grade} className={`rounded-xl p-3 ring-1 ${c.className}`}>
+                    <div className="text-2xl font-bold">{c.count}</div>
+                    <div className="text-xs font-medium uppercase tracking-wider">{c.label}</div>
+                  </div>
+                ))}
+              </div>
+              {missed.length > 0 && (
+                <div className="w-full text-left bg-gray-50 rounded-lg p-3 border border-gray-100 mb-6">
+                  <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest block mb-1">Missed</span>
+                  <p className="text-sm text-slate-600">{missed.map(w => w.word).join(', ')}</p>
+                </div>
+              )}
+              <div className="flex gap-3">
+                {missed.length > 0 && (
+                  <button
+                    onClick={() => restart(missed)}
+                    className="flex items-center gap-2 px-4 py-2 bg-white ring-1 ring-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Retry missed
+                  </button>
+                )}
+                <button
+                  onClick={() => setStarted(false)}
+                  className="flex items-center gap-2 px-4 py-2 bg-white ring-1 ring-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                >
+                  <ArrowLeftRight className="w-4 h-4" />
+                  New session
+                </button>
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {started && current && revealed && (
+          <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 grid grid-cols-4 gap-3">
+            {GRADE_BUTTONS.map(b => (
+              <button
+                key={b.grade}
+                onClick={() => grade(b.grade)}
+                className={`flex flex-col items-center py-2 rounded-lg ring-1 text-sm font-medium transition-colors ${b.className}`}
+              >
+                {b.label}
+                <span className="text-[10px] opacity-60">{b.key}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardSession;
@@ -0,0 +1,465 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { X, FileUp, AlertTriangle, CheckCircle2, Copy, CalendarDays } from 'lucide-react';
+import type { DaySheet, WordItem } from '../types';
+import {
+  IMPORTERS,
+  IMPORT_FIELDS,
+  detectImporter,
+  guessMapping,
+  looksLikeHeader,
+  mapRows,
+  type ImportField
+} from '../services/importers';
+import { createDuplicateIndex, type ImportMerge } from '../services/duplicates';
+import { REVIEW_OFFSETS, generatePlan } from '../services/plan';
+import { todayKey } from '../services/srs';
+import { isSharedListText } from '../services/share';
+import { useDialogFocus } from './useDialogFocus';
+
+type ImportModalProps = {
+  library: DaySheet[]; // Existing sheets, checked for words that are already there
+  profileId: string; // Owner of a generated study plan
+  onImport: (sheets: DaySheet[], merges: ImportMerge[]) => void; // Sheets with an empty name get the next "Day N" name
+  onOpenSharedList: (text: string) => void; // A .vocab.json list was dropped; it has its own preview
+  onClose: () => void;
+};
+
+type DuplicateAction = 'skip' | 'merge' | 'keep';
+
+const DUPLICATE_ACTIONS: { action: DuplicateAction; label: string }[] = [
+  { action: 'skip', label: 'Skip' },
+  { action: 'merge', label: 'Merge' },
+  { action: 'keep', label: 'Keep both' },
+];
+
+const PREVIEW_LIMIT = 100;
+
+const ImportModal = ({ library, profileId, onImport, onOpenSharedList, onClose }: ImportModalProps) => {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>(undefined);
+  const [formatId, setFormatId] = useState('auto');
+  // User overrides; null means "use what was detected"
+  const [headerOverride, setHeaderOverride] = useState<boolean | null>(null);
+  const [mappingOverride, setMappingOverride] = useState<ImportField[] | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // Second step, shown when some words already exist in the library
+  const [isReviewingDuplicates, setIsReviewingDuplicates] = useState(false);
+  const [resolutions, setResolutions] = useState<Record<string, DuplicateAction>>({});
+  // Study plan: split the words into dated days instead of one day
+  const [asPlan, setAsPlan] = useState(false);
+  const [wordsPerDay, setWordsPerDay] = useState(20);
+  const [planStart, setPlanStart] = useState(todayKey);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const reviewHeadingRef = useRef<HTMLSpanElement>(null);
+
+  // Escape steps back out of the duplicate review before closing the dialog
+  useDialogFocus(dialogRef, () => (isReviewingDuplicates ? setIsReviewingDuplicates(false) : onClose()));
+
+  // Entering the review step moves focus to its heading so screen readers announce it
+  useEffect(() => {
+    if (isReviewingDuplicates) reviewHeadingRef.current?.focus();
+  }, [isReviewingDuplicates]);
+
+  const resetOverrides = () => {
+    setHeaderOverride(null);
+    setMappingOverride(null);
+    setIsReviewingDuplicates(false);
+    setResolutions({});
+  };
+
+  const importer = formatId === 'auto'
+    ? detectImporter(text, fileName)
+    : IMPORTERS.find(i => i.id === formatId) || detectImporter(text, fileName);
+
+  const result = useMemo(() => (text.trim() ? importer.parse(text) : null), [text, importer]);
+
+  // Tabular preview: header handling and column mapping
+  const table = useMemo(() => {
+    if (!result || result.kind !== 'table') return null;
+    const detectedHeader = result.header === null && result.rows.length > 1 && looksLikeHeader(result.rows[0].cells);
+    const hasHeader = result.header === null && (headerOverride ?? detectedHeader);
+    const header = result.header || (hasHeader ? result.rows[0].cells : null);
+    const rows = hasHeader ? result.rows.slice(1) : result.rows;
+    const columnCount = Math.max(header?.length || 0, ...rows.map(r => r.cells.length), 0);
+    const mapping = mappingOverride?.length === columnCount
+      ? mappingOverride
+      : guessMapping(columnCount, header, result.defaultMapping);
+    return { hasHeader, header, columnCount, mapping, mapped: mapRows(rows, mapping) };
+  }, [result, headerOverride, mappingOverride]);
+
+  const validWords = table
+    ? table.mapped.filter(r => r.word).length
+    : result?.kind === 'sheets' ? result.sheets.reduce((sum, s) => sum + s.words.length, 0) : 0;
+  const rowErrors = table ? table.mapped.filter(r => r.error) : [];
+  const issueCount = (result?.issues.length || 0) + rowErrors.length;
+
+  // Days that "Create Day" would add, before duplicates are resolved
+  const importSheets = useMemo((): DaySheet[] => {
+    if (result?.kind === 'sheets') return result.sheets.filter(s => s.words.length > 0);
+    if (!table) return [];
+    const words = table.mapped.flatMap(r => (r.word ? [r.word] : []));
+    return words.length ? [{ id: `imported-day-${Date.now()}`, name: '', words }] : [];
+  }, [result, table]);
+
+  // Imported words matching a library word (case- and inflection-insensitive)
+  const duplicates = useMemo(() => {
+    const index = createDuplicateIndex(library);
+    return importSheets.flatMap(sheet => sheet.words).flatMap(word => {
+      const matches = index.find(word.word);
+      return matches.length ? [{ incoming: word, matches }] : [];
+    });
+  }, [importSheets, library]);
+
+  const actionFor = (word: WordItem) => resolutions[word.id] || 'skip';
+  const setAllActions = (action: DuplicateAction) =>
+    setResolutions(Object.fromEntries(duplicates.map(d => [d.incoming.id, action])));
+
+  const loadFile = async (file: File) => {
+    // Drop the byte order mark spreadsheet apps add, or it sticks to the first header cell
+    const content = (await file.text()).replace(/^\uFEFF/, '');
+    if (isSharedListText(content)) {
+      onOpenSharedList(content);
+      return;
+    }
+    setFileName(file.name);
+    setFormatId('auto');
+    resetOverrides();
+    setText(content);
+  };
+
+  const handleCreate = () => {
+    if (importSheets.length === 0) return;
+    if (duplicates.length > 0 && !isReviewingDuplicates) {
+      setIsReviewingDuplicates(true);
+      return;
+    }
+
+    const merges: ImportMerge[] = [];
+    const dropped = new Set<string>();
+    duplicates.forEach(({ incoming, matches }) => {
+      const action = actionFor(incoming);
+      if (action === 'keep') return;
+      dropped.add(incoming.id);
+      if (action === 'merge') merges.push({ targetId: matches[0].word.id, incoming });
+    });
+
+    const sheets = importSheets
+      .map(sheet => ({ ...sheet, words: sheet.words.filter(w => !dropped.has(w.id)) }))
+      .filter(sheet => sheet.words.length > 0);
+    onImport(
+      asPlan ? generatePlan(sheets.flatMap(sheet => sheet.words), { wordsPerDay, startDate: planStart, profileId }) : sheets,
+      merges
+    );
+  };
+
+  const newWordCount = validWords - duplicates.filter(d => actionFor(d.incoming) !== 'keep').length;
+  const planDays = Math.ceil(validWords / Math.max(1, wordsPerDay));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-modal-title"
+        tabIndex={-1}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h3 id="import-modal-title" className="font-bold text-lg text-slate-800">Import Vocabulary</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div
+          className="p-6 overflow-y-auto"
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            const file = e.dataTransfer.files[0];
+            if (file) loadFile(file);
+          }}
+        >
+          <div className="mb-4 bg-blue-50 text-blue-800 p-4 rounded-lg text-sm">
+            <strong>Format:</strong> Copy columns from Excel/Sheets directly, or drop a <code>.csv</code>, <code>.tsv</code>, Anki <code>.txt</code> export or <code>.json</code> file.
+            Shared <code>.vocab.json</code> lists open with a preview.
+            <br/>
+            Without a header row we expect: <code>Word</code> → <code>Part of Speech</code> → <code>Synonyms</code> → <code>Translation</code>.
+            With a header, extra <code>Examples</code>, <code>Notes</code>, <code>Tags</code> and <code>Source</code> columns are picked up too.
+            <br/>
+            <span className="text-blue-600/80 mt-1 block">All imported words will be grouped into a single new 'Day'. JSON files keep their own days.</span>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-white border border-gray-200 text-gray-600 hover:bg-indigo-50 hover:text-indigo-600"
+            >
+              <FileUp className="w-4 h-4" />
+              Choose file
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadFile(file);
+                e.target.value = '';
+              }}
+            />
+            {fileName && <span className="text-xs text-gray-500 truncate max-w-[200px]">{fileName}</span>}
+
+            <label className="flex items-center gap-2 text-sm text-gray-600 ml-auto">
+              Format
+              <select
+                value={formatId}
+                onChange={(e) => {
+                  setFormatId(e.target.value);
+                  resetOverrides();
+                }}
+                className="border border-gray-200 rounded-lg px-2 py-1 text-sm bg-white"
+              >
+                <option value="auto">Auto ({importer.label})</option>
+                {IMPORTERS.map(i => (
+                  <option key={i.id} value={i.id}>{i.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <textarea
+            data-autofocus
+            aria-label="Words to import"
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setFileName(undefined);
+              resetOverrides();
+            }}
+            placeholder={`resilience\tn.\telasticity, recovery\t弹性；恢复力\nsedentary\tadj.\tinactive, desk-bound\t久坐不动的`}
+            className={`
+              w-full h-40 p-4 border rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none font-mono text-xs sm:text-sm bg-gray-50 whitespace-pre
+              ${isDragging ? 'border-indigo-400 ring-2 ring-indigo-200' : 'border-gray-200'}
+            `}
+          />
+
+          {isReviewingDuplicates ? (
+            <div className="mt-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <span ref={reviewHeadingRef} tabIndex={-1} className="flex items-center gap-2 text-sm font-medium text-amber-600 focus:outline-none">
+                  <Copy className="w-4 h-4" />
+                  {duplicates.length} {duplicates.length === 1 ? 'word is' : 'words are'} already in your library
+                </span>
+                <div className="flex items-center gap-1 text-xs text-gray-500">
+                  All:
+                  {DUPLICATE_ACTIONS.map(({ action, label }) => (
+                    <button
+                      key={action}
+                      onClick={() => setAllActions(action)}
+                      className="px-2 py-1 rounded-md hover:bg-gray-100 hover:text-gray-700"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <ul className="border border-gray-200 rounded-xl divide-y divide-gray-100 text-sm max-h-80 overflow-y-auto">
+                {duplicates.map(({ incoming, matches }) => (
+                  <li key={incoming.id} className="px-3 py-2 flex flex-wrap items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-slate-700 truncate">
+                        {incoming.word}
+                        {incoming.translation && <span className="font-normal text-gray-400"> · {incoming.translation}</span>}
+                      </div>
+                      <div className="text-xs text-gray-400 truncate">
+                        Matches {matches.map(m => `${m.word.word} (${m.sheetName}${m.word.learned ? ', learned' : ''})`).join(', ')}
+                      </div>
+                    </div>
+                    <div role="group" aria-label={`What to do with ${incoming.word}`} className="flex rounded-lg ring-1 ring-gray-200 overflow-hidden text-xs">
+                      {DUPLICATE_ACTIONS.map(({ action, label }) => (
+                        <button
+                          key={action}
+                          aria-pressed={actionFor(incoming) === action}
+                          onClick={() => setResolutions(prev => ({ ...prev, [incoming.id]: action }))}
+                          className={`px-2.5 py-1 ${actionFor(incoming) === action ? 'bg-indigo-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2 text-xs text-gray-400">
+                Merge adds the imported synonyms and meanings to the existing word and keeps its progress.
+              </p>
+            </div>
+          ) : result && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className={`flex items-center gap-2 text-sm font-medium ${issueCount ? 'text-amber-600' : 'text-green-600'}`}>
+                  {issueCount ? <AlertTriangle className="w-4 h-4" /> : <CheckCircle2 className="w-4 h-4" />}
+                  {validWords} words ready{issueCount > 0 && `, ${issueCount} problem${issueCount === 1 ? '' : 's'} (skipped)`}
+                </span>
+                {table && result.kind === 'table' && result.header === null && (
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={table.hasHeader}
+                      onChange={(e) => {
+                        setHeaderOverride(e.target.checked);
+                        setMappingOverride(null);
+                      }}
+                    />
+                    First row is a header
+                  </label>
+                )}
+              </div>
+
+              {result.issues.length > 0 && (
+                <ul className="mb-3 text-xs text-red-600 space-y-1">
+                  {result.issues.map((issue, idx) => (
+                    <li key={idx}>Line {issue.line}: {issue.message}</li>
+                  ))}
+                </ul>
+              )}
+
+              {table && (
+                <div className="overflow-x-auto border border-gray-200 rounded-xl">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-2 py-2 text-left text-gray-400 font-medium">Line</th>
+                        {table.mapping.map((field, col) => (
+                          <th key={col} className="px-2 py-2 text-left font-medium">
+                            {table.header?.[col] && (
+                              <span className="block text-gray-400 font-normal mb-1 truncate">{table.header[col]}</span>
+                            )}
+                            <select
+                              aria-label={`Column ${col + 1} field`}
+                              value={field}
+                              onChange={(e) => {
+                                const next = [...table.mapping];
+                                next[col] = e.target.value as ImportField;
+                                setMappingOverride(next);
+                              }}
+                              className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                            >
+                              {IMPORT_FIELDS.map(f => (
+                                <option key={f.value} value={f.value}>{f.label}</option>
+                              ))}
+                            </select>
+                          </th>
+                        ))}
+                        <th className="px-2 py-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {table.mapped.slice(0, PREVIEW_LIMIT).map(row => (
+                        <tr key={row.line} className={`border-t border-gray-100 ${row.error ? 'bg-red-50' : ''}`}>
+                          <td className="px-2 py-1.5 text-gray-400">{row.line}</td>
+                          {table.mapping.map((field, col) => (
+                            <td key={col} className={`px-2 py-1.5 ${field === 'ignore' ? 'text-gray-300' : 'text-slate-700'}`}>
+                              {row.cells[col] || ''}
+                            </td>
+                          ))}
+                          <td className="px-2 py-1.5 text-red-600 whitespace-nowrap">{row.error}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {table.mapped.length > PREVIEW_LIMIT && (
+                    <p className="px-3 py-2 text-xs text-gray-400 border-t border-gray-100">
+                      Showing the first {PREVIEW_LIMIT} of {table.mapped.length} rows.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {validWords > 0 && (
+                <div className={`mb-3 rounded-xl ring-1 p-3 ${asPlan ? 'ring-indigo-200 bg-indigo-50/40' : 'ring-gray-200'}`}>
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                    <input type="checkbox" checked={asPlan} onChange={(e) => setAsPlan(e.target.checked)} />
+                    <CalendarDays className="w-4 h-4 text-indigo-500" />
+                    Split into a study plan
+                  </label>
+                  {asPlan && (
+                    <div className="flex flex-wrap items-center gap-4 mt-3 pl-6 text-sm text-gray-600">
+                      <label className="flex items-center gap-2">
+                        New words per day
+                        <input
+                          type="number"
+                          min={1}
+                          value={wordsPerDay}
+                          onChange={(e) => setWordsPerDay(Math.max(1, Number(e.target.value) || 1))}
+                          className="w-20 border border-gray-200 rounded-lg px-2 py-1 bg-white"
+                        />
+                      </label>
+                      <label className="flex items-center gap-2">
+                        Starting
+                        <input
+                          type="date"
+                          value={planStart}
+                          onChange={(e) => e.target.value && setPlanStart(e.target.value)}
+                          className="border border-gray-200 rounded-lg px-2 py-1 bg-white"
+                        />
+                      </label>
+                      <span className="text-xs text-gray-400 w-full">
+                        About {planDays} days. Each day also reviews the words from {REVIEW_OFFSETS.join(', ')} days
+                        earlier; missed days move forward automatically.
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {result.kind === 'sheets' && result.sheets.length > 0 && (
+                <ul className="border border-gray-200 rounded-xl divide-y divide-gray-100 text-sm">
+                  {result.sheets.map(sheet => (
+                    <li key={sheet.id} className="px-3 py-2 flex justify-between">
+                      <span className="font-medium text-slate-700">{sheet.name || '(unnamed day)'}</span>
+                      <span className="text-gray-400">{sheet.words.length} words</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3">
+          <button
+            onClick={isReviewingDuplicates ? () => setIsReviewingDuplicates(false) : onClose}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            {isReviewingDuplicates ? 'Back' : 'Cancel'}
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={validWords === 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200 transition-colors disabled:opacity-50"
+          >
+            {isReviewingDuplicates
+              ? (newWordCount > 0 ? `Import ${newWordCount} new words` : 'Apply')
+              : duplicates.length > 0
+                ? 'Review duplicates'
+                : asPlan
+                  ? `Create ${planDays}-Day Plan`
+                  : importSheets.length > 1 ? `Create ${importSheets.length} Days` : 'Create Day'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportModal;
@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Volume2 } from 'lucide-react';
+import {
+  DEFAULT_PLAYBACK_SETTINGS,
+  type PlaybackParts,
+  type PlaybackSettings
+} from '../services/player';
+import { speakText } from '../services/speech';
+import { useDialogFocus } from './useDialogFocus';
+
+type PlaybackSettingsModalProps = {
+  settings: PlaybackSettings;
+  onChange: (settings: PlaybackSettings) => void;
+  onClose: () => void;
+};
+
+// Voices load asynchronously in most browsers, so listen for updates
+const useVoices = () => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => window.speechSynthesis.getVoices());
+  useEffect(() => {
+    const update = () => setVoices(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', update);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+  return voices;
+};
+
+const PART_LABELS: { key: keyof PlaybackParts; label: string }[] = [
+  { key: 'word', label: 'Word' },
+  { key: 'spelling', label: 'Spelling (letter by letter)' },
+  { key: 'synonyms', label: 'Synonyms' },
+  { key: 'translation', label: 'Chinese translation' },
+];
+
+const PlaybackSettingsModal = ({ settings, onChange, onClose }: PlaybackSettingsModalProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  const voices = useVoices();
+  const englishVoices = voices.filter(v => v.lang.toLowerCase().startsWith('en'));
+  const chineseVoices = voices.filter(v => v.lang.toLowerCase().startsWith('zh'));
+
+  const update = <K extends keyof PlaybackSettings>(key: K, value: PlaybackSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  const labelClass = 'text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 block';
+  const selectClass = 'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm bg-white';
+
+  const preview = (voiceURI: string | null, text: string, lang: string) => {
+    window.speechSynthesis.cancel();
+    speakText(text, { voiceURI, lang, rate: settings.rate, pitch: settings.pitch });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="playback-title"
+        tabIndex={-1}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h3 id="playback-title" className="font-bold text-lg text-slate-800">Audio Settings</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {/* Voices */}
+          <section className="space-y-3">
+            <div>
+              <span className={labelClass}>English voice</span>
+              <div className="flex gap-2">
+                <select
+                  value={settings.voiceURI || ''}
+                  onChange={(e) => update('voiceURI', e.target.value || null)}
+                  className={selectClass}
+                >
+                  <option value="">Browser default</option>
+                  {englishVoices.map(v => (
+                    <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => preview(settings.voiceURI, 'Resilience', 'en-US')}
+                  className="p-2 rounded-lg border border-gray-200 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50"
+                  title="Preview"
+                >
+                  <Volume2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <div>
+              <span className={labelClass}>Chinese voice</span>
+              <div className="flex gap-2">
+                <select
+                  value={settings.zhVoiceURI || ''}
+                  onChange={(e) => update('zhVoiceURI', e.target.value || null)}
+                  className={selectClass}
+                >
+                  <option value="">Browser default</option>
+                  {chineseVoices.map(v => (
+                    <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => preview(settings.zhVoiceURI, '弹性；恢复力', 'zh-CN')}
+                  className="p-2 rounded-lg border border-gray-200 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50"
+                  title="Preview"
+                >
+                  <Volume2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </section>
+
+          {/* Rate & pitch */}
+          <section className="grid grid-cols-2 gap-4">
+            <label>
+              <span className={labelClass}>Rate · {settings.rate.toFixed(2)}×</span>
+              <input
+                type="range" min={0.5} max={1.5} step={0.05}
+                value={settings.rate}
+                onChange={(e) => update('rate', Number(e.target.value))}
+                className="w-full accent-indigo-600"
+              />
+            </label>
+            <label>
+              <span className={labelClass}>Pitch · {settings.pitch.toFixed(1)}</span>
+              <input
+                type="range" min={0.5} max={2} step={0.1}
+                value={settings.pitch}
+                onChange={(e) => update('pitch', Number(e.target.value))}
+                className="w-full accent-indigo-600"
+              />
+            </label>
+          </section>
+
+          {/* What to read */}
+          <section>
+            <span className={labelClass}>Read for each word</span>
+            <div className="grid grid-cols-2 gap-2">
+              {PART_LABELS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.parts[key]}
+                    onChange={(e) => update('parts', { ...settings.parts, [key]: e.target.checked })}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </section>
+
+          {/* Sequence */}
+          <section className="grid grid-cols-2 gap-4">
+            <label>
+              <span className={labelClass}>Repeat each word</span>
+              <select
+                value={settings.repeat}
+                onChange={(e) => update('repeat', Number(e.target.value))}
+                className={selectClass}
+              >
+                {[1, 2, 3, 4, 5].map(n => (
+                  <option key={n} value={n}>{n}×</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span className={labelClass}>Gap · {(settings.gapMs / 1000).toFixed(1)}s</span>
+              <input
+                type="range" min={0} max={5000} step={100}
+                value={settings.gapMs}
+                onChange={(e) => update('gapMs', Number(e.target.value))}
+                className="w-full accent-indigo-600"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={settings.loop} onChange={(e) => update('loop', e.target.checked)} />
+              Loop the list
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={settings.unlearnedOnly} onChange={(e) => update('unlearnedOnly', e.target.checked)} />
+              Unlearned words only
+            </label>
+          </section>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-between gap-3">
+          <button
+            onClick={() => onChange(DEFAULT_PLAYBACK_SETTINGS)}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            Reset
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackSettingsModal;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { profileInitial, type Profile } from '../services/profiles';
+
+// Spelled out so Tailwind picks the classes up
+const AVATAR_CLASSES: Record<string, string> = {
+  indigo: 'bg-indigo-100 text-indigo-700',
+  emerald: 'bg-emerald-100 text-emerald-700',
+  amber: 'bg-amber-100 text-amber-700',
+  rose: 'bg-rose-100 text-rose-700',
+  sky: 'bg-sky-100 text-sky-700',
+  violet: 'bg-violet-100 text-violet-700',
+};
+
+const ProfileAvatar = ({ profile, className = 'w-7 h-7 text-xs' }: { profile: Profile; className?: string }) => (
+  <span
+    className={`inline-flex items-center justify-center rounded-full font-bold flex-shrink-0 ${AVATAR_CLASSES[profile.color] || AVATAR_CLASSES.indigo} ${className}`}
+    aria-hidden="true"
+  >
+    {profileInitial(profile)}
+  </span>
+);
+
+export default ProfileAvatar;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Check, Users } from 'lucide-react';
+import type { Profile } from '../services/profiles';
+import ProfileAvatar from './ProfileAvatar';
+
+type ProfileSwitcherProps = {
+  profiles: Profile[];
+  activeId: string;
+  onSwitch: (profileId: string) => void;
+  onManage: () => void;
+};
+
+const ProfileSwitcher = ({ profiles, activeId, onSwitch, onManage }: ProfileSwitcherProps) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const active = profiles.find(p => p.id === activeId) || profiles[0];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsMenuOpen(open => !open)}
+        className="flex items-center rounded-full p-0.5 hover:ring-2 hover:ring-indigo-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        title={`Profile: ${active.name}`}
+        aria-label={`Switch profile (current: ${active.name})`}
+        aria-haspopup="true"
+        aria-expanded={isMenuOpen}
+      >
+        <ProfileAvatar profile={active} />
+      </button>
+      {isMenuOpen && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-10" onClick={() => setIsMenuOpen(false)} />
+          <div
+            className="absolute left-0 top-10 z-20 w-56 bg-white rounded-xl shadow-xl ring-1 ring-gray-200 p-2 text-sm"
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setIsMenuOpen(false);
+            }}
+          >
+            {profiles.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => {
+                  setIsMenuOpen(false);
+                  if (profile.id !== activeId) onSwitch(profile.id);
+                }}
+                className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-gray-700 hover:bg-gray-100"
+                aria-current={profile.id === activeId ? 'true' : undefined}
+              >
+                <ProfileAvatar profile={profile} className="w-6 h-6 text-[11px]" />
+                <span className="flex-1 text-left truncate">{profile.name}</span>
+                {profile.id === activeId && <Check className="w-4 h-4 text-indigo-600" />}
+              </button>
+            ))}
+            <div className="border-t border-gray-100 my-1" />
+            <button
+              onClick={() => {
+                setIsMenuOpen(false);
+                onManage();
+              }}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-gray-700 hover:bg-gray-100"
+            >
+              <Users className="w-4 h-4" />
+              Manage profiles…
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,175 @@
+import React, { useRef, useState } from 'react';
+import { X, Users, Plus, Pencil, Trash2, Download, Check } from 'lucide-react';
+import { DEFAULT_PROFILE_ID, type Profile } from '../services/profiles';
+import ProfileAvatar from './ProfileAvatar';
+import { useDialogFocus } from './useDialogFocus';
+
+type ProfilesModalProps = {
+  profiles: Profile[];
+  activeId: string;
+  onAdd: (name: string) => void;
+  onRename: (profileId: string, name: string) => void;
+  onDelete: (profileId: string) => void;
+  onSwitch: (profileId: string) => void;
+  onExportProgress: () => void; // Progress of the active profile
+  onClose: () => void;
+};
+
+const ProfilesModal = ({ profiles, activeId, onAdd, onRename, onDelete, onSwitch, onExportProgress, onClose }: ProfilesModalProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const addProfile = () => {
+    if (!newName.trim()) return;
+    onAdd(newName);
+    setNewName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="profiles-title"
+        tabIndex={-1}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 id="profiles-title" className="flex items-center gap-2 font-bold text-lg text-slate-800">
+              <Users className="w-5 h-5 text-indigo-500" />
+              Profiles
+            </h3>
+            <p className="text-xs text-gray-400">Everyone shares the word lists and keeps their own progress</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-2">
+          {profiles.map(profile => {
+            const isActive = profile.id === activeId;
+            return (
+              <div key={profile.id} className={`flex items-center gap-3 rounded-xl px-3 py-2 ${isActive ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}>
+                <ProfileAvatar profile={profile} className="w-8 h-8 text-sm" />
+                {editingId === profile.id ? (
+                  <input
+                    autoFocus
+                    defaultValue={profile.name}
+                    aria-label="Profile name"
+                    onBlur={(e) => {
+                      if (e.target.value.trim()) onRename(profile.id, e.target.value.trim());
+                      setEditingId(null);
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    className="flex-1 min-w-0 border border-gray-200 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                  />
+                ) : (
+                  <span className="flex-1 min-w-0 truncate font-medium text-slate-700">
+                    {profile.name}
+                    {isActive && <span className="ml-2 text-xs font-normal text-indigo-600">active</span>}
+                  </span>
+                )}
+
+                {confirmDeleteId === profile.id ? (
+                  <>
+                    <button
+                      onClick={() => {
+                        setConfirmDeleteId(null);
+                        onDelete(profile.id);
+                      }}
+                      className="px-2 py-1 text-xs font-medium text-white bg-red-600 rounded-lg hover:bg-red-700"
+                    >
+                      Delete progress
+                    </button>
+                    <button onClick={() => setConfirmDeleteId(null)} className="px-2 py-1 text-xs text-gray-500 hover:bg-gray-100 rounded-lg">
+                      Keep
+                    </button>
+                  </>
+                ) : (
+                  <div className="flex items-center">
+                    {!isActive && (
+                      <button
+                        onClick={() => onSwitch(profile.id)}
+                        className="px-2 py-1 text-xs font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg"
+                      >
+                        Switch
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setEditingId(profile.id)}
+                      className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg"
+                      title="Rename"
+                      aria-label={`Rename ${profile.name}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    {/* The first profile holds the data from before profiles existed and stays */}
+                    {!isActive && profile.id !== DEFAULT_PROFILE_ID && (
+                      <button
+                        onClick={() => setConfirmDeleteId(profile.id)}
+                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                        title="Delete profile"
+                        aria-label={`Delete ${profile.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex gap-2 pt-3">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') addProfile();
+              }}
+              placeholder="New profile name"
+              aria-label="New profile name"
+              className="flex-1 min-w-0 border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              data-autofocus
+            />
+            <button
+              onClick={addProfile}
+              disabled={!newName.trim()}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-indigo-600 rounded-lg hover:bg-indigo-50 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-between gap-3">
+          <button
+            onClick={onExportProgress}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white ring-1 ring-gray-200 rounded-lg hover:bg-gray-50"
+          >
+            <Download className="w-4 h-4" />
+            Export my progress
+          </button>
+          <button
+            onClick={onClose}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200"
+          >
+            <Check className="w-4 h-4" />
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilesModal;
@@ -0,0 +1,254 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Mic, MicOff, Volume2, RotateCcw, CheckCircle2, XCircle, AlertCircle, Loader2 } from 'lucide-react';
+import type { WordItem } from '../types';
+import { scorePronunciation, type PronunciationResult, type SpeechRecognizer } from '../services/pronunciation';
+
+type PronunciationSessionProps = {
+  title: string;
+  words: WordItem[];
+  recognizer: SpeechRecognizer | null; // null when the browser cannot recognize speech
+  onSpeak: (word: WordItem) => Promise<void>;
+  onResult: (wordId: string, verdict: PronunciationResult['verdict']) => void;
+  onClose: () => void;
+};
+
+type Phase = 'speaking' | 'listening' | 'result' | 'error';
+
+const RECOGNITION_LANG = 'en-US';
+
+const PronunciationSession = ({ title, words, recognizer, onSpeak, onResult, onClose }: PronunciationSessionProps) => {
+  const [queue, setQueue] = useState<WordItem[]>([]);
+  const [position, setPosition] = useState(0);
+  const [started, setStarted] = useState(false);
+  const [phase, setPhase] = useState<Phase>('speaking');
+  const [result, setResult] = useState<PronunciationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Latest verdict and number of attempts per word
+  const [results, setResults] = useState<Record<string, { verdict: PronunciationResult['verdict']; attempts: number }>>({});
+  const abortRef = useRef<AbortController | null>(null);
+
+  const current = queue[position];
+  const isFinished = started && position >= queue.length;
+
+  // Play the word, then listen for the user's attempt. A newer attempt cancels the older one.
+  const attempt = async (word: WordItem) => {
+    if (!recognizer) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setError(null);
+
+    setPhase('speaking');
+    await onSpeak(word);
+    if (controller.signal.aborted) return;
+
+    setPhase('listening');
+    try {
+      const transcripts = await recognizer.listen({ lang: RECOGNITION_LANG, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      if (transcripts.length === 0) {
+        setError("Didn't hear anything. Try again a little louder.");
+        setPhase('error');
+        return;
+      }
+      const scored = scorePronunciation(word.word, transcripts);
+      setResult(scored);
+      setPhase('result');
+      setResults(prev => ({
+        ...prev,
+        [word.id]: { verdict: scored.verdict, attempts: (prev[word.id]?.attempts || 0) + 1 },
+      }));
+      onResult(word.id, scored.verdict);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setError((e as Error).message);
+      setPhase('error');
+    }
+  };
+
+  // Each new word starts an attempt automatically
+  useEffect(() => {
+    if (started && current) attempt(current);
+  }, [started, position, queue]);
+
+  // Stop listening and speaking when the session closes
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    window.speechSynthesis.cancel();
+  }, []);
+
+  const next = () => setPosition(p => p + 1);
+
+  // Keyboard shortcuts: Enter next, R retry, Esc closes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+        return;
+      }
+      if (!current || (phase !== 'result' && phase !== 'error')) return;
+      if (e.key === 'Enter') next();
+      if (e.key === 'r' || e.key === 'R') attempt(current);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const start = (deck: WordItem[]) => {
+    setQueue(deck);
+    setPosition(0);
+    setResults({});
+    setStarted(true);
+  };
+
+  const missedWords = queue.filter(w => results[w.id]?.verdict !== 'match');
+  const firstTry = queue.filter(w => results[w.id]?.verdict === 'match' && results[w.id].attempts === 1).length;
+  const afterRetry = queue.filter(w => results[w.id]?.verdict === 'match' && results[w.id].attempts > 1).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 className="font-bold text-lg text-slate-800">Pronunciation</h3>
+            <p className="text-xs text-gray-400">{title}</p>
+          </div>
+          <div className="flex items-center gap-4">
+            {started && !isFinished && (
+              <span className="text-sm font-medium text-gray-500">{position + 1} / {queue.length}</span>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {!recognizer ? (
+            <div className="flex flex-col items-center text-center py-8 text-gray-500">
+              <MicOff className="w-12 h-12 mb-4 text-gray-300" />
+              <p>Speech recognition isn't available in this browser.</p>
+              <p className="text-sm text-gray-400 mt-1">Try Chrome, Edge or Safari.</p>
+            </div>
+          ) : !started ? (
+            <div className="flex flex-col items-center text-center py-4">
+              <p className="text-gray-500 mb-8 max-w-sm">
+                Each word is read aloud first. Then say it yourself and it will be checked against
+                what the microphone heard.
+              </p>
+              <button
+                onClick={() => start([...words])}
+                disabled={words.length === 0}
+                className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 font-medium shadow-lg shadow-indigo-200 transition-colors disabled:opacity-50"
+              >
+                <Mic className="w-5 h-5" />
+                Start ({words.length} words)
+              </button>
+            </div>
+          ) : current ? (
+            <div className="flex flex-col items-center text-center">
+              <h2 className="text-4xl font-bold tracking-tight text-slate-800">{current.word}</h2>
+              {current.pos && <span className="text-sm italic font-serif text-gray-400 mt-2">{current.pos}</span>}
+              {current.translation && <p className="text-sm text-slate-500 mt-2">{current.translation}</p>}
+
+              <div className="min-h-[120px] flex flex-col items-center justify-center mt-6" aria-live="polite">
+                {phase === 'speaking' && (
+                  <span className="flex items-center gap-2 text-indigo-600 font-medium">
+                    <Volume2 className="w-5 h-5" />
+                    Listen…
+                  </span>
+                )}
+                {phase === 'listening' && (
+                  <>
+                    <span className="w-16 h-16 rounded-full bg-red-50 text-red-500 ring-4 ring-red-100 flex items-center justify-center animate-pulse">
+                      <Mic className="w-7 h-7" />
+                    </span>
+                    <span className="mt-3 text-sm font-medium text-gray-500">Say the word now</span>
+                  </>
+                )}
+                {phase === 'result' && result && (
+                  <>
+                    <span className={`flex items-center gap-2 font-semibold ${result.verdict === 'match' ? 'text-green-600' : 'text-red-600'}`}>
+                      {result.verdict === 'match' ? <CheckCircle2 className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+                      {result.verdict === 'match' ? 'Match' : 'Not quite'}
+                    </span>
+                    <p className="text-sm text-gray-500 mt-2">
+                      Heard: <span className="font-medium text-slate-700">“{result.heard}”</span>
+                    </p>
+                  </>
+                )}
+                {phase === 'error' && error && (
+                  <span className="flex items-center gap-2 text-amber-600 font-medium">
+                    <AlertCircle className="w-5 h-5" />
+                    {error}
+                  </span>
+                )}
+              </div>
+
+              {(phase === 'result' || phase === 'error') ? (
+                <div className="flex flex-col items-center gap-2 mt-2">
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => attempt(current)}
+                      className="flex items-center gap-2 px-4 py-2 bg-white ring-1 ring-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Try again
+                    </button>
+                    <button
+                      onClick={next}
+                      className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200"
+                    >
+                      {position + 1 < queue.length ? 'Next word' : 'Finish'}
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-400">
+                    Shortcuts: <kbd>R</kbd> try again · <kbd>Enter</kbd> next · <kbd>Esc</kbd> close
+                  </p>
+                </div>
+              ) : (
+                <Loader2 className="w-5 h-5 mt-2 text-gray-300 animate-spin" />
+              )}
+            </div>
+          ) : isFinished && (
+            <div className="flex flex-col items-center text-center py-4">
+              <h4 className="text-xl font-bold text-slate-800 mb-6">Pronunciation complete</h4>
+              <div className="grid grid-cols-3 gap-3 w-full mb-6">
+                {[
+                  { label: 'First try', value: firstTry, className: 'text-green-600' },
+                  { label: 'After retry', value: afterRetry, className: 'text-amber-600' },
+                  { label: 'Missed', value: missedWords.length, className: 'text-red-600' },
+                ].map(({ label, value, className }) => (
+                  <div key={label} className="rounded-xl p-3 ring-1 ring-gray-200">
+                    <div className={`text-2xl font-bold ${className}`}>{value}</div>
+                    <div className="text-xs font-medium uppercase tracking-wider text-gray-500">{label}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-3">
+                {missedWords.length > 0 && (
+                  <button
+                    onClick={() => start(missedWords)}
+                    className="flex items-center gap-2 px-4 py-2 bg-white ring-1 ring-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Practice missed
+                  </button>
+                )}
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PronunciationSession;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { X, Layers } from 'lucide-react';
+import type { DaySheet } from '../types';
+import {
+  DEFAULT_SEARCH_FILTERS,
+  FAILED_WITHIN_OPTIONS,
+  SORT_LABELS,
+  type LearnedFilter,
+  type SearchFilters,
+  type SortKey
+} from '../services/search';
+
+type SearchFilterBarProps = {
+  filters: SearchFilters;
+  sheets: DaySheet[];
+  partsOfSpeech: string[];
+  tags: string[];
+  folders: string[];
+  resultCount: number;
+  onChange: (filters: SearchFilters) => void;
+  showQuery?: boolean; // Decks edit their search text here; plain search uses the sidebar box
+  onSaveDeck?: (name: string) => void; // Offered in search; a deck's own bar edits it in place
+};
+
+const SearchFilterBar = ({
+  filters,
+  sheets,
+  partsOfSpeech,
+  tags,
+  folders,
+  resultCount,
+  onChange,
+  showQuery = false,
+  onSaveDeck
+}: SearchFilterBarProps) => {
+  const [deckName, setDeckName] = useState<string | null>(null); // Non-null while naming a new deck
+
+  const update = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) =>
+    onChange({ ...filters, [key]: value });
+
+  const isFiltered = filters.learned !== 'all' || filters.pos !== '' || filters.sheetId !== '' || filters.folder !== ''
+    || filters.tag !== '' || filters.failedWithinDays > 0 || filters.sort !== 'library';
+
+  const saveDeck = () => {
+    if (deckName?.trim()) onSaveDeck?.(deckName);
+    setDeckName(null);
+  };
+  const selectClass = 'border border-gray-200 rounded-lg px-2 py-1.5 text-sm bg-white text-gray-700';
+
+  return (
+    <div className="max-w-5xl mx-auto mb-4 flex flex-wrap items-center gap-2">
+      {showQuery && (
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => update('query', e.target.value)}
+          placeholder="Any text"
+          aria-label="Search text"
+          className={`${selectClass} w-36`}
+        />
+      )}
+
+      <select
+        value={filters.learned}
+        onChange={(e) => update('learned', e.target.value as LearnedFilter)}
+        className={selectClass}
+        aria-label="Learned status"
+      >
+        <option value="all">All words</option>
+        <option value="unlearned">Unlearned</option>
+        <option value="learned">Learned</option>
+      </select>
+
+      <select
+        value={filters.pos}
+        onChange={(e) => update('pos', e.target.value)}
+        className={selectClass}
+        aria-label="Part of speech"
+      >
+        <option value="">Any part of speech</option>
+        {partsOfSpeech.map(pos => (
+          <option key={pos} value={pos}>{pos}.</option>
+        ))}
+      </select>
+
+      <select
+        value={filters.sheetId}
+        onChange={(e) => update('sheetId', e.target.value)}
+        className={selectClass}
+        aria-label="Day"
+      >
+        <option value="">All days</option>
+        {sheets.map(sheet => (
+          <option key={sheet.id} value={sheet.id}>{sheet.name}</option>
+        ))}
+      </select>
+
+      {folders.length > 0 && (
+        <select
+          value={filters.folder}
+          onChange={(e) => update('folder', e.target.value)}
+          className={selectClass}
+          aria-label="Folder"
+        >
+          <option value="">All folders</option>
+          {folders.map(folder => (
+            <option key={folder} value={folder}>{folder}</option>
+          ))}
+        </select>
+      )}
+
+      {(tags.length > 0 || filters.tag) && (
+        <select
+          value={filters.tag}
+          onChange={(e) => update('tag', e.target.value)}
+          className={selectClass}
+          aria-label="Tag"
+        >
+          <option value="">Any tag</option>
+          {/* Keep a saved deck's tag listed even after its last word lost it */}
+          {(tags.some(t => t.toLowerCase() === filters.tag.toLowerCase()) || !filters.tag ? tags : [filters.tag, ...tags]).map(tag => (
+            <option key={tag} value={tag}>#{tag}</option>
+          ))}
+        </select>
+      )}
+
+      <select
+        value={filters.failedWithinDays}
+        onChange={(e) => update('failedWithinDays', Number(e.target.value))}
+        className={selectClass}
+        aria-label="Failed recently"
+      >
+        <option value={0}>Any history</option>
+        {FAILED_WITHIN_OPTIONS.map(days => (
+          <option key={days} value={days}>
+            Failed {days === 1 ? 'today' : `in the last ${days} days`}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={filters.sort}
+        onChange={(e) => update('sort', e.target.value as SortKey)}
+        className={selectClass}
+        aria-label="Sort"
+      >
+        {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+          <option key={key} value={key}>{SORT_LABELS[key]}</option>
+        ))}
+      </select>
+
+      {isFiltered && (
+        <button
+          onClick={() => onChange({ ...DEFAULT_SEARCH_FILTERS, query: filters.query })}
+          className="flex items-center gap-1 px-2 py-1.5 text-sm text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+        >
+          <X className="w-4 h-4" />
+          Clear filters
+        </button>
+      )}
+
+      <span className="ml-auto text-sm text-gray-400">
+        {resultCount} {resultCount === 1 ? 'word' : 'words'}
+      </span>
+
+      {onSaveDeck && (deckName === null ? (
+        <button
+          onClick={() => setDeckName(filters.query.trim() || filters.tag)}
+          className="flex items-center gap-1 px-2 py-1.5 text-sm font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg"
+        >
+          <Layers className="w-4 h-4" />
+          Save as deck
+        </button>
+      ) : (
+        <input
+          autoFocus
+          value={deckName}
+          onChange={(e) => setDeckName(e.target.value)}
+          onBlur={saveDeck}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') saveDeck();
+            if (e.key === 'Escape') {
+              e.stopPropagation();
+              setDeckName(null);
+            }
+          }}
+          placeholder="Deck name"
+          aria-label="Deck name"
+          className="border border-indigo-300 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 w-40"
+        />
+      ))}
+    </div>
+  );
+};
+
+export default SearchFilterBar;
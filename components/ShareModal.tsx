@@ -0,0 +1,166 @@
+import React, { useRef, useState } from 'react';
+import { X, Share2, Link2, FileDown, Check, AlertTriangle } from 'lucide-react';
+import type { DaySheet } from '../types';
+import {
+  MAX_SHARE_LINK_LENGTH,
+  SHARE_FILE_EXTENSION,
+  createShareFile,
+  createShareLink,
+  createSharedList,
+  loadShareAuthor,
+  saveShareAuthor,
+  suggestShareVersion,
+  type SharedList
+} from '../services/share';
+import { downloadText, toFileName } from '../services/backup';
+import { useDialogFocus } from './useDialogFocus';
+
+type ShareModalProps = {
+  sheet: DaySheet;
+  profileId: string; // The author name is remembered per profile
+  onShared: (list: SharedList) => void; // Record what was published on the sheet
+  onClose: () => void;
+};
+
+const ShareModal = ({ sheet, profileId, onShared, onClose }: ShareModalProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+  const [author, setAuthor] = useState(() => loadShareAuthor(profileId));
+  const [description, setDescription] = useState(sheet.share?.description || '');
+  const [version, setVersion] = useState(() => suggestShareVersion(sheet));
+  const [link, setLink] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+
+  const publish = () => {
+    const list = createSharedList(sheet, { author, description, version });
+    saveShareAuthor(author.trim(), profileId);
+    onShared(list);
+    return list;
+  };
+
+  const copyLink = async () => {
+    const url = await createShareLink(publish(), window.location.href);
+    setLink(url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsCopied(true);
+    } catch (e) {
+      // Clipboard access can be refused; the link is still shown for copying by hand
+      console.error("Failed to copy share link:", e);
+    }
+  };
+
+  const downloadFile = () => {
+    const list = publish();
+    downloadText(`${toFileName(sheet.name)}${SHARE_FILE_EXTENSION}`, createShareFile(list), 'application/json');
+  };
+
+  const labelClass = 'text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 block';
+  const inputClass = 'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="share-title"
+        tabIndex={-1}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 id="share-title" className="flex items-center gap-2 font-bold text-lg text-slate-800">
+              <Share2 className="w-5 h-5 text-indigo-500" />
+              Share “{sheet.name}”
+            </h3>
+            <p className="text-xs text-gray-400">{sheet.words.length} words · your progress is not included</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-[1fr_6rem] gap-4">
+            <label className="block">
+              <span className={labelClass}>Author</span>
+              <input
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                placeholder="Your name"
+                className={inputClass}
+                data-autofocus
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Version</span>
+              <input
+                type="number"
+                min={1}
+                value={version}
+                onChange={(e) => setVersion(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <label className="block">
+            <span className={labelClass}>Description</span>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              placeholder="What the list is for, e.g. GRE week 3"
+              className={`${inputClass} resize-none`}
+            />
+          </label>
+          {sheet.share && (
+            <p className="text-xs text-gray-500">
+              Last shared as version {sheet.share.version}. People who already have it can update their copy
+              when you share a higher version.
+            </p>
+          )}
+
+          {link && (
+            <div className="space-y-2">
+              <input
+                readOnly
+                value={link}
+                onFocus={(e) => e.target.select()}
+                aria-label="Share link"
+                className={`${inputClass} bg-gray-50 text-gray-500 font-mono text-xs`}
+              />
+              {link.length > MAX_SHARE_LINK_LENGTH && (
+                <p className="flex items-start gap-2 text-xs text-amber-700">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  This link is very long and may be cut off in some apps. Sharing the file is safer.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3">
+          <button
+            onClick={downloadFile}
+            disabled={sheet.words.length === 0}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white ring-1 ring-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <FileDown className="w-4 h-4" />
+            Download {SHARE_FILE_EXTENSION}
+          </button>
+          <button
+            onClick={copyLink}
+            disabled={sheet.words.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200 disabled:opacity-50"
+          >
+            {isCopied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+            {isCopied ? 'Link copied' : 'Copy link'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareModal;
@@ -0,0 +1,130 @@
+import React, { useRef } from 'react';
+import { X, Inbox, AlertTriangle, CheckCircle2, Plus, RefreshCw } from 'lucide-react';
+import type { DaySheet } from '../types';
+import { diffSharedList, type SharedList } from '../services/share';
+import { useDialogFocus } from './useDialogFocus';
+
+type SharePreviewModalProps = {
+  list: SharedList | null;
+  error: string | null; // The link or file could not be read
+  existing?: DaySheet; // Copy of this list already in the library
+  onAdd: () => void;
+  onUpdate: () => void;
+  onClose: () => void;
+};
+
+const PREVIEW_LIMIT = 8;
+
+const SharePreviewModal = ({ list, error, existing, onAdd, onUpdate, onClose }: SharePreviewModalProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  const diff = list && existing ? diffSharedList(existing, list) : null;
+  const changeCount = diff ? diff.added.length + diff.updated.length + diff.removed.length : 0;
+  const isOlder = Boolean(list && existing?.share && list.version < existing.share.version);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="share-preview-title"
+        tabIndex={-1}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h3 id="share-preview-title" className="flex items-center gap-2 font-bold text-lg text-slate-800">
+            <Inbox className="w-5 h-5 text-indigo-500" />
+            Shared Word List
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {error || !list ? (
+            <div className="flex items-start gap-3 text-sm text-red-700 bg-red-50 rounded-lg p-4">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+              <p>{error || 'The shared list could not be opened.'}</p>
+            </div>
+          ) : (
+            <>
+              <h4 className="text-xl font-bold text-slate-800">{list.name}</h4>
+              <p className="text-sm text-gray-500 mt-1">
+                {list.words.length} words · version {list.version}
+                {list.author && <> · by {list.author}</>}
+              </p>
+              {list.description && <p className="text-sm text-slate-600 mt-3 whitespace-pre-line">{list.description}</p>}
+
+              <table className="w-full text-sm mt-4">
+                <tbody className="divide-y divide-gray-100">
+                  {list.words.slice(0, PREVIEW_LIMIT).map(word => (
+                    <tr key={word.key}>
+                      <td className="py-1.5 pr-3 font-medium text-slate-800">{word.word}</td>
+                      <td className="py-1.5 pr-3 italic font-serif text-gray-400">{word.pos}</td>
+                      <td className="py-1.5 text-slate-600">{word.translation}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {list.words.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-400 mt-2">and {list.words.length - PREVIEW_LIMIT} more</p>
+              )}
+
+              {existing && diff && (
+                <div className="mt-5 rounded-lg p-4 text-sm bg-indigo-50 text-indigo-900">
+                  <p className="font-medium">
+                    You have {existing.share ? `version ${existing.share.version}` : 'a copy'} as “{existing.name}”.
+                  </p>
+                  {isOlder ? (
+                    <p className="mt-1 text-indigo-700">This link has an older version, so there is nothing to update.</p>
+                  ) : changeCount === 0 ? (
+                    <p className="mt-1 flex items-center gap-1.5 text-indigo-700">
+                      <CheckCircle2 className="w-4 h-4" />
+                      Your copy is up to date.
+                    </p>
+                  ) : (
+                    <p className="mt-1 text-indigo-700">
+                      Updating adds {diff.added.length}, changes {diff.updated.length} and
+                      removes {diff.removed.length} {diff.removed.length === 1 ? 'word' : 'words'}.
+                      Your progress on the other words and words you added yourself are kept.
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium">
+            {list && !existing ? 'Cancel' : 'Close'}
+          </button>
+          {list && !error && (existing ? (
+            <button
+              onClick={onUpdate}
+              disabled={isOlder || changeCount === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200 disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Update my copy
+            </button>
+          ) : (
+            <button
+              onClick={onAdd}
+              disabled={list.words.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              Add to library
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharePreviewModal;
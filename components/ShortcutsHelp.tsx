@@ -0,0 +1,61 @@
+import React, { useRef } from 'react';
+import { X, Keyboard } from 'lucide-react';
+import { SHORTCUTS } from '../services/shortcuts';
+import { useDialogFocus } from './useDialogFocus';
+
+type ShortcutsHelpProps = {
+  onClose: () => void;
+};
+
+const ShortcutsHelp = ({ onClose }: ShortcutsHelpProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h3 id="shortcuts-title" className="flex items-center gap-2 font-bold text-lg text-slate-800">
+            <Keyboard className="w-5 h-5 text-indigo-500" />
+            Keyboard Shortcuts
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <dl className="p-6 space-y-3 text-sm">
+          {SHORTCUTS.map(({ keys, description }) => (
+            <div key={description} className="flex items-center justify-between gap-4">
+              <dt className="text-gray-600">{description}</dt>
+              <dd className="flex gap-1 flex-shrink-0">
+                {keys.map(key => (
+                  <kbd key={key} className="min-w-[1.75rem] text-center px-1.5 py-0.5 rounded-md bg-gray-100 ring-1 ring-gray-200 text-xs font-semibold text-slate-700">
+                    {key}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+
+        <div className="px-6 py-3 bg-gray-50 border-t border-gray-100 text-xs text-gray-400">
+          Study sessions have their own keys, listed inside each session.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsHelp;
@@ -0,0 +1,223 @@
+import React, { useRef } from 'react';
+import { X, Flame, Trophy, Target, Clock, Layers, PenLine, Headphones, ListChecks, Mic } from 'lucide-react';
+import type { DaySheet, StudyEvent, StudyMode } from '../types';
+import { addDays, todayKey } from '../services/srs';
+import {
+  formatDuration,
+  getDailyActivity,
+  getHardestWords,
+  getLearnedPerDay,
+  getRetention,
+  getSessionStats,
+  getStreaks
+} from '../services/stats';
+import { useDialogFocus } from './useDialogFocus';
+
+type StatsDashboardProps = {
+  sheets: DaySheet[];
+  events: StudyEvent[];
+  onClose: () => void;
+};
+
+const CHART_DAYS = 30;
+const HEATMAP_WEEKS = 17;
+
+const MODE_LABELS: Record<StudyMode, { label: string; icon: React.ReactNode }> = {
+  flashcards: { label: 'Flashcards', icon: <Layers className="w-4 h-4" /> },
+  dictation: { label: 'Dictation', icon: <PenLine className="w-4 h-4" /> },
+  listening: { label: 'Listening', icon: <Headphones className="w-4 h-4" /> },
+  exercises: { label: 'Exercises', icon: <ListChecks className="w-4 h-4" /> },
+  pronunciation: { label: 'Pronunciation', icon: <Mic className="w-4 h-4" /> },
+};
+
+// Tailwind shade for a heatmap cell, relative to the busiest day
+const heatClass = (count: number, max: number) => {
+  if (count === 0) return 'bg-gray-100';
+  const level = count / max;
+  if (level > 0.75) return 'bg-indigo-600';
+  if (level > 0.5) return 'bg-indigo-400';
+  if (level > 0.25) return 'bg-indigo-300';
+  return 'bg-indigo-200';
+};
+
+const StatCard = ({ icon, label, value, hint }: { icon: React.ReactNode; label: string; value: string; hint?: string }) => (
+  <div className="bg-white rounded-xl ring-1 ring-gray-200 p-4">
+    <div className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+      {icon}
+      {label}
+    </div>
+    <div className="text-2xl font-bold text-slate-800">{value}</div>
+    {hint && <div className="text-xs text-gray-400 mt-1">{hint}</div>}
+  </div>
+);
+
+const StatsDashboard = ({ sheets, events, onClose }: StatsDashboardProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  const today = todayKey();
+  const activity = getDailyActivity(events);
+  const learnedPerDay = getLearnedPerDay(events);
+  const streaks = getStreaks(new Set(activity.keys()), today);
+  const retention = getRetention(events);
+  const sessions = getSessionStats(events);
+  const hardest = getHardestWords(events, sheets);
+
+  const totalWords = sheets.reduce((sum, s) => sum + s.words.length, 0);
+  const learnedWords = sheets.reduce((sum, s) => sum + s.words.filter(w => w.learned).length, 0);
+
+  // Learned-per-day bars for the last CHART_DAYS days, oldest first
+  const chartDays = Array.from({ length: CHART_DAYS }, (_, i) => addDays(today, i - CHART_DAYS + 1));
+  const chartMax = Math.max(1, ...chartDays.map(day => learnedPerDay.get(day) || 0));
+
+  // Heatmap columns are weeks starting on Sunday, ending with the current week
+  const [y, m, d] = today.split('-').map(Number);
+  const heatStart = addDays(today, -new Date(y, m - 1, d).getDay() - (HEATMAP_WEEKS - 1) * 7);
+  const weeks = Array.from({ length: HEATMAP_WEEKS }, (_, w) =>
+    Array.from({ length: 7 }, (_, day) => addDays(heatStart, w * 7 + day))
+  );
+  const heatMax = Math.max(1, ...weeks.flat().map(day => activity.get(day) || 0));
+
+  const sectionTitle = 'text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="stats-title"
+        tabIndex={-1}
+        className="bg-gray-50 rounded-2xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-white">
+          <div>
+            <h3 id="stats-title" className="font-bold text-lg text-slate-800">Statistics</h3>
+            <p className="text-xs text-gray-400">{learnedWords} of {totalWords} words learned</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {events.length === 0 && (
+            <div className="bg-indigo-50 text-indigo-700 p-4 rounded-lg text-sm">
+              No study activity recorded yet. Reviews, dictation and listening will show up here.
+            </div>
+          )}
+
+          {/* Headline numbers */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <StatCard icon={<Flame className="w-4 h-4 text-orange-500" />} label="Streak" value={`${streaks.current}d`} />
+            <StatCard icon={<Trophy className="w-4 h-4 text-amber-500" />} label="Longest" value={`${streaks.longest}d`} />
+            <StatCard
+              icon={<Target className="w-4 h-4 text-green-500" />}
+              label="Retention"
+              value={retention.rate === null ? '–' : `${Math.round(retention.rate * 100)}%`}
+              hint={`${retention.total} repeat reviews`}
+            />
+            <StatCard
+              icon={<Clock className="w-4 h-4 text-indigo-500" />}
+              label="Study time"
+              value={formatDuration(sessions.totalMs)}
+              hint={sessions.count > 0 ? `${formatDuration(sessions.averageMs)} per session` : undefined}
+            />
+          </div>
+
+          {/* Learned per day */}
+          <section className="bg-white rounded-xl ring-1 ring-gray-200 p-4">
+            <h4 className={sectionTitle}>Words learned · last {CHART_DAYS} days</h4>
+            <div className="flex items-end gap-1 h-32">
+              {chartDays.map(day => {
+                const count = learnedPerDay.get(day) || 0;
+                return (
+                  <div key={day} className="flex-1 h-full flex items-end" title={`${day}: ${count}`}>
+                    <div
+                      className={`w-full rounded-t ${count > 0 ? 'bg-indigo-500' : 'bg-gray-100'}`}
+                      style={{ height: `${Math.max(4, (count / chartMax) * 100)}%` }}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+              <span>{chartDays[0]}</span>
+              <span>Today</span>
+            </div>
+          </section>
+
+          {/* Activity heatmap */}
+          <section className="bg-white rounded-xl ring-1 ring-gray-200 p-4">
+            <h4 className={sectionTitle}>Review activity</h4>
+            <div className="flex gap-1 overflow-x-auto">
+              {weeks.map(week => (
+                <div key={week[0]} className="flex flex-col gap-1">
+                  {week.map(day => {
+                    const count = activity.get(day) || 0;
+                    return (
+                      <div
+                        key={day}
+                        title={`${day}: ${count} actions`}
+                        className={`w-3.5 h-3.5 rounded-sm ${day > today ? 'bg-transparent' : heatClass(count, heatMax)}`}
+                      />
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <div className="grid sm:grid-cols-2 gap-6">
+            {/* Sessions */}
+            <section className="bg-white rounded-xl ring-1 ring-gray-200 p-4">
+              <h4 className={sectionTitle}>Recent sessions</h4>
+              {sessions.recent.length === 0 ? (
+                <p className="text-sm text-gray-400">No sessions yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {sessions.recent.map(session => (
+                    <li key={session.at} className="py-2 flex items-center gap-3">
+                      <span className="text-indigo-500">{MODE_LABELS[session.mode].icon}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-slate-700">{MODE_LABELS[session.mode].label}</div>
+                        <div className="text-xs text-gray-400">
+                          {new Date(session.at).toLocaleString()} · {session.words} words
+                        </div>
+                      </div>
+                      <span className="text-gray-500 font-medium">{formatDuration(session.durationMs)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {/* Hardest words */}
+            <section className="bg-white rounded-xl ring-1 ring-gray-200 p-4">
+              <h4 className={sectionTitle}>Hardest words</h4>
+              {hardest.length === 0 ? (
+                <p className="text-sm text-gray-400">No failed reviews or misspellings yet.</p>
+              ) : (
+                <ol className="divide-y divide-gray-100 text-sm">
+                  {hardest.map(({ word, sheetName, failures, attempts }) => (
+                    <li key={word.id} className="py-2 flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-slate-700 truncate">{word.word}</div>
+                        <div className="text-xs text-gray-400 truncate">{sheetName} · {word.translation}</div>
+                      </div>
+                      <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-red-50 text-red-600" title={`${failures} of ${attempts} attempts failed`}>
+                        {failures}×
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsDashboard;
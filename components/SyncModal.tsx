@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import { X, Cloud, RefreshCw, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { isValidLibraryId, type SyncSettings } from '../services/sync';
+import type { SyncStatus } from './useLibrarySync';
+import { useDialogFocus } from './useDialogFocus';
+
+type SyncModalProps = {
+  settings: SyncSettings;
+  status: SyncStatus;
+  onChange: (settings: SyncSettings) => void;
+  onSyncNow: () => void;
+  onClose: () => void;
+};
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const SyncModal = ({ settings, status, onChange, onSyncNow, onClose }: SyncModalProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+  const [form, setForm] = useState(settings);
+
+  const update = <K extends keyof SyncSettings>(key: K, value: SyncSettings[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const urlError = form.serverUrl && !/^https?:\/\/\S+$/.test(form.serverUrl.trim())
+    ? 'Use a full address, e.g. http://192.168.1.20:8787'
+    : null;
+  const libraryError = form.libraryId && !isValidLibraryId(form.libraryId.trim())
+    ? 'Letters, digits, "-" and "_" only'
+    : null;
+  const isComplete = Boolean(form.serverUrl.trim() && form.libraryId.trim()) && !urlError && !libraryError;
+  const isDirty = JSON.stringify(form) !== JSON.stringify(settings);
+
+  const save = () => {
+    const next = { ...form, serverUrl: form.serverUrl.trim(), libraryId: form.libraryId.trim() };
+    setForm(next);
+    onChange(next);
+  };
+
+  const labelClass = 'text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 block';
+  const inputClass = 'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="sync-title"
+        tabIndex={-1}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h3 id="sync-title" className="flex items-center gap-2 font-bold text-lg text-slate-800">
+            <Cloud className="w-5 h-5 text-indigo-500" />
+            Sync Devices
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-5">
+          <p className="text-sm text-gray-500">
+            Keep your days, words and progress the same on every device. Start the sync server with{' '}
+            <code className="px-1 py-0.5 rounded bg-gray-100 text-slate-700">npm run sync-server</code>{' '}
+            on a computer your devices can reach, then use the same server and library name everywhere.
+          </p>
+
+          <label className="flex items-center gap-3 text-sm font-medium text-slate-700">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => update('enabled', e.target.checked)}
+              className="w-4 h-4 accent-indigo-600"
+              data-autofocus
+            />
+            Sync this device
+          </label>
+
+          <label className="block">
+            <span className={labelClass}>Server address</span>
+            <input
+              type="url"
+              value={form.serverUrl}
+              onChange={(e) => update('serverUrl', e.target.value)}
+              placeholder="http://localhost:8787"
+              className={inputClass}
+            />
+            {urlError && <span className="block mt-1 text-xs text-red-500">{urlError}</span>}
+          </label>
+
+          <label className="block">
+            <span className={labelClass}>Library name</span>
+            <input
+              value={form.libraryId}
+              onChange={(e) => update('libraryId', e.target.value)}
+              placeholder="my-words"
+              className={inputClass}
+            />
+            {libraryError && <span className="block mt-1 text-xs text-red-500">{libraryError}</span>}
+          </label>
+
+          <label className="block">
+            <span className={labelClass}>Access token (if the server has one)</span>
+            <input
+              type="password"
+              value={form.token}
+              onChange={(e) => update('token', e.target.value)}
+              autoComplete="off"
+              className={inputClass}
+            />
+          </label>
+
+          {/* Status */}
+          {settings.enabled && (
+            <div className="flex items-center gap-2 text-sm" aria-live="polite">
+              {status.state === 'syncing' && (
+                <span className="flex items-center gap-2 text-indigo-600">
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                  Syncing…
+                </span>
+              )}
+              {status.state === 'error' && (
+                <span className="flex items-center gap-2 text-red-600">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  {status.error}
+                </span>
+              )}
+              {status.state === 'idle' && status.lastSyncedAt && (
+                <span className="flex items-center gap-2 text-green-600">
+                  <CheckCircle2 className="w-4 h-4" />
+                  Synced at {formatTime(status.lastSyncedAt)}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-between gap-3">
+          <button
+            onClick={onSyncNow}
+            disabled={!settings.enabled || isDirty || status.state === 'syncing'}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-600 rounded-lg hover:bg-indigo-50 disabled:opacity-50"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Sync now
+          </button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium">
+              Close
+            </button>
+            <button
+              onClick={save}
+              disabled={!isDirty || (form.enabled && !isComplete)}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncModal;
@@ -0,0 +1,36 @@
+import React, { useEffect } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+
+type UndoToastProps = {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+};
+
+const UNDO_TIMEOUT_MS = 8000;
+
+const UndoToast = ({ message, onUndo, onDismiss }: UndoToastProps) => {
+  // Auto-dismiss; a new message restarts the timer
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 pl-5 pr-3 py-3 bg-slate-900 text-white rounded-xl shadow-2xl text-sm">
+      <span className="max-w-xs truncate">{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1.5 px-3 py-1 rounded-lg font-medium text-indigo-300 hover:bg-white/10"
+      >
+        <RotateCcw className="w-4 h-4" />
+        Undo
+      </button>
+      <button onClick={onDismiss} className="p-1 text-gray-400 hover:text-white">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
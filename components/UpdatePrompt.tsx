@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { RefreshCw, WifiOff, X } from 'lucide-react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { UPDATE_CHECK_INTERVAL_MS } from '../services/pwa';
+
+type UpdatePromptProps = {
+  isBusy: boolean; // A session or dialog is open; reloading now would throw it away
+  onBeforeReload: () => Promise<void>; // Save everything the reload must not lose
+};
+
+const UpdatePrompt = ({ isBusy, onBeforeReload }: UpdatePromptProps) => {
+  const [isReloading, setIsReloading] = useState(false);
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW: (_url, registration) => {
+      if (registration) setInterval(() => registration.update(), UPDATE_CHECK_INTERVAL_MS);
+    },
+    onRegisterError: (e) => console.error("Service worker registration failed:", e),
+  });
+
+  const reload = async () => {
+    setIsReloading(true);
+    await onBeforeReload();
+    await updateServiceWorker();
+  };
+
+  if (!needRefresh && !offlineReady) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 right-6 z-40 flex items-center gap-4 pl-5 pr-3 py-3 bg-slate-900 text-white rounded-xl shadow-2xl text-sm max-w-sm"
+    >
+      {needRefresh ? (
+        <>
+          <span>
+            A new version is available.
+            {isBusy && <span className="block text-xs text-gray-400">Finish what you're doing to update.</span>}
+          </span>
+          <button
+            onClick={reload}
+            disabled={isBusy || isReloading}
+            className="flex items-center gap-1.5 px-3 py-1 rounded-lg font-medium text-indigo-300 hover:bg-white/10 disabled:opacity-50 flex-shrink-0"
+          >
+            <RefreshCw className={`w-4 h-4 ${isReloading ? 'animate-spin' : ''}`} />
+            Reload
+          </button>
+        </>
+      ) : (
+        <span className="flex items-center gap-2">
+          <WifiOff className="w-4 h-4 text-indigo-300" />
+          Ready to study offline.
+        </span>
+      )}
+      <button
+        onClick={() => {
+          setNeedRefresh(false);
+          setOfflineReady(false);
+        }}
+        className="p-1 text-gray-400 hover:text-white"
+        aria-label="Dismiss"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,495 @@
+import React, { useState } from 'react';
+import {
+  CheckCircle2,
+  Circle,
+  Volume2,
+  Loader2,
+  Languages,
+  Pencil,
+  Trash2,
+  MoreVertical,
+  GripVertical,
+  Check,
+  X,
+  StickyNote,
+  BookMarked,
+  Link2,
+  Puzzle,
+  ChevronDown
+} from 'lucide-react';
+import type { DaySheet, WordItem } from '../types';
+import { parseTags } from '../services/importers';
+import type { WordLocation } from '../services/duplicates';
+import type { WordParts } from '../services/morphology';
+import { isStudied } from '../services/srs';
+
+export type WordFields = Pick<WordItem, 'word' | 'pos' | 'replacement' | 'translation' | 'examples' | 'notes' | 'tags' | 'source'>;
+
+// Editable text for every field; examples are one per line and tags comma separated
+type FormFields = Record<'word' | 'pos' | 'replacement' | 'translation' | 'examples' | 'notes' | 'tags' | 'source', string>;
+
+// --- Word Editor ---
+
+type WordEditFormProps = {
+  initial: WordFields;
+  submitLabel: string;
+  onSubmit: (fields: WordFields) => void;
+  onCancel: () => void;
+};
+
+export const WordEditForm = ({ initial, submitLabel, onSubmit, onCancel }: WordEditFormProps) => {
+  const [fields, setFields] = useState<FormFields>({
+    word: initial.word,
+    pos: initial.pos,
+    replacement: initial.replacement,
+    translation: initial.translation,
+    examples: (initial.examples || []).join('\n'),
+    notes: initial.notes || '',
+    tags: (initial.tags || []).join(', '),
+    source: initial.source || '',
+  });
+
+  const set = (key: keyof FormFields) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setFields(prev => ({ ...prev, [key]: e.target.value }));
+
+  const inputClass = 'w-full px-3 py-1.5 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!fields.word.trim()) return;
+        onSubmit({
+          word: fields.word.trim(),
+          pos: fields.pos.trim(),
+          replacement: fields.replacement.trim(),
+          translation: fields.translation.trim(),
+          examples: fields.examples.split('\n').map(e => e.trim()).filter(Boolean),
+          notes: fields.notes.trim() || undefined,
+          tags: parseTags(fields.tags),
+          source: fields.source.trim() || undefined,
+        });
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+      className="flex flex-col gap-2"
+    >
+      <div className="flex gap-2">
+        <input autoFocus value={fields.word} onChange={set('word')} placeholder="Word" className={`${inputClass} font-bold`} />
+        <input value={fields.pos} onChange={set('pos')} placeholder="pos" className={`${inputClass} w-20 italic`} />
+      </div>
+      <input value={fields.translation} onChange={set('translation')} placeholder="Translation" className={inputClass} />
+      <input value={fields.replacement} onChange={set('replacement')} placeholder="Synonyms" className={inputClass} />
+      <textarea value={fields.examples} onChange={set('examples')} placeholder="Example sentences, one per line" rows={2} className={`${inputClass} resize-y`} />
+      <textarea value={fields.notes} onChange={set('notes')} placeholder="Notes" rows={2} className={`${inputClass} resize-y`} />
+      <div className="flex gap-2">
+        <input value={fields.tags} onChange={set('tags')} placeholder="Tags (comma separated)" className={inputClass} />
+        <input value={fields.source} onChange={set('source')} placeholder="Source" className={inputClass} />
+      </div>
+      <div className="flex justify-end gap-2 mt-1">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!fields.word.trim()}
+          className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+        >
+          <Check className="w-4 h-4" />
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// --- Word Card ---
+
+type WordCardProps = {
+  word: WordItem;
+  sheetLabel?: string; // Owning sheet, shown when the grid mixes several sheets
+  scheduleLabel: string;
+  isPlaying: boolean;
+  isPlayDisabled: boolean;
+  otherSheets: DaySheet[]; // Targets for move/copy
+  draggable: boolean;
+  isDropTarget: boolean;
+  tabIndex: number; // Roving tab stop: only the keyboard-focused card is 0
+  relatedWords: WordLocation[]; // Same word family elsewhere in the library
+  wordParts: WordParts | null;
+  onFocus: () => void;
+  onTagClick: (tag: string) => void; // Shows every word with the tag
+  onRelatedClick: (location: WordLocation) => void; // Opens the related word's sheet
+  onToggleLearned: () => void;
+  onPlay: () => void;
+  onSave: (fields: WordFields) => void;
+  onDelete: () => void;
+  onTransfer: (targetSheetId: string, mode: 'move' | 'copy') => void;
+  onDragStart: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+};
+
+const WordCard = ({
+  word,
+  sheetLabel,
+  scheduleLabel,
+  isPlaying,
+  isPlayDisabled,
+  otherSheets,
+  draggable,
+  isDropTarget,
+  tabIndex,
+  relatedWords,
+  wordParts,
+  onFocus,
+  onTagClick,
+  onRelatedClick,
+  onToggleLearned,
+  onPlay,
+  onSave,
+  onDelete,
+  onTransfer,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+}: WordCardProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isPartsOpen, setIsPartsOpen] = useState(false);
+
+  const studiedRelatives = relatedWords.filter(location => isStudied(location.word));
+  const hasParts = wordParts !== null && (wordParts.prefixes.length > 0 || wordParts.suffixes.length > 0 || wordParts.classicalRoots.length > 0);
+
+  const relatedChip = (location: WordLocation) => (
+    <button
+      key={location.word.id}
+      onClick={() => onRelatedClick(location)}
+      className={`px-2 py-0.5 rounded-full ${isStudied(location.word)
+        ? 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100'
+        : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+      title={`Open in ${location.sheetName}`}
+    >
+      {location.word.word}
+    </button>
+  );
+
+  return (
+    <div
+      id={`word-card-${word.id}`}
+      data-word-id={word.id}
+      role="article"
+      aria-label={`${word.word}${word.learned ? ', learned' : ''}`}
+      tabIndex={tabIndex}
+      onFocus={onFocus}
+      draggable={draggable && !isEditing}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', word.id);
+        onDragStart();
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        onDragOver();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      onDragEnd={onDragEnd}
+      className={`
+        relative bg-white rounded-2xl p-5 border transition-all duration-300 group flex flex-col
+        focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400 focus-visible:ring-offset-2
+        ${isPlaying ? 'ring-2 ring-indigo-500 shadow-xl scale-[1.02] z-10' : ''}
+        ${isDropTarget ? 'outline-dashed outline-2 outline-offset-2 outline-indigo-300' : ''}
+        ${word.learned
+          ? 'border-green-200 bg-green-50/30'
+          : 'border-gray-200 hover:border-indigo-300 hover:shadow-lg'
+        }
+      `}
+    >
+      {isEditing ? (
+        <WordEditForm
+          initial={word}
+          submitLabel="Save"
+          onSubmit={(fields) => {
+            onSave(fields);
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <>
+          {sheetLabel && (
+            <span className="text-[10px] font-bold text-amber-500 uppercase tracking-widest mb-1">
+              {sheetLabel}
+            </span>
+          )}
+          <div className="flex justify-between items-start mb-1">
+             <div className="flex items-baseline gap-2 min-w-0">
+               {draggable && (
+                 <GripVertical className="w-4 h-4 text-gray-300 cursor-grab self-center -ml-2 flex-shrink-0 md:opacity-0 md:group-hover:opacity-100" />
+               )}
+               <h2 className={`text-2xl font-bold tracking-tight break-words ${word.learned ? 'text-green-800' : 'text-slate-800'}`}>
+                 {word.word}
+               </h2>
+               {word.pos && (
+                 <span className="text-sm italic font-serif text-gray-400">
+                   {word.pos}
+                 </span>
+               )}
+             </div>
+             <div className="flex items-center flex-shrink-0 ml-2">
+               <div className="relative">
+                 <button
+                   onClick={() => setIsMenuOpen(open => !open)}
+                   className="p-1.5 rounded-full text-gray-300 hover:text-gray-600 hover:bg-gray-100 md:opacity-0 md:group-hover:opacity-100 md:group-focus-within:opacity-100 transition-opacity"
+                   title="More actions"
+                   aria-label={`More actions for ${word.word}`}
+                   aria-haspopup="true"
+                   aria-expanded={isMenuOpen}
+                 >
+                   <MoreVertical className="w-5 h-5" />
+                 </button>
+                 {isMenuOpen && (
+                   <>
+                     {/* Click-away layer */}
+                     <div className="fixed inset-0 z-10" onClick={() => setIsMenuOpen(false)} />
+                     <div
+                       className="absolute right-0 top-9 z-20 w-52 bg-white rounded-xl shadow-xl ring-1 ring-gray-200 p-2 text-sm"
+                       onKeyDown={(e) => {
+                         if (e.key === 'Escape') setIsMenuOpen(false);
+                       }}
+                     >
+                       <button
+                         onClick={() => {
+                           setIsEditing(true);
+                           setIsMenuOpen(false);
+                         }}
+                         className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-gray-700 hover:bg-gray-100"
+                       >
+                         <Pencil className="w-4 h-4" />
+                         Edit
+                       </button>
+                       {otherSheets.length > 0 && (['move', 'copy'] as const).map(mode => (
+                         <select
+                           key={mode}
+                           value=""
+                           onChange={(e) => {
+                             if (e.target.value) onTransfer(e.target.value, mode);
+                             setIsMenuOpen(false);
+                           }}
+                           className="w-full px-2 py-2 my-0.5 rounded-lg text-gray-700 bg-white hover:bg-gray-100 cursor-pointer"
+                         >
+                           <option value="">{mode === 'move' ? 'Move to…' : 'Copy to…'}</option>
+                           {otherSheets.map(sheet => (
+                             <option key={sheet.id} value={sheet.id}>{sheet.name}</option>
+                           ))}
+                         </select>
+                       ))}
+                       <button
+                         onClick={() => {
+                           setIsMenuOpen(false);
+                           onDelete();
+                         }}
+                         className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-red-600 hover:bg-red-50"
+                       >
+                         <Trash2 className="w-4 h-4" />
+                         Delete
+                       </button>
+                     </div>
+                   </>
+                 )}
+               </div>
+               <button
+                onClick={onToggleLearned}
+                aria-label={`Learned: ${word.word}`}
+                aria-pressed={word.learned}
+                title={word.learned ? 'Mark as not learned (L)' : 'Mark as learned (L)'}
+                className={`
+                  p-1.5 rounded-full transition-colors
+                  ${word.learned
+                    ? 'text-green-600 bg-green-100 hover:bg-green-200'
+                    : 'text-gray-300 hover:text-green-500 hover:bg-green-50'
+                  }
+                `}
+               >
+                 {word.learned ? <CheckCircle2 className="w-6 h-6" /> : <Circle className="w-6 h-6" />}
+               </button>
+             </div>
+          </div>
+
+          {word.translation && (
+            <div className="flex items-center gap-2 mb-3">
+              <Languages className="w-3 h-3 text-indigo-400" />
+              <p className={`text-sm font-medium ${word.learned ? 'text-green-700' : 'text-slate-600'}`}>
+                {word.translation}
+              </p>
+            </div>
+          )}
+
+          {word.examples && word.examples.length > 0 && (
+            <ul className="mb-3 space-y-1">
+              {word.examples.map((example, idx) => (
+                <li key={idx} className="text-sm text-slate-500 italic leading-snug">“{example}”</li>
+              ))}
+            </ul>
+          )}
+
+          {word.collocations && word.collocations.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mb-3">
+              {word.collocations.map(collocation => (
+                <span key={collocation} className="text-xs px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600">
+                  {collocation}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {word.notes && (
+            <div className="flex gap-2 mb-3 text-sm text-slate-600 bg-amber-50/60 rounded-lg px-3 py-2 border border-amber-100">
+              <StickyNote className="w-3.5 h-3.5 text-amber-400 flex-shrink-0 mt-0.5" />
+              <p className="whitespace-pre-line leading-snug">{word.notes}</p>
+            </div>
+          )}
+
+          {(word.tags?.length || word.source) && (
+            <div className="flex flex-wrap items-center gap-1.5 mb-3 text-xs">
+              {word.tags?.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => onTagClick(tag)}
+                  className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600"
+                  title={`Show all words tagged ${tag}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+              {word.source && (
+                <span className="flex items-center gap-1 text-gray-400" title="Source">
+                  <BookMarked className="w-3 h-3" />
+                  {word.source}
+                </span>
+              )}
+            </div>
+          )}
+
+          {studiedRelatives.length > 0 && (
+            <div className="mb-3">
+              <span className="flex items-center gap-1 text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">
+                <Link2 className="w-3 h-3" />
+                Related words you've studied
+              </span>
+              <div className="flex flex-wrap gap-1.5 text-xs">
+                {studiedRelatives.map(relatedChip)}
+              </div>
+            </div>
+          )}
+
+          {(hasParts || relatedWords.length > 0) && (
+            <div className="mb-3">
+              <button
+                onClick={() => setIsPartsOpen(open => !open)}
+                className="flex items-center gap-1 text-xs font-medium text-gray-400 hover:text-indigo-600"
+                aria-expanded={isPartsOpen}
+              >
+                <Puzzle className="w-3 h-3" />
+                Word parts & family
+                <ChevronDown className={`w-3 h-3 transition-transform ${isPartsOpen ? 'rotate-180' : ''}`} />
+              </button>
+              {isPartsOpen && (
+                <div className="mt-2 space-y-2 text-xs text-slate-600 bg-indigo-50/40 rounded-lg px-3 py-2 border border-indigo-100">
+                  {wordParts && hasParts && (
+                    <>
+                      <div className="flex flex-wrap items-center gap-1 text-sm">
+                        {wordParts.prefixes.map(prefix => (
+                          <span key={prefix.form} className="px-1.5 rounded bg-sky-100 text-sky-700">{prefix.form}-</span>
+                        ))}
+                        <span className="px-1.5 rounded bg-white font-semibold text-slate-800 ring-1 ring-indigo-100">{wordParts.root}</span>
+                        {wordParts.suffixes.map((suffix, idx) => (
+                          <span key={idx} className="px-1.5 rounded bg-violet-100 text-violet-700">-{suffix.form}</span>
+                        ))}
+                      </div>
+                      <ul className="space-y-0.5">
+                        {wordParts.prefixes.map(prefix => (
+                          <li key={prefix.form}><strong>{prefix.form}-</strong> {prefix.meaning}</li>
+                        ))}
+                        {wordParts.classicalRoots.map(root => (
+                          <li key={root.form}><strong>{root.form}</strong> {root.meaning} <span className="text-gray-400">({root.origin})</span></li>
+                        ))}
+                        {wordParts.suffixes.map((suffix, idx) => (
+                          <li key={idx}>
+                            <strong>-{suffix.form}</strong> {suffix.meaning}
+                            {suffix.pos && <span className="italic font-serif text-gray-400"> {suffix.pos}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                  {relatedWords.length > 0 && (
+                    <div>
+                      <span className="block text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1">Word family in your library</span>
+                      <div className="flex flex-wrap gap-1.5">
+                        {relatedWords.map(relatedChip)}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {word.replacement && (
+            <div className="mt-auto bg-gray-50/80 rounded-lg p-3 border border-gray-100">
+              <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest block mb-1">Synonyms</span>
+              <p className="text-sm text-slate-500 leading-snug">
+                {word.replacement}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-4 pt-3 border-t border-gray-50 flex items-center justify-between">
+             <span className="text-xs font-medium text-gray-400 uppercase tracking-wider">
+              {scheduleLabel}
+            </span>
+
+            <button
+              onClick={onPlay}
+              disabled={isPlayDisabled}
+              aria-label={`Listen to ${word.word}`}
+              className={`
+                flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-all
+                ${isPlaying
+                  ? 'bg-indigo-100 text-indigo-600'
+                  : 'bg-white border border-gray-200 text-gray-600 hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-100'
+                }
+              `}
+            >
+              {isPlaying ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span>Playing...</span>
+                </>
+              ) : (
+                <>
+                  <Volume2 className="w-4 h-4" />
+                  <span>Listen</span>
+                </>
+              )}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WordCard;
@@ -0,0 +1,287 @@
+import React, { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Printer, Dices } from 'lucide-react';
+import type { DaySheet } from '../types';
+import {
+  WORKSHEET_LAYOUTS,
+  buildWorksheet,
+  createWorksheetSeed,
+  type Worksheet,
+  type WorksheetLayout
+} from '../services/worksheets';
+import { useDialogFocus } from './useDialogFocus';
+
+type PrintPart = 'both' | 'worksheet' | 'key';
+
+type WorksheetModalProps = {
+  sheets: DaySheet[];
+  initialSheetId: string;
+  onClose: () => void;
+};
+
+// --- Printable Document ---
+// Styled by the .worksheet rules in index.css, which are shared by the preview and the printout
+
+const WorksheetPages = ({ worksheet, part }: { worksheet: Worksheet; part: PrintPart }) => {
+  const { layout, rows } = worksheet;
+  const isQuiz = layout === 'blank-translation' || layout === 'blank-word';
+  const showWorksheet = part !== 'key' || !worksheet.hasAnswerKey;
+  const showKey = part !== 'worksheet' && worksheet.hasAnswerKey;
+
+  const header = (subtitle: string, withFields: boolean) => (
+    <header className="worksheet-header">
+      <div>
+        <h1>{worksheet.title}</h1>
+        <p>{subtitle}</p>
+      </div>
+      {withFields && (
+        <div className="worksheet-fields">
+          <span>Name</span>
+          <span>Date</span>
+          <span>Score&nbsp;&nbsp;&nbsp;&nbsp;/ {rows.length}</span>
+        </div>
+      )}
+    </header>
+  );
+  const footer = <footer className="worksheet-footer">Sheet code {worksheet.seed} · {rows.length} words · VocabMaster</footer>;
+
+  return (
+    <>
+      {showWorksheet && (
+        <section className="worksheet">
+          {header(worksheet.subtitle, isQuiz)}
+          <table className={`worksheet-table worksheet-${layout}`}>
+            <thead>
+              {layout === 'list' && (
+                <tr><th>#</th><th>Word</th><th>Meaning</th><th>Synonyms</th></tr>
+              )}
+              {layout === 'blank-translation' && (
+                <tr><th>#</th><th>Word</th><th>Meaning</th></tr>
+              )}
+              {layout === 'blank-word' && (
+                <tr><th>#</th><th>Meaning</th><th>Word</th></tr>
+              )}
+              {layout === 'fold' && (
+                <tr><th>#</th><th>Word</th><th className="worksheet-fold">Meaning <small>fold back along this line</small></th></tr>
+              )}
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.word.id}>
+                  <td className="worksheet-number">{row.number}</td>
+                  {layout === 'list' ? (
+                    <>
+                      <td>
+                        <strong>{row.word.word}</strong> {row.hint && <em>{row.hint}</em>}
+                        {row.word.examples?.[0] && <div className="worksheet-example">{row.word.examples[0]}</div>}
+                      </td>
+                      <td>{row.word.translation}</td>
+                      <td>{row.word.replacement}</td>
+                    </>
+                  ) : (
+                    <>
+                      <td>{row.prompt} {row.hint && <em>{row.hint}</em>}</td>
+                      {layout === 'fold'
+                        ? <td className="worksheet-fold">{row.answer}</td>
+                        : <td className="worksheet-blank" />}
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {footer}
+        </section>
+      )}
+
+      {/* The key always starts on a page of its own, so it can be kept apart from the handout */}
+      {showKey && (
+        <section className={`worksheet ${showWorksheet ? 'worksheet-page-break' : ''}`}>
+          {header(`Answer key · ${worksheet.subtitle}`, false)}
+          <table className="worksheet-table worksheet-key">
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.word.id}>
+                  <td className="worksheet-number">{row.number}</td>
+                  <td>{row.prompt}</td>
+                  <td><strong>{row.answer}</strong></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {footer}
+        </section>
+      )}
+    </>
+  );
+};
+
+// --- Dialog ---
+
+const WorksheetModal = ({ sheets, initialSheetId, onClose }: WorksheetModalProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+  const [sheetId, setSheetId] = useState(initialSheetId);
+  const [layout, setLayout] = useState<WorksheetLayout>('blank-translation');
+  const [seed, setSeed] = useState(createWorksheetSeed);
+  const [shuffled, setShuffled] = useState(true);
+  const [part, setPart] = useState<PrintPart>('both');
+
+  const sheet = sheets.find(s => s.id === sheetId) || sheets[0];
+  const worksheet = buildWorksheet(sheet, { layout, seed, shuffled });
+
+  // The document title becomes the suggested file name when printing to PDF
+  const print = () => {
+    const title = document.title;
+    document.title = `${worksheet.title} - ${worksheet.subtitle} (${worksheet.seed})`;
+    window.print();
+    document.title = title;
+  };
+
+  const labelClass = 'text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 block';
+  const inputClass = 'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="worksheet-title"
+        tabIndex={-1}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl overflow-hidden flex flex-col max-h-[90vh] focus:outline-none"
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 id="worksheet-title" className="flex items-center gap-2 font-bold text-lg text-slate-800">
+              <Printer className="w-5 h-5 text-indigo-500" />
+              Print Worksheet
+            </h3>
+            <p className="text-xs text-gray-400">To get a PDF, print and choose “Save as PDF” as the printer</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row min-h-0 flex-1">
+          {/* Options */}
+          <div className="md:w-72 flex-shrink-0 p-6 space-y-5 overflow-y-auto border-b md:border-b-0 md:border-r border-gray-100">
+            <label className="block">
+              <span className={labelClass}>Day</span>
+              <select value={sheet.id} onChange={(e) => setSheetId(e.target.value)} className={inputClass} data-autofocus>
+                {sheets.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+            </label>
+
+            <fieldset>
+              <legend className={labelClass}>Layout</legend>
+              <div className="space-y-2">
+                {WORKSHEET_LAYOUTS.map(option => (
+                  <label
+                    key={option.id}
+                    className={`flex gap-3 rounded-lg p-2.5 cursor-pointer ring-1 ${layout === option.id ? 'ring-indigo-300 bg-indigo-50' : 'ring-gray-200 hover:bg-gray-50'}`}
+                  >
+                    <input
+                      type="radio"
+                      name="worksheet-layout"
+                      checked={layout === option.id}
+                      onChange={() => setLayout(option.id)}
+                      className="mt-0.5 accent-indigo-600"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-slate-700">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div>
+              <label className="flex items-center gap-3 text-sm font-medium text-slate-700 mb-3">
+                <input
+                  type="checkbox"
+                  checked={shuffled}
+                  onChange={(e) => setShuffled(e.target.checked)}
+                  className="w-4 h-4 accent-indigo-600"
+                />
+                Shuffle the order
+              </label>
+              <span className={labelClass}>Sheet code</span>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={seed}
+                  disabled={!shuffled}
+                  onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+                  aria-label="Sheet code"
+                  className={`${inputClass} disabled:bg-gray-50 disabled:text-gray-400`}
+                />
+                <button
+                  onClick={() => setSeed(createWorksheetSeed())}
+                  disabled={!shuffled}
+                  className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg disabled:opacity-50"
+                  title="New order"
+                  aria-label="Shuffle into a new order"
+                >
+                  <Dices className="w-5 h-5" />
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-400">The code is printed on the sheet; enter it again to reprint the same order.</p>
+            </div>
+
+            {worksheet.hasAnswerKey && (
+              <label className="block">
+                <span className={labelClass}>Print</span>
+                <select value={part} onChange={(e) => setPart(e.target.value as PrintPart)} className={inputClass}>
+                  <option value="both">Worksheet and answer key</option>
+                  <option value="worksheet">Worksheet only</option>
+                  <option value="key">Answer key only</option>
+                </select>
+              </label>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 overflow-y-auto bg-gray-100 p-6">
+            {worksheet.rows.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-12">
+                {sheet.words.length === 0 ? 'This day has no words yet.' : 'None of the words has a translation to ask for.'}
+              </p>
+            ) : (
+              <div className="worksheet-preview">
+                <WorksheetPages worksheet={worksheet} part={part} />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium">
+            Close
+          </button>
+          <button
+            onClick={print}
+            disabled={worksheet.rows.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200 disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4" />
+            Print
+          </button>
+        </div>
+      </div>
+
+      {/* What actually gets printed: rendered outside the app, which is hidden on paper */}
+      {createPortal(
+        <div className="print-document">
+          <WorksheetPages worksheet={worksheet} part={part} />
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default WorksheetModal;
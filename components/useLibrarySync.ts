@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import type { DaySheet } from '../types';
+import type { SyncStore } from '../services/storage';
+import {
+  EMPTY_SYNC_DOCUMENT,
+  createHttpSyncClient,
+  documentToSheets,
+  isSyncDocument,
+  mergeDocuments,
+  stampChanges,
+  type SyncDocument,
+  type SyncSettings
+} from '../services/sync';
+
+// Local edits are pushed shortly after they stop, and other devices' edits are pulled this often
+const PUSH_DELAY_MS = 3000;
+const PULL_INTERVAL_MS = 60 * 1000;
+
+export type SyncStatus = {
+  state: 'off' | 'idle' | 'syncing' | 'error';
+  lastSyncedAt: number | null;
+  error: string | null;
+};
+
+type LibrarySyncOptions = {
+  sheets: DaySheet[];
+  canSync: boolean; // The library has loaded and may be written
+  settings: SyncSettings;
+  store: SyncStore;
+  onRemoteChange: (sheets: DaySheet[]) => void; // Another device changed the library
+};
+
+// Keeps this device's sync document stamped with every local edit and exchanges it with the sync
+// server in the background. Edits made while a request is out are kept and merged on return.
+export const useLibrarySync = ({ sheets, canSync, settings, store, onRemoteChange }: LibrarySyncOptions) => {
+  const [status, setStatus] = useState<SyncStatus>({ state: 'off', lastSyncedAt: null, error: null });
+  const isEnabled = canSync && settings.enabled && Boolean(settings.serverUrl && settings.libraryId);
+
+  const docRef = useRef<SyncDocument | null>(null);
+  const sheetsRef = useRef(sheets);
+  sheetsRef.current = sheets;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  onRemoteChangeRef.current = onRemoteChange;
+  const inFlightRef = useRef(false);
+  const isQueuedRef = useRef(false);
+  const pushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const syncNow = async () => {
+    const doc = docRef.current;
+    if (!doc) return;
+    if (inFlightRef.current) {
+      isQueuedRef.current = true;
+      return;
+    }
+    inFlightRef.current = true;
+    setStatus(prev => ({ ...prev, state: 'syncing' }));
+    try {
+      const remote = await createHttpSyncClient(settingsRef.current).sync(doc);
+      const merged = mergeDocuments(docRef.current || doc, remote);
+      docRef.current = merged;
+      store.save(merged);
+      // Only touch the library when the merge changed something it shows
+      const { deviceId } = settingsRef.current;
+      if (stampChanges(merged, sheetsRef.current, deviceId) !== merged) {
+        onRemoteChangeRef.current(documentToSheets(merged));
+      }
+      setStatus({ state: 'idle', lastSyncedAt: Date.now(), error: null });
+    } catch (e) {
+      console.error("Sync failed:", e);
+      setStatus(prev => ({ ...prev, state: 'error', error: (e as Error).message }));
+    } finally {
+      inFlightRef.current = false;
+      if (isQueuedRef.current) {
+        isQueuedRef.current = false;
+        syncNow();
+      }
+    }
+  };
+
+  const schedulePush = () => {
+    if (pushTimerRef.current) clearTimeout(pushTimerRef.current);
+    pushTimerRef.current = setTimeout(syncNow, PUSH_DELAY_MS);
+  };
+
+  // Load this device's sync history, then catch up with the server
+  useEffect(() => {
+    if (!isEnabled) {
+      setStatus(prev => ({ ...prev, state: 'off' }));
+      return;
+    }
+    let isCancelled = false;
+    store.load()
+      .catch(e => {
+        console.error("Failed to load sync state:", e);
+        return null;
+      })
+      .then(saved => {
+        if (isCancelled) return;
+        const doc = isSyncDocument(saved) ? saved : EMPTY_SYNC_DOCUMENT;
+        docRef.current = stampChanges(doc, sheetsRef.current, settingsRef.current.deviceId);
+        if (docRef.current !== doc) store.save(docRef.current);
+        syncNow();
+      });
+    return () => {
+      isCancelled = true;
+      docRef.current = null;
+    };
+  }, [isEnabled, settings.serverUrl, settings.libraryId, settings.token]);
+
+  // Stamp local edits as they happen, so the time of the edit (not of the next sync) decides conflicts
+  useEffect(() => {
+    const doc = docRef.current;
+    if (!isEnabled || !doc) return;
+    const next = stampChanges(doc, sheets, settings.deviceId);
+    if (next === doc) return;
+    docRef.current = next;
+    store.save(next);
+    schedulePush();
+  }, [sheets]);
+
+  // Pull regularly, and straight away when the device comes back online or the tab is shown again
+  useEffect(() => {
+    if (!isEnabled) return;
+    const pull = () => {
+      if (navigator.onLine && document.visibilityState === 'visible') syncNow();
+    };
+    const interval = setInterval(pull, PULL_INTERVAL_MS);
+    window.addEventListener('online', pull);
+    document.addEventListener('visibilitychange', pull);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', pull);
+      document.removeEventListener('visibilitychange', pull);
+      if (pushTimerRef.current) clearTimeout(pushTimerRef.current);
+    };
+  }, [isEnabled]);
+
+  return { status, syncNow };
+};
@@ -1,5 +1,11 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
+import '@fontsource/inter/latin-300.css';
+import '@fontsource/inter/latin-400.css';
+import '@fontsource/inter/latin-500.css';
+import '@fontsource/inter/latin-600.css';
+import '@fontsource/inter/latin-700.css';
+import './index.css';
 import { 
   BookOpen, 
   CheckCircle2, 
@@ -15,25 +21,133 @@ import {
   Trash2,
   Play,
   Square,
-  PauseCircle
+  PauseCircle,
+  CalendarClock,
+  Layers,
+  PenLine,
+  HardDriveDownload,
+  Pencil,
+  Plus,
+  Sparkles,
+  PlayCircle,
+  SkipBack,
+  SkipForward,
+  SlidersHorizontal,
+  RotateCcw,
+  BarChart3,
+  Search,
+  Copy,
+  ListChecks,
+  Keyboard,
+  Mic,
+  Filter,
+  Folder,
+  FolderInput,
+  ChevronDown,
+  Cloud,
+  Share2,
+  Printer
 } from 'lucide-react';
-
-// --- Types ---
-
-type WordItem = {
-  id: string;
-  word: string;
-  pos: string; // Part of speech (e.g., n., adj.)
-  replacement: string; // Synonyms
-  translation: string; // Chinese meaning
-  learned: boolean;
-};
-
-type DaySheet = {
-  id: string;
-  name: string;
-  words: WordItem[];
-};
+import type { DaySheet, Grade, StudyEvent, StudyMode, WordItem } from './types';
+import {
+  createSrsState,
+  describeSchedule,
+  getDailyCounts,
+  getTodayQueue,
+  reviewWord,
+  todayKey
+} from './services/srs';
+import { speakText } from './services/speech';
+import {
+  createEventLog,
+  createLibraryStore,
+  createProgressStore,
+  createSyncStore,
+  deleteProfileData
+} from './services/storage';
+import { createWordItem } from './services/importers';
+import { applyEnrichment, createDefaultClient, type EnrichmentResult } from './services/enrichment';
+import {
+  createSequencePlayer,
+  findResumeIndex,
+  loadPlaybackPositions,
+  loadPlaybackSettings,
+  savePlaybackPositions,
+  savePlaybackSettings,
+  type PlaybackPositions,
+  type PlaybackSettings,
+  type PlayerState,
+  type SequencePlayer
+} from './services/player';
+import { createMediaSessionBridge } from './services/mediaSession';
+import {
+  findDuplicateGroups,
+  mergeDuplicateGroups,
+  mergeWordFields,
+  type ImportMerge,
+  type WordLocation
+} from './services/duplicates';
+import { buildWordFamilies } from './services/morphology';
+import { formatPlanDate, getPlanReviews, isPlanned, reschedulePlans } from './services/plan';
+import {
+  DEFAULT_SEARCH_FILTERS,
+  getFolders,
+  getPartsOfSpeech,
+  getTags,
+  searchLibrary,
+  type SearchFilters
+} from './services/search';
+import { getFailedWordIds } from './services/stats';
+import { createSmartDeck, loadSmartDecks, saveSmartDecks, type SmartDeck } from './services/decks';
+import { loadSyncSettings, saveSyncSettings, type SyncSettings } from './services/sync';
+import {
+  applySharedList,
+  findSharedCopy,
+  hasShareLink,
+  markShared,
+  parseSharedList,
+  readShareLink,
+  sheetFromSharedList,
+  type SharedList
+} from './services/share';
+import type { SpellingResult } from './services/spelling';
+import { createWebSpeechRecognizer, type PronunciationResult } from './services/pronunciation';
+import { getGridColumns, isEditableTarget, moveInGrid } from './services/shortcuts';
+import { saveReloadSnapshot, takeReloadSnapshot, type ReloadSnapshot } from './services/pwa';
+import {
+  DEFAULT_PROFILE_ID,
+  applyProgress,
+  createProfile,
+  createProgressExport,
+  extractProgress,
+  loadProfiles,
+  saveProfiles,
+  stripProgress,
+  type ProfileList
+} from './services/profiles';
+import { downloadText, toFileName } from './services/backup';
+import FlashcardSession from './components/FlashcardSession';
+import DictationSession from './components/DictationSession';
+import ImportModal from './components/ImportModal';
+import BackupModal from './components/BackupModal';
+import WordCard, { WordEditForm, type WordFields } from './components/WordCard';
+import UndoToast from './components/UndoToast';
+import EnrichModal from './components/EnrichModal';
+import PlaybackSettingsModal from './components/PlaybackSettingsModal';
+import StatsDashboard from './components/StatsDashboard';
+import SearchFilterBar from './components/SearchFilterBar';
+import DuplicatesModal from './components/DuplicatesModal';
+import ExerciseSession from './components/ExerciseSession';
+import PronunciationSession from './components/PronunciationSession';
+import ShortcutsHelp from './components/ShortcutsHelp';
+import UpdatePrompt from './components/UpdatePrompt';
+import SyncModal from './components/SyncModal';
+import ShareModal from './components/ShareModal';
+import SharePreviewModal from './components/SharePreviewModal';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ProfilesModal from './components/ProfilesModal';
+import WorksheetModal from './components/WorksheetModal';
+import { useLibrarySync } from './components/useLibrarySync';
 
 // --- Initial Mock Data ---
 
@@ -48,7 +162,8 @@ const INITIAL_DATA: DaySheet[] = [
         pos: 'n.', 
         replacement: 'elasticity, recovery, flexibility', 
         translation: '弹性；恢复力', 
-        learned: false 
+        learned: false,
+        srs: createSrsState()
       },
       { 
         id: 'd1-2', 
@@ -56,7 +171,8 @@ const INITIAL_DATA: DaySheet[] = [
         pos: 'adj.', 
         replacement: 'inactive, desk-bound, motionless', 
         translation: '久坐不动的；缺乏活动的', 
-        learned: false 
+        learned: false,
+        srs: createSrsState()
       },
       { 
         id: 'd1-3', 
@@ -64,71 +180,357 @@ const INITIAL_DATA: DaySheet[] = [
         pos: 'n.', 
         replacement: 'long life, life span, durability', 
         translation: '长寿；寿命', 
-        learned: false 
+        learned: false,
+        srs: createSrsState()
       },
     ]
   }
 ];
 
+// The library is shared by all profiles; progress, study events and sync state are per profile
+const libraryStore = createLibraryStore();
+const createProfileStores = (profileId: string) => ({
+  progressStore: createProgressStore(profileId),
+  eventLog: createEventLog(profileId),
+  syncStore: createSyncStore(profileId),
+});
+const enrichmentClient = createDefaultClient();
+const speechRecognizer = createWebSpeechRecognizer();
+// Set when this page load is the reload that activated a new app version
+const reloadSnapshot = takeReloadSnapshot();
+
 // --- Components ---
 
-const App = () => {
-  // Initialize state from localStorage if available, otherwise use INITIAL_DATA
-  const [sheets, setSheets] = useState<DaySheet[]>(() => {
-    try {
-      const savedData = localStorage.getItem('vocab_master_sheets');
-      return savedData ? JSON.parse(savedData) : INITIAL_DATA;
-    } catch (e) {
-      console.error("Failed to load data from localStorage:", e);
-      return INITIAL_DATA;
-    }
-  });
+type AppProps = {
+  profileList: ProfileList;
+  onProfileListChange: (list: ProfileList) => void;
+  snapshot: ReloadSnapshot | null; // Where to pick up after an app update
+};
 
-  const [activeSheetIndex, setActiveSheetIndex] = useState(0);
+// Mounted once per profile (keyed by its id), so switching profiles starts from a clean state
+const App = ({ profileList, onProfileListChange, snapshot }: AppProps) => {
+  const profile = profileList.profiles.find(p => p.id === profileList.activeId) || profileList.profiles[0];
+  const [{ progressStore, eventLog, syncStore }] = useState(() => createProfileStores(profile.id));
+
+  // The library is loaded asynchronously from the storage layer (IndexedDB or localStorage)
+  const [sheets, setSheets] = useState<DaySheet[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [activeSheetIndex, setActiveSheetIndex] = useState(snapshot?.activeSheetIndex ?? 0);
+  const [view, setView] = useState<'sheet' | 'due' | 'search' | 'deck'>(snapshot?.view ?? 'sheet');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(snapshot?.searchFilters ?? DEFAULT_SEARCH_FILTERS);
+  const [smartDecks, setSmartDecks] = useState<SmartDeck[]>(() => loadSmartDecks(profile.id));
+  const [activeDeckId, setActiveDeckId] = useState<string | null>(snapshot?.activeDeckId ?? null);
+  const [collapsedFolders, setCollapsedFolders] = useState<string[]>([]);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
-  const [importText, setImportText] = useState('');
+  const [showFlashcards, setShowFlashcards] = useState(false);
+  const [showDictation, setShowDictation] = useState(false);
+  const [showExercises, setShowExercises] = useState(false);
+  const [showPronunciation, setShowPronunciation] = useState(false);
+  const [showBackupModal, setShowBackupModal] = useState(false);
+  const [showEnrichModal, setShowEnrichModal] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showSyncModal, setShowSyncModal] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
+  const [showProfilesModal, setShowProfilesModal] = useState(false);
+  const [showWorksheetModal, setShowWorksheetModal] = useState(false);
+  // Shared list opened from a link or file, waiting in the preview
+  const [incomingShare, setIncomingShare] = useState<{ list: SharedList | null; error: string | null } | null>(null);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(() => loadSyncSettings(profile.id));
+
+  // Keyboard navigation: the word card that holds the grid's tab stop
+  const [focusedWordId, setFocusedWordId] = useState<string | null>(null);
+  // Card to scroll to and focus once it is on screen (after opening a related word's sheet)
+  const [revealWordId, setRevealWordId] = useState<string | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // Editing State
+  const [isRenamingSheet, setIsRenamingSheet] = useState(false); // Also renames the open deck
+  const [isEditingFolder, setIsEditingFolder] = useState(false);
+  const [isAddingWord, setIsAddingWord] = useState(false);
+  const [draggedWordId, setDraggedWordId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null); // Word id or sheet id under the cursor
+  // Snapshot taken before the last destructive change, offered back through the undo toast
+  const [undoState, setUndoState] = useState<{ message: string; sheets: DaySheet[]; activeSheetIndex: number } | null>(null);
   
   // Audio State
   const [playingWordId, setPlayingWordId] = useState<string | null>(null);
-  const [isPlayingSequence, setIsPlayingSequence] = useState(false);
-  
-  // Refs for audio control
-  const isPlayingSequenceRef = useRef(false);
+  const [playerState, setPlayerState] = useState<PlayerState>('idle');
+  const [playbackSettings, setPlaybackSettings] = useState<PlaybackSettings>(() => loadPlaybackSettings(profile.id));
+  const [showPlaybackSettings, setShowPlaybackSettings] = useState(false);
+  const isPlayingSequence = playerState !== 'idle';
+
+  // Study Events: the open study session collects the words it touched
+  const sessionRef = useRef<{ mode: StudyMode; startedAt: number; words: Set<string> } | null>(null);
+
+  const recordEvent = (event: StudyEvent) => {
+    eventLog.record(event);
+    if (sessionRef.current && 'wordId' in event) sessionRef.current.words.add(event.wordId);
+  };
+
+  const beginSession = (mode: StudyMode) => {
+    sessionRef.current = { mode, startedAt: Date.now(), words: new Set() };
+  };
+
+  // Sessions where nothing was studied are not logged
+  const endSession = () => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (!session || session.words.size === 0) return;
+    recordEvent({
+      type: 'session',
+      at: session.startedAt,
+      mode: session.mode,
+      durationMs: Date.now() - session.startedAt,
+      words: session.words.size,
+    });
+  };
+
+  const [playbackPositions, setPlaybackPositions] = useState<PlaybackPositions>(() => loadPlaybackPositions(profile.id));
+
+  // Playlist the sequence was started from; it keeps playing if the user switches sheets
+  const playlistRef = useRef({ key: '', name: '' });
+
+  const rememberPosition = (key: string, wordId: string | null) => {
+    setPlaybackPositions(prev => {
+      const next = { ...prev };
+      if (wordId) next[key] = wordId;
+      else delete next[key];
+      savePlaybackPositions(next, profile.id);
+      return next;
+    });
+  };
+
+  // Sequence player for Play All, created once; it reports the current word back into state
+  // and mirrors it to the Media Session so lock-screen and headset controls work.
+  const playerRef = useRef<SequencePlayer | null>(null);
+  if (!playerRef.current) {
+    const media = createMediaSessionBridge({
+      play: () => playerRef.current?.resume(),
+      pause: () => playerRef.current?.pause(),
+      next: () => playerRef.current?.next(),
+      previous: () => playerRef.current?.previous(),
+      stop: () => playerRef.current?.stop(),
+    });
+    playerRef.current = createSequencePlayer({
+      onStateChange: (state) => {
+        setPlayerState(state);
+        media.setState(state);
+        // A listening session spans from Play All until the sequence stops (pauses included)
+        if (state === 'playing' && sessionRef.current?.mode !== 'listening') beginSession('listening');
+        if (state === 'idle' && sessionRef.current?.mode === 'listening') endSession();
+      },
+      onWordChange: (word) => {
+        setPlayingWordId(word ? word.id : null);
+        media.setWord(word, playlistRef.current.name);
+        if (word) {
+          recordEvent({ type: 'listen', at: Date.now(), wordId: word.id });
+          rememberPosition(playlistRef.current.key, word.id);
+          // Scroll card into view (no-op when the word is not on screen)
+          document.getElementById(`word-card-${word.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+      },
+      // Finished the list: the next Play All starts from the top again
+      onComplete: () => rememberPosition(playlistRef.current.key, null),
+    });
+  }
+  const player = playerRef.current;
 
-  // Persist sheets to localStorage whenever they change
+  // Load the saved library once, falling back to the demo data on first run, and lay the
+  // profile's progress over it
   useEffect(() => {
-    try {
-      localStorage.setItem('vocab_master_sheets', JSON.stringify(sheets));
-    } catch (e) {
-      console.error("Failed to save data to localStorage:", e);
-    }
-  }, [sheets]);
+    // The library waits for the study events (which never reject) so searches for failed words see them
+    Promise.all([libraryStore.load(), progressStore.load(), eventLog.load()])
+      .then(([saved, progress]) => {
+        const library = saved ?? INITIAL_DATA;
+        if (progress) setSheets(applyProgress(library, progress));
+        // A library saved before profiles existed still holds the first profile's progress
+        else setSheets(profile.id === DEFAULT_PROFILE_ID ? library : stripProgress(library));
+      })
+      .catch(e => {
+        console.error("Failed to load library:", e);
+        setLoadError((e as Error).message);
+        setSheets(INITIAL_DATA);
+      })
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  // Persist sheets whenever they change (the stores debounce writes): the lists without progress
+  // for everybody, the progress for this profile.
+  // Saving stays off after a failed load so unreadable data is never overwritten.
+  useEffect(() => {
+    if (!isLoaded || loadError) return;
+    libraryStore.save(stripProgress(sheets));
+    progressStore.save(extractProgress(sheets));
+  }, [sheets, isLoaded, loadError]);
+
+  // Move study plan days that were missed up to today (also when the app stays open past midnight)
+  const today = todayKey();
+  useEffect(() => {
+    if (!isLoaded) return;
+    const rescheduled = reschedulePlans(sheets, profile.id, today);
+    if (rescheduled) setSheets(rescheduled);
+  }, [sheets, today, isLoaded]);
+
+  // Keep the player and saved settings in sync with the settings panel
+  useEffect(() => {
+    player.setSettings(playbackSettings);
+    savePlaybackSettings(playbackSettings, profile.id);
+  }, [playbackSettings]);
+
+  useEffect(() => {
+    saveSmartDecks(smartDecks, profile.id);
+  }, [smartDecks]);
+
+  useEffect(() => {
+    saveSyncSettings(syncSettings, profile.id);
+  }, [syncSettings]);
+
+  // Multi-device sync (off until set up in the Sync dialog)
+  const { status: syncStatus, syncNow } = useLibrarySync({
+    sheets,
+    canSync: isLoaded && !loadError,
+    settings: syncSettings,
+    store: syncStore,
+    onRemoteChange: (synced) => {
+      setSheets(synced);
+      setActiveSheetIndex(index => Math.min(index, Math.max(0, synced.length - 1)));
+    },
+  });
 
   // Cleanup speech synthesis on unmount
   useEffect(() => {
     return () => {
+      player.stop();
       window.speechSynthesis.cancel();
     };
   }, []);
 
   // Stats
   const activeSheet = sheets[activeSheetIndex];
-  const totalWords = activeSheet?.words.length || 0;
-  const learnedWords = activeSheet?.words.filter(w => w.learned).length || 0;
-  const progress = totalWords === 0 ? 0 : Math.round((learnedWords / totalWords) * 100);
+  const todayQueue = getTodayQueue(sheets, today);
+  const { due: dueCount, reviewed: reviewedCount } = getDailyCounts(sheets, today);
+  const dailyTotal = dueCount + reviewedCount;
+  const progress = dailyTotal === 0 ? 0 : Math.round((reviewedCount / dailyTotal) * 100);
+
+  // Words matching a search or smart deck; failure history is only read when a filter asks for it.
+  // The sidebar counts every deck on each render and pinyin matching is slow on big libraries, so
+  // results are only recomputed when the words, the study events or the filters change.
+  // (The event log hands out a new list whenever an event is recorded.)
+  const events = eventLog.getEvents();
+  const findWords = (filters: SearchFilters) => searchLibrary(
+    sheets,
+    filters,
+    filters.failedWithinDays > 0 ? getFailedWordIds(events, filters.failedWithinDays, today) : undefined
+  );
+  const deckHits = useMemo(
+    () => new Map(smartDecks.map(deck => [deck.id, findWords(deck.filters)])),
+    [sheets, events, today, smartDecks]
+  );
+  const searchResults = useMemo(
+    () => (view === 'search' ? findWords(searchFilters) : []),
+    [sheets, events, today, searchFilters, view]
+  );
 
-  // Toggle Learned Status
+  // Words shown in the grid: the active sheet (plus its plan reviews), today's queue, or search
+  // or smart deck results across all sheets
+  const activeDeck = view === 'deck' ? smartDecks.find(deck => deck.id === activeDeckId) : undefined;
+  const searchHits = view === 'search' ? searchResults : activeDeck ? deckHits.get(activeDeck.id) || [] : [];
+  const planReviews = view === 'sheet' && activeSheet ? getPlanReviews(sheets, activeSheet) : [];
+  const visibleWords: WordItem[] = view === 'due'
+    ? todayQueue.map(item => item.word)
+    : view === 'search' || view === 'deck'
+      ? searchHits.map(hit => hit.word)
+      : [...(activeSheet?.words || []), ...planReviews.map(review => review.word)];
+  const planReviewIds = new Set(planReviews.map(review => review.word.id));
+  const wordLocations = new Map(sheets.flatMap(sheet =>
+    sheet.words.map(word => [word.id, { word, sheetId: sheet.id, sheetName: sheet.name }] as const)));
+  const todaySheetId = sheets.find(sheet => isPlanned(sheet) && sheet.date === today)?.id;
+  const viewTitle = view === 'due'
+    ? 'Due Today'
+    : view === 'search'
+      ? (searchFilters.query.trim() ? `Search: “${searchFilters.query.trim()}”` : 'All Words')
+      : view === 'deck'
+        ? activeDeck?.name || ''
+        : activeSheet?.name || '';
+  const allTags = getTags(sheets);
+  const folders = getFolders(sheets);
+  // Sidebar groups: days outside any folder first, then each folder
+  const sheetGroups = [
+    { folder: '', entries: sheets.map((sheet, idx) => ({ sheet, idx })).filter(({ sheet }) => !sheet.folder) },
+    ...folders.map(folder => ({
+      folder,
+      entries: sheets.map((sheet, idx) => ({ sheet, idx })).filter(({ sheet }) => sheet.folder === folder),
+    })),
+  ];
+  const mistakeIds = sheets.flatMap(sheet => sheet.mistakes || []);
+  const tabStopId = visibleWords.some(w => w.id === focusedWordId) ? focusedWordId : visibleWords[0]?.id;
+  // Indexing the whole library takes a moment on big libraries; buildWordFamilies hands back the
+  // previous index while the words' text is unchanged, so reviews and other progress reuse it
+  const libraryWords = useMemo(() => sheets.flatMap(sheet => sheet.words), [sheets]);
+  const wordFamilies = useMemo(() => buildWordFamilies(libraryWords), [libraryWords]);
+  // Announced to screen readers while Play All runs
+  const playingWord = isPlayingSequence && playingWordId
+    ? sheets.flatMap(sheet => sheet.words).find(w => w.id === playingWordId)
+    : undefined;
+
+  // Play All list for the current view, and where listening stopped last time
+  const playlistKey = view === 'sheet' ? activeSheet?.id || '' : view === 'deck' ? activeDeckId || '' : view;
+  const playQueue = playbackSettings.unlearnedOnly ? visibleWords.filter(w => !w.learned) : visibleWords;
+  const resumeIndex = findResumeIndex(playQueue, playbackPositions[playlistKey]);
+
+  // Apply an update to a word wherever it lives in the library
+  const updateWord = (wordId: string, updater: (word: WordItem) => WordItem) => {
+    setSheets(prevSheets => prevSheets.map(sheet =>
+      sheet.words.some(w => w.id === wordId)
+        ? { ...sheet, words: sheet.words.map(w => w.id === wordId ? updater(w) : w) }
+        : sheet
+    ));
+  };
+
+  // Toggle Learned Status: ticking counts as a 'good' review, unticking as 'again'
   const toggleLearned = (wordId: string) => {
-    setSheets(prevSheets => {
-      const newSheets = [...prevSheets];
-      const sheet = newSheets[activeSheetIndex];
-      const wordIndex = sheet.words.findIndex(w => w.id === wordId);
-      if (wordIndex !== -1) {
-        sheet.words[wordIndex].learned = !sheet.words[wordIndex].learned;
-      }
-      return newSheets;
-    });
+    const word = sheets.flatMap(sheet => sheet.words).find(w => w.id === wordId);
+    if (!word) return;
+    gradeWord(wordId, word.learned ? 'again' : 'good');
+  };
+
+  // Record a self-graded review from a study session
+  const gradeWord = (wordId: string, grade: Grade) => {
+    updateWord(wordId, w => reviewWord(w, grade));
+    recordEvent({ type: 'review', at: Date.now(), wordId, grade });
+  };
+
+  // Track dictation mistakes on the sheet that owns the word; a passing retry clears it
+  const recordSpelling = (wordId: string, verdict: SpellingResult['verdict']) => {
+    recordEvent({ type: 'spelling', at: Date.now(), wordId, verdict });
+    setSheets(prevSheets => prevSheets.map(sheet => {
+      if (!sheet.words.some(w => w.id === wordId)) return sheet;
+      const mistakes = (sheet.mistakes || []).filter(id => id !== wordId);
+      return { ...sheet, mistakes: verdict === 'wrong' ? [...mistakes, wordId] : mistakes };
+    }));
+  };
+
+  const recordPronunciation = (wordId: string, verdict: PronunciationResult['verdict']) => {
+    recordEvent({ type: 'pronunciation', at: Date.now(), wordId, verdict });
+  };
+
+  // Apply a destructive change while keeping the previous library around for undo
+  const commitWithUndo = (message: string, nextSheets: DaySheet[], nextActiveIndex = activeSheetIndex) => {
+    setUndoState({ message, sheets, activeSheetIndex });
+    setSheets(nextSheets);
+    setActiveSheetIndex(nextActiveIndex);
+  };
+
+  const handleUndo = () => {
+    if (!undoState) return;
+    setSheets(undoState.sheets);
+    setActiveSheetIndex(undoState.activeSheetIndex);
+    setUndoState(null);
   };
 
   // Delete Sheet
@@ -139,143 +541,384 @@ const App = () => {
     const sheetToDelete = sheets.find(s => s.id === sheetId);
     if (!sheetToDelete) return;
 
-    if (window.confirm(`Are you sure you want to delete "${sheetToDelete.name}"?`)) {
-      const newSheets = sheets.filter(s => s.id !== sheetId);
-      setSheets(newSheets);
-
-      // Adjust active index
-      if (newSheets.length === 0) {
-        setActiveSheetIndex(0);
-      } else if (index === activeSheetIndex) {
-        // If deleting the active one, go to the previous one or 0
-        setActiveSheetIndex(Math.max(0, index - 1));
-      } else if (index < activeSheetIndex) {
-        // If deleting one before the active one, shift index down
-        setActiveSheetIndex(activeSheetIndex - 1);
-      }
+    const newSheets = sheets.filter(s => s.id !== sheetId);
+
+    // Adjust active index
+    let nextActiveIndex = activeSheetIndex;
+    if (newSheets.length === 0) {
+      nextActiveIndex = 0;
+    } else if (index === activeSheetIndex) {
+      // If deleting the active one, go to the previous one or 0
+      nextActiveIndex = Math.max(0, index - 1);
+    } else if (index < activeSheetIndex) {
+      // If deleting one before the active one, shift index down
+      nextActiveIndex = activeSheetIndex - 1;
     }
+
+    commitWithUndo(`Deleted "${sheetToDelete.name}"`, newSheets, nextActiveIndex);
+  };
+
+  const selectSheet = (index: number) => {
+    setActiveSheetIndex(index);
+    setView('sheet');
+    setIsRenamingSheet(false);
+    setIsEditingFolder(false);
+    setIsAddingWord(false);
+  };
+
+  // Rename Sheet
+  const renameSheet = (sheetId: string, name: string) => {
+    if (!name.trim()) return;
+    setSheets(prevSheets => prevSheets.map(s => s.id === sheetId ? { ...s, name: name.trim() } : s));
+  };
+
+  // File a sheet under a folder; an empty name takes it out of its folder
+  const setSheetFolder = (sheetId: string, folder: string) => {
+    setSheets(prevSheets => prevSheets.map(s => s.id === sheetId ? { ...s, folder: folder.trim() || undefined } : s));
+  };
+
+  const toggleFolder = (folder: string) => {
+    setCollapsedFolders(prev => prev.includes(folder) ? prev.filter(f => f !== folder) : [...prev, folder]);
+  };
+
+  // --- Smart Decks ---
+
+  const selectDeck = (deckId: string) => {
+    setActiveDeckId(deckId);
+    setView('deck');
+    setIsRenamingSheet(false);
+    setIsEditingFolder(false);
+    setIsAddingWord(false);
+  };
+
+  const saveSearchAsDeck = (name: string) => {
+    const deck = createSmartDeck(name, searchFilters);
+    setSmartDecks(prevDecks => [...prevDecks, deck]);
+    selectDeck(deck.id);
+  };
+
+  const updateDeck = (deckId: string, changes: Partial<Pick<SmartDeck, 'name' | 'filters'>>) => {
+    setSmartDecks(prevDecks => prevDecks.map(d => d.id === deckId ? { ...d, ...changes } : d));
+  };
+
+  // Deleting a deck leaves its words where they are
+  const deleteDeck = (deckId: string) => {
+    setSmartDecks(prevDecks => prevDecks.filter(d => d.id !== deckId));
+    if (view === 'deck' && activeDeckId === deckId) setView('sheet');
+  };
+
+  // Tag chips on cards open a search for everything with that tag
+  const showTag = (tag: string) => {
+    setSearchFilters({ ...DEFAULT_SEARCH_FILTERS, tag });
+    setView('search');
+  };
+
+  // Related-word chips on cards open the sheet the word is filed in
+  const showRelatedWord = (location: WordLocation) => {
+    const index = sheets.findIndex(sheet => sheet.id === location.sheetId);
+    if (index === -1) return;
+    selectSheet(index);
+    setFocusedWordId(location.word.id);
+    setRevealWordId(location.word.id);
+  };
+
+  useEffect(() => {
+    if (!revealWordId) return;
+    const card = document.getElementById(`word-card-${revealWordId}`);
+    card?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    card?.focus({ preventScroll: true });
+    setRevealWordId(null);
+  }, [revealWordId]);
+
+  // --- Word Editing ---
+
+  const saveWord = (wordId: string, fields: WordFields) => {
+    updateWord(wordId, w => ({ ...w, ...fields }));
+  };
+
+  const enrichWord = (wordId: string, result: EnrichmentResult) => {
+    updateWord(wordId, w => applyEnrichment(w, result));
+  };
+
+  const addWord = (fields: WordFields) => {
+    if (!activeSheet) return;
+    const word = createWordItem(`word-${Date.now()}`, fields);
+    setSheets(prevSheets => prevSheets.map(s => s.id === activeSheet.id ? { ...s, words: [...s.words, word] } : s));
+  };
+
+  // Remove a word from its sheet (and from that sheet's mistakes list)
+  const withoutWord = (sheet: DaySheet, wordId: string): DaySheet => ({
+    ...sheet,
+    words: sheet.words.filter(w => w.id !== wordId),
+    mistakes: sheet.mistakes?.filter(id => id !== wordId),
+  });
+
+  const deleteWord = (wordId: string) => {
+    const word = sheets.flatMap(s => s.words).find(w => w.id === wordId);
+    if (!word) return;
+    if (playingWordId === wordId) stopAudio();
+    commitWithUndo(`Deleted "${word.word}"`, sheets.map(s => withoutWord(s, wordId)));
+  };
+
+  // Move or copy a word to another sheet. Copies start with fresh progress.
+  const transferWord = (wordId: string, targetSheetId: string, mode: 'move' | 'copy') => {
+    const word = sheets.flatMap(s => s.words).find(w => w.id === wordId);
+    const target = sheets.find(s => s.id === targetSheetId);
+    if (!word || !target || target.words.some(w => w.id === wordId)) return;
+
+    if (mode === 'copy') {
+      const copy = createWordItem(`${word.id}-copy-${Date.now()}`, word);
+      setSheets(prevSheets => prevSheets.map(s => s.id === targetSheetId ? { ...s, words: [...s.words, copy] } : s));
+      return;
+    }
+
+    commitWithUndo(
+      `Moved "${word.word}" to ${target.name}`,
+      sheets.map(s => s.id === targetSheetId ? { ...s, words: [...s.words, word] } : withoutWord(s, wordId))
+    );
+  };
+
+  // Drag-to-reorder within the active sheet: the dragged word takes the target's place
+  const reorderWord = (draggedId: string, targetId: string) => {
+    if (!activeSheet || draggedId === targetId) return;
+    const words = [...activeSheet.words];
+    const from = words.findIndex(w => w.id === draggedId);
+    const to = words.findIndex(w => w.id === targetId);
+    if (from === -1 || to === -1) return;
+    const [moved] = words.splice(from, 1);
+    words.splice(to, 0, moved);
+    setSheets(prevSheets => prevSheets.map(s => s.id === activeSheet.id ? { ...s, words } : s));
+  };
+
+  const endDrag = () => {
+    setDraggedWordId(null);
+    setDropTargetId(null);
   };
 
   // Stop Audio helper
   const stopAudio = () => {
-    // Cancel Web Speech API
+    // Stops the Play All sequence and cancels any Web Speech API utterance
+    player.stop();
     window.speechSynthesis.cancel();
-    
+
     setPlayingWordId(null);
-    isPlayingSequenceRef.current = false;
-    setIsPlayingSequence(false);
   };
 
   // Play Single Word Audio (Returns promise for chaining)
-  const playWordAudio = async (wordItem: WordItem, isSequence = false): Promise<void> => {
-    // If manually playing, stop any existing sequence/audio
-    if (!isSequence) {
-      stopAudio();
-    }
+  const playWordAudio = async (wordItem: WordItem): Promise<void> => {
+    // Manual playback stops any existing sequence/audio
+    stopAudio();
 
     setPlayingWordId(wordItem.id);
+    recordEvent({ type: 'listen', at: Date.now(), wordId: wordItem.id });
 
-    return new Promise<void>((resolve) => {
-      // 1. Construct text to say
-      // Adding a pause logic or punctuation helps the browser speak clearly
-      const textToSay = `${wordItem.word}. ${wordItem.replacement || ''}`;
-      
-      // 2. Use Web Speech API
-      const utterance = new SpeechSynthesisUtterance(textToSay);
-      utterance.lang = 'en-US'; // Set language to English
-      utterance.rate = 0.85; // Slightly slower speed for better clarity
-      
-      // Handle playback end
-      utterance.onend = () => {
-        setPlayingWordId((currentId) => currentId === wordItem.id ? null : currentId);
-        resolve();
-      };
-
-      // Handle errors
-      utterance.onerror = (e) => {
-        console.error("Speech synthesis error", e);
-        setPlayingWordId((currentId) => currentId === wordItem.id ? null : currentId);
-        resolve(); // Resolve anyway to keep sequence moving
-      };
-
-      // Start playback
-      // Note: We don't strictly need to cancel inside the loop (sequence) because we await the previous one,
-      // but for manual clicks we did call stopAudio() above.
-      window.speechSynthesis.speak(utterance);
+    // Adding a pause logic or punctuation helps the browser speak clearly
+    const textToSay = `${wordItem.word}. ${wordItem.replacement || ''}`;
+
+    await speakText(textToSay, {
+      voiceURI: playbackSettings.voiceURI,
+      rate: playbackSettings.rate,
+      pitch: playbackSettings.pitch
     });
+    setPlayingWordId((currentId) => currentId === wordItem.id ? null : currentId);
   };
 
-  // Play All Handler
-  const handlePlayAll = async () => {
+  // Play All Handler: resumes where this list was left off, or stops the running sequence
+  const handlePlayAll = (fromStart = false) => {
     if (isPlayingSequence) {
       stopAudio();
       return;
     }
+    if (!playQueue.length) return;
 
-    if (!activeSheet?.words.length) return;
+    window.speechSynthesis.cancel();
+    playlistRef.current = { key: playlistKey, name: viewTitle };
+    player.start(playQueue, fromStart ? 0 : resumeIndex);
+  };
 
-    setIsPlayingSequence(true);
-    isPlayingSequenceRef.current = true;
+  // Import Handler: unnamed sheets continue the "Day N" numbering
+  const handleImport = (imported: DaySheet[], merges: ImportMerge[]) => {
+    // Duplicates the user chose to merge update the existing words in place
+    merges.forEach(({ targetId, incoming }) => updateWord(targetId, w => mergeWordFields(w, incoming)));
+    setShowImportModal(false);
+    if (imported.length === 0) return;
+
+    const newSheets = imported.map((sheet, idx) => ({
+      ...sheet,
+      name: sheet.name || `Day ${sheets.length + idx + 1}`
+    }));
+
+    setSheets(prevSheets => [...prevSheets, ...newSheets]);
+    // A new study plan opens on today's day when it has one
+    const todayIndex = newSheets.findIndex(sheet => sheet.date === today);
+    setActiveSheetIndex(sheets.length + Math.max(0, todayIndex));
+    setView('sheet');
+  };
+
+  // Collapse duplicate words across the library, keeping the best progress of each group
+  const mergeDuplicates = (groups: WordLocation[][]) => {
+    if (groups.length === 0) return;
+    const removed = groups.reduce((sum, group) => sum + group.length - 1, 0);
+    commitWithUndo(`Merged ${removed} duplicate ${removed === 1 ? 'word' : 'words'}`, mergeDuplicateGroups(sheets, groups));
+    setShowDuplicates(false);
+  };
 
-    for (const word of activeSheet.words) {
-      if (!isPlayingSequenceRef.current) break;
+  // --- Keyboard Shortcuts ---
+  // Global keys are ignored while typing or while a dialog or session (which has its own keys) is open
 
-      // Scroll card into view
-      const card = document.getElementById(`word-card-${word.id}`);
-      if (card) {
-        card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  const isModalOpen = showImportModal || showFlashcards || showDictation || showExercises || showPronunciation || showBackupModal
+    || showEnrichModal || showStats || showDuplicates || showPlaybackSettings || showShortcuts || showSyncModal
+    || showShareModal || incomingShare !== null || showProfilesModal || showWorksheetModal;
+
+  const focusWordCard = (wordId: string) => document.getElementById(`word-card-${wordId}`)?.focus();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isModalOpen || e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+      const target = e.target instanceof HTMLElement ? e.target : null;
+      // Word under the keyboard focus: the card itself or one of its buttons
+      const cardWordId = target?.closest<HTMLElement>('[data-word-id]')?.dataset.wordId;
+
+      if (e.key === '/') {
+        e.preventDefault();
+        setIsSidebarOpen(true);
+        searchInputRef.current?.focus();
+        return;
+      }
+      if (e.key === '?') {
+        setShowShortcuts(true);
+        return;
+      }
+      if (e.key === '[' || e.key === ']') {
+        const next = view === 'sheet' ? activeSheetIndex + (e.key === ']' ? 1 : -1) : activeSheetIndex;
+        if (next >= 0 && next < sheets.length) selectSheet(next);
+        return;
       }
 
-      await playWordAudio(word, true);
+      // Arrow keys work from a card or when nothing else has focus
+      if (cardWordId || target === document.body) {
+        const index = visibleWords.findIndex(w => w.id === (cardWordId || tabStopId));
+        const next = moveInGrid(index, e.key, visibleWords.length, getGridColumns());
+        if (next !== null) {
+          e.preventDefault();
+          focusWordCard(visibleWords[cardWordId ? next : Math.max(0, index)].id);
+          return;
+        }
+      }
 
-      // Small pause between words for natural flow
-      if (isPlayingSequenceRef.current) {
-        await new Promise(r => setTimeout(r, 800));
+      const word = visibleWords.find(w => w.id === cardWordId);
+      if (!word) return;
+      if (e.key === 'l' || e.key === 'L') toggleLearned(word.id);
+      // Space on a button inside the card should still press that button
+      if (e.key === ' ' && target?.dataset.wordId) {
+        e.preventDefault();
+        playWordAudio(word);
       }
-    }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
-    setIsPlayingSequence(false);
-    isPlayingSequenceRef.current = false;
-    setPlayingWordId(null);
+  // App update: write pending changes now (saves are debounced) and remember where the user was
+  const prepareReload = async () => {
+    stopAudio();
+    endSession();
+    saveReloadSnapshot({ view, activeSheetIndex, activeDeckId, searchFilters });
+    await Promise.all([libraryStore.flush(), progressStore.flush(), eventLog.flush(), syncStore.flush()]);
   };
 
-  // Import Handler
-  const handleImport = () => {
-    if (!importText.trim()) return;
+  // --- Profiles ---
 
-    const lines = importText.trim().split('\n');
-    const parsedWords: WordItem[] = [];
-    
-    lines.forEach((line, idx) => {
-      const parts = line.split(/\t/);
-      
-      if (parts.length >= 1 && parts[0].trim()) {
-        parsedWords.push({
-          id: `imp-${Date.now()}-${idx}`,
-          word: parts[0].trim(),
-          pos: parts[1]?.trim() || '',
-          replacement: parts[2]?.trim() || '',
-          translation: parts[3]?.trim() || '',
-          learned: false
-        });
-      }
+  // Pending saves are written first and this profile's stores are disposed; the new profile's App
+  // then loads them back from storage
+  const switchProfile = async (profileId: string) => {
+    stopAudio();
+    endSession();
+    await Promise.all([libraryStore.flush(), progressStore.dispose(), eventLog.dispose(), syncStore.dispose()]);
+    onProfileListChange({ ...profileList, activeId: profileId });
+  };
+
+  const addProfile = (name: string) => {
+    const created = createProfile(name, profileList.profiles);
+    onProfileListChange({ ...profileList, profiles: [...profileList.profiles, created] });
+  };
+
+  const renameProfile = (profileId: string, name: string) => {
+    onProfileListChange({
+      ...profileList,
+      profiles: profileList.profiles.map(p => p.id === profileId ? { ...p, name } : p),
     });
+  };
 
-    if (parsedWords.length > 0) {
-      const nextDayNumber = sheets.length + 1;
-      const newSheet: DaySheet = {
-        id: `imported-day-${Date.now()}`,
-        name: `Day ${nextDayNumber}`,
-        words: parsedWords
-      };
-
-      setSheets([...sheets, newSheet]);
-      setActiveSheetIndex(sheets.length); 
-      setShowImportModal(false);
-      setImportText('');
-    } else {
-      alert("Could not parse data. Ensure format matches the example.");
+  const deleteProfile = async (profileId: string) => {
+    try {
+      await deleteProfileData(profileId);
+    } catch (e) {
+      console.error("Failed to delete profile data:", e);
+      return;
     }
+    onProfileListChange({ ...profileList, profiles: profileList.profiles.filter(p => p.id !== profileId) });
+  };
+
+  const exportProgress = () => {
+    downloadText(`vocabmaster-progress-${toFileName(profile.name)}-${today}.json`, createProgressExport(profile, sheets), 'application/json');
+  };
+
+  // --- Shared Lists ---
+
+  // Share links (#share=…) open a preview once the library has loaded
+  useEffect(() => {
+    if (!isLoaded) return;
+    const openShareLink = () => {
+      const { hash, pathname, search } = window.location;
+      if (!hasShareLink(hash)) return;
+      // Drop the list from the address bar so a reload doesn't offer it again
+      history.replaceState(null, '', pathname + search);
+      readShareLink(hash)
+        .then(list => setIncomingShare({ list, error: null }))
+        .catch(e => setIncomingShare({ list: null, error: (e as Error).message }));
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, [isLoaded]);
+
+  const openSharedFile = (text: string) => {
+    setShowImportModal(false);
+    try {
+      setIncomingShare({ list: parseSharedList(text), error: null });
+    } catch (e) {
+      setIncomingShare({ list: null, error: (e as Error).message });
+    }
+  };
+
+  const addSharedList = (list: SharedList) => {
+    setSheets(prevSheets => [...prevSheets, sheetFromSharedList(list)]);
+    setActiveSheetIndex(sheets.length);
+    setView('sheet');
+    setIncomingShare(null);
+  };
+
+  // Apply a newer version of a list to the copy already in the library
+  const updateSharedCopy = (copy: DaySheet, list: SharedList) => {
+    const index = sheets.findIndex(s => s.id === copy.id);
+    commitWithUndo(
+      `Updated "${copy.name}" to version ${list.version}`,
+      sheets.map(s => s.id === copy.id ? applySharedList(s, list) : s),
+      index
+    );
+    setView('sheet');
+    setIncomingShare(null);
+  };
+
+  // Restore Handler: the backup modal has already merged or replaced the library
+  // Replacing the library is the most destructive action there is, so it can be undone too. The
+  // dialog closes so the undo toast is not hidden behind it.
+  const handleRestore = (restored: DaySheet[], summary: string) => {
+    stopAudio();
+    commitWithUndo(summary, restored, 0);
+    setView('sheet');
+    setShowBackupModal(false);
   };
 
   return (
@@ -298,59 +941,270 @@ const App = () => {
           <div className="flex items-center gap-2 text-indigo-600">
             <BookOpen className="w-6 h-6" />
             <span className="font-bold text-xl tracking-tight">VocabMaster</span>
+            <ProfileSwitcher
+              profiles={profileList.profiles}
+              activeId={profile.id}
+              onSwitch={switchProfile}
+              onManage={() => {
+                setShowProfilesModal(true);
+                setIsSidebarOpen(false);
+              }}
+            />
           </div>
-          <button onClick={() => setIsSidebarOpen(false)} className="md:hidden text-gray-400">
+          <button onClick={() => setIsSidebarOpen(false)} className="md:hidden text-gray-400" aria-label="Close menu">
             <X className="w-6 h-6" />
           </button>
         </div>
 
         <div className="flex-1 overflow-y-auto p-4 space-y-2">
-          <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3 px-2">Daily Tasks</h3>
-          {sheets.map((sheet, idx) => (
-            <div
-              key={sheet.id}
-              className={`
-                w-full rounded-xl transition-all duration-200 flex items-center group
-                ${activeSheetIndex === idx 
-                  ? 'bg-indigo-50 text-indigo-700 shadow-sm ring-1 ring-indigo-200' 
-                  : 'text-gray-600 hover:bg-gray-100'
+          {/* Search (words, synonyms, translations; pinyin works for translations) */}
+          <div className="relative mb-4">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              ref={searchInputRef}
+              type="search"
+              aria-label="Search all words"
+              value={searchFilters.query}
+              onChange={(e) => {
+                setSearchFilters(prev => ({ ...prev, query: e.target.value }));
+                setView('search');
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  setView('search');
+                  setIsSidebarOpen(false);
                 }
-              `}
+                if (e.key === 'Escape') setSearchFilters(prev => ({ ...prev, query: '' }));
+              }}
+              placeholder="Search all words…"
+              className="w-full pl-9 pr-3 py-2.5 rounded-xl bg-gray-100 text-sm text-slate-700 placeholder-gray-400 focus:bg-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            />
+          </div>
+
+          <button
+            onClick={() => {
+              setView('due');
+              setIsSidebarOpen(false);
+            }}
+            className={`
+              w-full rounded-xl px-4 py-3 mb-4 transition-all duration-200 flex items-center justify-between
+              ${view === 'due'
+                ? 'bg-amber-50 text-amber-700 shadow-sm ring-1 ring-amber-200'
+                : 'text-gray-600 hover:bg-gray-100'
+              }
+            `}
+          >
+            <span className="flex items-center gap-2 font-medium">
+              <CalendarClock className="w-4 h-4" />
+              Due Today
+            </span>
+            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${dueCount > 0 ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-400'}`}>
+              {dueCount}
+            </span>
+          </button>
+
+          {/* Tools */}
+          <div className="-mt-2 mb-4">
+            <button
+              onClick={() => {
+                setShowStats(true);
+                setIsSidebarOpen(false);
+              }}
+              className="w-full rounded-xl px-4 py-2.5 transition-all duration-200 flex items-center gap-2 font-medium text-gray-600 hover:bg-gray-100"
             >
-              {/* Select Sheet Area */}
-              <div 
-                onClick={() => {
-                  setActiveSheetIndex(idx);
-                  setIsSidebarOpen(false);
-                }}
-                className="flex-1 px-4 py-3 cursor-pointer flex items-center justify-between overflow-hidden"
-              >
-                <div className="flex flex-col overflow-hidden">
-                  <span className="truncate font-medium">{sheet.name}</span>
-                  <span className="text-xs text-gray-400 font-normal mt-0.5">{sheet.words.length} words</span>
+              <BarChart3 className="w-4 h-4" />
+              Statistics
+            </button>
+            <button
+              onClick={() => {
+                setShowDuplicates(true);
+                setIsSidebarOpen(false);
+              }}
+              className="w-full rounded-xl px-4 py-2.5 transition-all duration-200 flex items-center gap-2 font-medium text-gray-600 hover:bg-gray-100"
+            >
+              <Copy className="w-4 h-4" />
+              Find Duplicates
+            </button>
+            <button
+              onClick={() => {
+                setShowShortcuts(true);
+                setIsSidebarOpen(false);
+              }}
+              className="w-full rounded-xl px-4 py-2.5 transition-all duration-200 flex items-center gap-2 font-medium text-gray-600 hover:bg-gray-100"
+            >
+              <Keyboard className="w-4 h-4" />
+              Keyboard Shortcuts
+            </button>
+            <button
+              onClick={() => {
+                setShowSyncModal(true);
+                setIsSidebarOpen(false);
+              }}
+              className="w-full rounded-xl px-4 py-2.5 transition-all duration-200 flex items-center gap-2 font-medium text-gray-600 hover:bg-gray-100"
+            >
+              <Cloud className="w-4 h-4" />
+              Sync Devices
+              {syncStatus.state !== 'off' && (
+                <span
+                  className={`ml-auto w-2 h-2 rounded-full ${
+                    syncStatus.state === 'error' ? 'bg-red-500' : syncStatus.state === 'syncing' ? 'bg-amber-400 animate-pulse' : 'bg-green-500'
+                  }`}
+                  title={syncStatus.state === 'error' ? `Sync failed: ${syncStatus.error}` : syncStatus.state === 'syncing' ? 'Syncing…' : 'Synced'}
+                />
+              )}
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between mb-3 px-2">
+            <h3 id="smart-decks-title" className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Smart Decks</h3>
+            <button
+              onClick={() => {
+                setView('search');
+                setIsSidebarOpen(false);
+              }}
+              className="p-1 text-gray-400 hover:text-indigo-600 rounded"
+              title="New deck: set up a search, then save it as a deck"
+              aria-label="New smart deck"
+            >
+              <Plus className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <nav aria-labelledby="smart-decks-title" className="space-y-2 mb-6">
+            {smartDecks.map(deck => {
+              const hits = deckHits.get(deck.id) || [];
+              const learned = hits.filter(hit => hit.word.learned).length;
+              const isActive = view === 'deck' && activeDeckId === deck.id;
+              return (
+                <div
+                  key={deck.id}
+                  className={`
+                    w-full rounded-xl transition-all duration-200 flex items-center group
+                    ${isActive ? 'bg-indigo-50 text-indigo-700 shadow-sm ring-1 ring-indigo-200' : 'text-gray-600 hover:bg-gray-100'}
+                  `}
+                >
+                  <button
+                    onClick={() => {
+                      selectDeck(deck.id);
+                      setIsSidebarOpen(false);
+                    }}
+                    aria-current={isActive ? 'page' : undefined}
+                    className="flex-1 px-4 py-3 text-left rounded-l-xl flex items-center gap-3 overflow-hidden focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400"
+                  >
+                    <Filter className="w-4 h-4 flex-shrink-0 opacity-60" />
+                    <div className="flex flex-col overflow-hidden">
+                      <span className="font-medium truncate">{deck.name}</span>
+                      <span className="text-xs text-gray-400 font-normal mt-0.5">
+                        {hits.length} words · {learned} learned
+                      </span>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => deleteDeck(deck.id)}
+                    className="p-3 rounded-r-xl text-gray-400 hover:text-red-500 hover:bg-red-50 transition-all flex-shrink-0 md:opacity-0 md:group-hover:opacity-100 md:focus-visible:opacity-100 opacity-100"
+                    title="Delete Deck"
+                    aria-label={`Delete ${deck.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
                 </div>
-                {activeSheetIndex === idx && (
-                  <ChevronRight className="w-4 h-4 opacity-50 flex-shrink-0 ml-2" />
+              );
+            })}
+            {smartDecks.length === 0 && (
+              <p className="px-2 text-xs text-gray-400">
+                Search or filter the library, then save it as a deck. Decks update as your words change.
+              </p>
+            )}
+          </nav>
+
+          <h3 id="daily-tasks-title" className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3 px-2">Daily Tasks</h3>
+          <nav aria-labelledby="daily-tasks-title" className="space-y-2">
+            {sheetGroups.map(({ folder, entries }) => (
+              <div key={folder || 'unfiled'} className="space-y-2">
+                {folder && (
+                  <button
+                    onClick={() => toggleFolder(folder)}
+                    aria-expanded={!collapsedFolders.includes(folder)}
+                    className="w-full flex items-center gap-2 px-2 pt-2 text-xs font-semibold text-gray-500 hover:text-gray-700"
+                  >
+                    <ChevronDown className={`w-3.5 h-3.5 transition-transform ${collapsedFolders.includes(folder) ? '-rotate-90' : ''}`} />
+                    <Folder className="w-3.5 h-3.5" />
+                    <span className="truncate">{folder}</span>
+                    <span className="ml-auto font-normal text-gray-400">
+                      {entries.reduce((sum, { sheet }) => sum + sheet.words.filter(w => w.learned).length, 0)}
+                      {' / '}
+                      {entries.reduce((sum, { sheet }) => sum + sheet.words.length, 0)}
+                    </span>
+                  </button>
                 )}
+                {!collapsedFolders.includes(folder) && entries.map(({ sheet, idx }) => (
+                  <div
+                    key={sheet.id}
+                    onDragOver={(e) => {
+                      if (!draggedWordId) return;
+                      e.preventDefault();
+                      setDropTargetId(sheet.id);
+                    }}
+                    onDragLeave={() => setDropTargetId(current => current === sheet.id ? null : current)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (draggedWordId) transferWord(draggedWordId, sheet.id, 'move');
+                      endDrag();
+                    }}
+                    className={`
+                      w-full rounded-xl transition-all duration-200 flex items-center group
+                      ${dropTargetId === sheet.id ? 'ring-2 ring-indigo-400 bg-indigo-50' : ''}
+                      ${view === 'sheet' && activeSheetIndex === idx 
+                        ? 'bg-indigo-50 text-indigo-700 shadow-sm ring-1 ring-indigo-200' 
+                        : 'text-gray-600 hover:bg-gray-100'
+                      }
+                    `}
+                  >
+                    {/* Select Sheet Area */}
+                    <button
+                      onClick={() => {
+                        selectSheet(idx);
+                        setIsSidebarOpen(false);
+                      }}
+                      aria-current={view === 'sheet' && activeSheetIndex === idx ? 'page' : undefined}
+                      className="flex-1 px-4 py-3 text-left rounded-l-xl flex items-center justify-between overflow-hidden focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400"
+                    >
+                      <div className="flex flex-col overflow-hidden">
+                        <span className="flex items-center gap-2 font-medium">
+                          <span className="truncate">{sheet.name}</span>
+                          {sheet.id === todaySheetId && (
+                            <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 flex-shrink-0">Today</span>
+                          )}
+                        </span>
+                        <span className="text-xs text-gray-400 font-normal mt-0.5">
+                          {sheet.words.length} words{sheet.date && ` · ${formatPlanDate(sheet.date, today)}`}
+                        </span>
+                      </div>
+                      {view === 'sheet' && activeSheetIndex === idx && (
+                        <ChevronRight className="w-4 h-4 opacity-50 flex-shrink-0 ml-2" />
+                      )}
+                    </button>
+                
+                    {/* Delete Button Area (Sibling) */}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation(); // Double safety
+                        deleteSheet(sheet.id, idx);
+                      }}
+                      className={`
+                        p-3 rounded-r-xl text-gray-400 hover:text-red-500 hover:bg-red-50 transition-all flex-shrink-0
+                        ${activeSheetIndex === idx ? 'hover:bg-red-100' : ''}
+                        md:opacity-0 md:group-hover:opacity-100 md:focus-visible:opacity-100 opacity-100
+                      `}
+                      title="Delete Day"
+                      aria-label={`Delete ${sheet.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
               </div>
-              
-              {/* Delete Button Area (Sibling) */}
-              <button
-                onClick={(e) => {
-                  e.stopPropagation(); // Double safety
-                  deleteSheet(sheet.id, idx);
-                }}
-                className={`
-                  p-3 rounded-r-xl text-gray-400 hover:text-red-500 hover:bg-red-50 transition-all flex-shrink-0
-                  ${activeSheetIndex === idx ? 'hover:bg-red-100' : ''}
-                  md:opacity-0 md:group-hover:opacity-100 opacity-100
-                `}
-                title="Delete Day"
-              >
-                <Trash2 className="w-4 h-4" />
-              </button>
-            </div>
-          ))}
+            ))}
+          </nav>
 
           {sheets.length === 0 && (
             <div className="text-center py-8 px-4 text-gray-400 text-sm">
@@ -368,12 +1222,28 @@ const App = () => {
             <Upload className="w-4 h-4" />
             <span>Import Sheet</span>
           </button>
+          <button
+            onClick={() => setShowBackupModal(true)}
+            className="w-full mt-2 flex items-center justify-center gap-2 px-4 py-2 text-sm text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            <HardDriveDownload className="w-4 h-4" />
+            <span>Backup &amp; Export</span>
+          </button>
         </div>
       </aside>
 
       {/* Main Content */}
       <main className="flex-1 flex flex-col h-full overflow-hidden relative">
-        {sheets.length === 0 ? (
+        {loadError && (
+          <div className="bg-red-50 text-red-700 text-sm px-4 sm:px-8 py-2 border-b border-red-100 shrink-0">
+            Your saved library could not be read ({loadError}). Changes made now will not be saved.
+          </div>
+        )}
+        {!isLoaded ? (
+          <div className="flex-1 flex items-center justify-center text-indigo-400">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </div>
+        ) : sheets.length === 0 ? (
            // Empty State
            <div className="flex-1 flex flex-col items-center justify-center text-center p-8">
               <div className="w-20 h-20 bg-indigo-50 rounded-full flex items-center justify-center mb-6">
@@ -398,18 +1268,210 @@ const App = () => {
                 <button 
                   onClick={() => setIsSidebarOpen(true)}
                   className="p-2 -ml-2 text-gray-600 hover:bg-gray-100 rounded-lg md:hidden"
+                  aria-label="Open menu"
                 >
                   <Menu className="w-6 h-6" />
                 </button>
-                <h1 className="text-xl font-bold text-slate-800 truncate max-w-[140px] sm:max-w-md">
-                  {activeSheet?.name}
-                </h1>
+                {isRenamingSheet && (activeDeck || (view === 'sheet' && activeSheet)) ? (
+                  <input
+                    autoFocus
+                    defaultValue={viewTitle}
+                    onBlur={(e) => {
+                      if (activeDeck) {
+                        if (e.target.value.trim()) updateDeck(activeDeck.id, { name: e.target.value.trim() });
+                      } else {
+                        renameSheet(activeSheet.id, e.target.value);
+                      }
+                      setIsRenamingSheet(false);
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setIsRenamingSheet(false);
+                    }}
+                    className="text-xl font-bold text-slate-800 px-2 py-1 -ml-2 border border-indigo-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none w-[140px] sm:w-80"
+                  />
+                ) : (
+                  <>
+                    <h1 className="text-xl font-bold text-slate-800 truncate max-w-[140px] sm:max-w-md">
+                      {viewTitle}
+                    </h1>
+                    {(view === 'sheet' || activeDeck) && (
+                      <button
+                        onClick={() => setIsRenamingSheet(true)}
+                        className="p-1.5 text-gray-300 hover:text-gray-600 hover:bg-gray-100 rounded-lg"
+                        title={activeDeck ? 'Rename Deck' : 'Rename Day'}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                    )}
+                    {/* Folder (type a new name to create one, clear it to take the day out) */}
+                    {view === 'sheet' && activeSheet && (isEditingFolder ? (
+                      <>
+                        <input
+                          autoFocus
+                          list="folder-options"
+                          defaultValue={activeSheet.folder || ''}
+                          onBlur={(e) => {
+                            setSheetFolder(activeSheet.id, e.target.value);
+                            setIsEditingFolder(false);
+                          }}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                            if (e.key === 'Escape') setIsEditingFolder(false);
+                          }}
+                          placeholder="Folder"
+                          aria-label="Folder"
+                          className="text-sm px-2 py-1 border border-indigo-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none w-28 sm:w-40"
+                        />
+                        <datalist id="folder-options">
+                          {folders.map(folder => <option key={folder} value={folder} />)}
+                        </datalist>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => setIsEditingFolder(true)}
+                        className="flex items-center gap-1 p-1.5 text-xs text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg"
+                        title="Move to folder"
+                      >
+                        {activeSheet.folder ? <Folder className="w-4 h-4" /> : <FolderInput className="w-4 h-4" />}
+                        {activeSheet.folder && <span className="truncate max-w-[8rem]">{activeSheet.folder}</span>}
+                      </button>
+                    ))}
+                    {view === 'sheet' && activeSheet && (
+                      <>
+                        <button
+                          onClick={() => setShowShareModal(true)}
+                          className="p-1.5 text-gray-300 hover:text-gray-600 hover:bg-gray-100 rounded-lg"
+                          title="Share Day"
+                          aria-label="Share day"
+                        >
+                          <Share2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setShowWorksheetModal(true)}
+                          className="p-1.5 text-gray-300 hover:text-gray-600 hover:bg-gray-100 rounded-lg"
+                          title="Print Worksheet"
+                          aria-label="Print worksheet"
+                        >
+                          <Printer className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </>
+                )}
               </div>
               
               <div className="flex items-center gap-3 sm:gap-6">
+                {/* Flashcards Button */}
+                <button
+                  onClick={() => {
+                    stopAudio();
+                    beginSession('flashcards');
+                    setShowFlashcards(true);
+                  }}
+                  disabled={visibleWords.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 rounded-full font-medium text-sm transition-all shadow-sm bg-white text-slate-700 ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Layers className="w-4 h-4" />
+                  <span className="hidden sm:inline">Study</span>
+                </button>
+
+                {/* Exercises Button */}
+                <button
+                  onClick={() => {
+                    stopAudio();
+                    beginSession('exercises');
+                    setShowExercises(true);
+                  }}
+                  disabled={visibleWords.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 rounded-full font-medium text-sm transition-all shadow-sm bg-white text-slate-700 ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ListChecks className="w-4 h-4" />
+                  <span className="hidden sm:inline">Exercises</span>
+                </button>
+
+                {/* Enrich Button */}
+                {view === 'sheet' && (
+                  <button
+                    onClick={() => setShowEnrichModal(true)}
+                    disabled={visibleWords.length === 0}
+                    className="flex items-center gap-2 px-4 py-2 rounded-full font-medium text-sm transition-all shadow-sm bg-white text-slate-700 ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Sparkles className="w-4 h-4" />
+                    <span className="hidden sm:inline">Enrich</span>
+                  </button>
+                )}
+
+                {/* Dictation Button */}
+                <button
+                  onClick={() => {
+                    stopAudio();
+                    beginSession('dictation');
+                    setShowDictation(true);
+                  }}
+                  disabled={visibleWords.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 rounded-full font-medium text-sm transition-all shadow-sm bg-white text-slate-700 ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <PenLine className="w-4 h-4" />
+                  <span className="hidden sm:inline">Dictation</span>
+                </button>
+
+                {/* Pronunciation Button */}
+                <button
+                  onClick={() => {
+                    stopAudio();
+                    beginSession('pronunciation');
+                    setShowPronunciation(true);
+                  }}
+                  disabled={visibleWords.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 rounded-full font-medium text-sm transition-all shadow-sm bg-white text-slate-700 ring-1 ring-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Mic className="w-4 h-4" />
+                  <span className="hidden sm:inline">Speak</span>
+                </button>
+
+                {/* Playback Controls (while a sequence is running) */}
+                {isPlayingSequence && (
+                  <div className="flex items-center gap-1 bg-indigo-50 ring-1 ring-indigo-200 rounded-full px-1 py-1">
+                    <button
+                      onClick={() => player.previous()}
+                      className="p-1.5 rounded-full text-indigo-600 hover:bg-indigo-100"
+                      title="Previous word"
+                    >
+                      <SkipBack className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => playerState === 'paused' ? player.resume() : player.pause()}
+                      className="p-1.5 rounded-full text-indigo-600 hover:bg-indigo-100"
+                      title={playerState === 'paused' ? 'Resume' : 'Pause'}
+                    >
+                      {playerState === 'paused' ? <PlayCircle className="w-5 h-5" /> : <PauseCircle className="w-5 h-5" />}
+                    </button>
+                    <button
+                      onClick={() => player.next()}
+                      className="p-1.5 rounded-full text-indigo-600 hover:bg-indigo-100"
+                      title="Next word"
+                    >
+                      <SkipForward className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+
+                {/* Start Over (when a previous session stopped part-way) */}
+                {!isPlayingSequence && resumeIndex > 0 && (
+                  <button
+                    onClick={() => handlePlayAll(true)}
+                    className="p-2 rounded-full text-gray-500 hover:text-indigo-600 hover:bg-indigo-50"
+                    title="Play from the first word"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                )}
+
                 {/* Play All Button */}
                 <button
-                  onClick={handlePlayAll}
+                  onClick={() => handlePlayAll()}
+                  title={!isPlayingSequence && resumeIndex > 0 ? `Resume at word ${resumeIndex + 1} of ${playQueue.length}` : undefined}
                   className={`
                     flex items-center gap-2 px-4 py-2 rounded-full font-medium text-sm transition-all shadow-sm
                     ${isPlayingSequence 
@@ -426,15 +1488,24 @@ const App = () => {
                   ) : (
                     <>
                       <Play className="w-4 h-4 fill-current" />
-                      <span className="hidden sm:inline">Play All</span>
+                      <span className="hidden sm:inline">{resumeIndex > 0 ? 'Resume' : 'Play All'}</span>
                     </>
                   )}
                 </button>
 
+                {/* Audio Settings Button */}
+                <button
+                  onClick={() => setShowPlaybackSettings(true)}
+                  className="p-2 -ml-2 sm:-ml-4 rounded-full text-gray-500 hover:text-indigo-600 hover:bg-indigo-50"
+                  title="Audio settings"
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                </button>
+
                  <div className="flex items-center gap-3">
                    <div className="hidden sm:flex flex-col items-end">
-                      <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Progress</span>
-                      <span className="text-sm font-bold text-indigo-600">{learnedWords} / {totalWords}</span>
+                      <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">Reviewed Today</span>
+                      <span className="text-sm font-bold text-indigo-600">{reviewedCount} / {dailyTotal}</span>
                    </div>
                    <div className="w-10 h-10 rounded-full bg-indigo-50 flex items-center justify-center text-indigo-600 border border-indigo-100 relative">
                       <Award className="w-5 h-5" />
@@ -462,99 +1533,110 @@ const App = () => {
 
             {/* Scrollable List */}
             <div className="flex-1 overflow-y-auto p-4 sm:p-8 bg-slate-50">
+              {view === 'search' && (
+                <SearchFilterBar
+                  filters={searchFilters}
+                  sheets={sheets}
+                  partsOfSpeech={getPartsOfSpeech(sheets)}
+                  tags={allTags}
+                  folders={folders}
+                  resultCount={searchHits.length}
+                  onChange={setSearchFilters}
+                  onSaveDeck={saveSearchAsDeck}
+                />
+              )}
+              {activeDeck && (
+                <SearchFilterBar
+                  filters={activeDeck.filters}
+                  sheets={sheets}
+                  partsOfSpeech={getPartsOfSpeech(sheets)}
+                  tags={allTags}
+                  folders={folders}
+                  resultCount={searchHits.length}
+                  onChange={(filters) => updateDeck(activeDeck.id, { filters })}
+                  showQuery
+                />
+              )}
               <div className="max-w-5xl mx-auto grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 pb-20">
-                {activeSheet?.words.map((word) => (
-                  <div 
+                {visibleWords.map((word) => (
+                  <WordCard
                     key={word.id}
-                    id={`word-card-${word.id}`}
-                    className={`
-                      relative bg-white rounded-2xl p-5 border transition-all duration-300 group flex flex-col
-                      ${playingWordId === word.id ? 'ring-2 ring-indigo-500 shadow-xl scale-[1.02] z-10' : ''}
-                      ${word.learned 
-                        ? 'border-green-200 bg-green-50/30' 
-                        : 'border-gray-200 hover:border-indigo-300 hover:shadow-lg'
-                      }
-                    `}
-                  >
-                    <div className="flex justify-between items-start mb-1">
-                       <div className="flex items-baseline gap-2">
-                         <h2 className={`text-2xl font-bold tracking-tight ${word.learned ? 'text-green-800' : 'text-slate-800'}`}>
-                           {word.word}
-                         </h2>
-                         {word.pos && (
-                           <span className="text-sm italic font-serif text-gray-400">
-                             {word.pos}
-                           </span>
-                         )}
-                       </div>
-                       <button
-                        onClick={() => toggleLearned(word.id)}
-                        className={`
-                          p-1.5 rounded-full transition-colors flex-shrink-0 ml-2
-                          ${word.learned 
-                            ? 'text-green-600 bg-green-100 hover:bg-green-200' 
-                            : 'text-gray-300 hover:text-green-500 hover:bg-green-50'
-                          }
-                        `}
-                       >
-                         {word.learned ? <CheckCircle2 className="w-6 h-6" /> : <Circle className="w-6 h-6" />}
-                       </button>
-                    </div>
-
-                    {word.translation && (
-                      <div className="flex items-center gap-2 mb-3">
-                        <Languages className="w-3 h-3 text-indigo-400" />
-                        <p className={`text-sm font-medium ${word.learned ? 'text-green-700' : 'text-slate-600'}`}>
-                          {word.translation}
-                        </p>
-                      </div>
-                    )}
-
-                    {word.replacement && (
-                      <div className="mt-auto bg-gray-50/80 rounded-lg p-3 border border-gray-100">
-                        <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest block mb-1">Synonyms</span>
-                        <p className="text-sm text-slate-500 leading-snug">
-                          {word.replacement}
-                        </p>
-                      </div>
-                    )}
+                    word={word}
+                    sheetLabel={
+                      view !== 'sheet'
+                        ? wordLocations.get(word.id)?.sheetName
+                        : planReviewIds.has(word.id) ? `Review · ${wordLocations.get(word.id)?.sheetName}` : undefined
+                    }
+                    scheduleLabel={describeSchedule(word, today)}
+                    isPlaying={playingWordId === word.id}
+                    isPlayDisabled={playingWordId !== null && playingWordId !== word.id && !isPlayingSequence}
+                    otherSheets={sheets.filter(s => !s.words.some(w => w.id === word.id))}
+                    draggable={view === 'sheet' && !planReviewIds.has(word.id)}
+                    isDropTarget={dropTargetId === word.id && draggedWordId !== word.id}
+                    tabIndex={word.id === tabStopId ? 0 : -1}
+                    relatedWords={wordFamilies.related(word.id).flatMap(id => wordLocations.get(id) ?? [])}
+                    wordParts={wordFamilies.parts(word.word)}
+                    onFocus={() => setFocusedWordId(word.id)}
+                    onTagClick={showTag}
+                    onRelatedClick={showRelatedWord}
+                    onToggleLearned={() => toggleLearned(word.id)}
+                    onPlay={() => playWordAudio(word)}
+                    onSave={(fields) => saveWord(word.id, fields)}
+                    onDelete={() => deleteWord(word.id)}
+                    onTransfer={(targetSheetId, mode) => transferWord(word.id, targetSheetId, mode)}
+                    onDragStart={() => setDraggedWordId(word.id)}
+                    onDragOver={() => setDropTargetId(word.id)}
+                    onDrop={() => {
+                      if (draggedWordId) reorderWord(draggedWordId, word.id);
+                      endDrag();
+                    }}
+                    onDragEnd={endDrag}
+                  />
+                ))}
 
-                    <div className="mt-4 pt-3 border-t border-gray-50 flex items-center justify-between">
-                       <span className="text-xs font-medium text-gray-400 uppercase tracking-wider">
-                        {word.learned ? 'Learned' : 'Study'}
-                      </span>
-                      
-                      <button 
-                        onClick={() => playWordAudio(word, false)}
-                        disabled={playingWordId !== null && playingWordId !== word.id && !isPlayingSequence}
-                        className={`
-                          flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-all
-                          ${playingWordId === word.id 
-                            ? 'bg-indigo-100 text-indigo-600' 
-                            : 'bg-white border border-gray-200 text-gray-600 hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-100'
-                          }
-                        `}
-                      >
-                        {playingWordId === word.id ? (
-                          <>
-                            <Loader2 className="w-4 h-4 animate-spin" />
-                            <span>Playing...</span>
-                          </>
-                        ) : (
-                          <>
-                            <Volume2 className="w-4 h-4" />
-                            <span>Listen</span>
-                          </>
-                        )}
-                      </button>
+                {/* Add Word */}
+                {view === 'sheet' && activeSheet && (
+                  isAddingWord ? (
+                    <div className="bg-white rounded-2xl p-5 border border-indigo-200 shadow-lg">
+                      <WordEditForm
+                        initial={{ word: '', pos: '', replacement: '', translation: '' }}
+                        submitLabel="Add"
+                        onSubmit={(fields) => {
+                          addWord(fields);
+                          setIsAddingWord(false);
+                        }}
+                        onCancel={() => setIsAddingWord(false)}
+                      />
                     </div>
-                  </div>
-                ))}
+                  ) : (
+                    <button
+                      onClick={() => setIsAddingWord(true)}
+                      className="rounded-2xl p-5 border-2 border-dashed border-gray-200 text-gray-400 hover:border-indigo-300 hover:text-indigo-500 transition-colors flex items-center justify-center gap-2 min-h-[120px]"
+                    >
+                      <Plus className="w-5 h-5" />
+                      <span className="font-medium">Add Word</span>
+                    </button>
+                  )
+                )}
                 
-                {activeSheet?.words.length === 0 && (
+                {visibleWords.length === 0 && view === 'due' && (
                   <div className="col-span-full flex flex-col items-center justify-center py-12 text-gray-400">
                      <BookOpen className="w-12 h-12 mb-4 opacity-20" />
-                     <p>No words found for this day.</p>
+                     <p>Nothing due today. Great job!</p>
+                  </div>
+                )}
+
+                {visibleWords.length === 0 && view === 'deck' && (
+                  <div className="col-span-full flex flex-col items-center justify-center py-12 text-gray-400">
+                     <Filter className="w-12 h-12 mb-4 opacity-20" />
+                     <p>{activeDeck ? 'No words match this deck yet.' : 'This deck was deleted.'}</p>
+                  </div>
+                )}
+
+                {visibleWords.length === 0 && view === 'search' && (
+                  <div className="col-span-full flex flex-col items-center justify-center py-12 text-gray-400">
+                     <Search className="w-12 h-12 mb-4 opacity-20" />
+                     <p>No words match your search.</p>
                   </div>
                 )}
               </div>
@@ -563,54 +1645,231 @@ const App = () => {
         )}
       </main>
 
+      {/* Play All announcements for screen readers */}
+      <div className="sr-only" aria-live="polite" aria-atomic="true">
+        {playingWord && `Now playing ${playingWord.word}${playingWord.translation ? `, ${playingWord.translation}` : ''}`}
+        {playerState === 'paused' && ', paused'}
+      </div>
+
+      {/* Undo Toast */}
+      {undoState && (
+        <UndoToast
+          message={undoState.message}
+          onUndo={handleUndo}
+          onDismiss={() => setUndoState(null)}
+        />
+      )}
+
+      {/* Flashcard Session */}
+      {showFlashcards && (
+        <FlashcardSession
+          title={viewTitle}
+          words={visibleWords}
+          onGrade={gradeWord}
+          onSpeak={(word) => playWordAudio(word)}
+          onClose={() => {
+            stopAudio();
+            endSession();
+            setShowFlashcards(false);
+          }}
+        />
+      )}
+
+      {/* Exercise Session */}
+      {showExercises && (
+        <ExerciseSession
+          title={viewTitle}
+          words={visibleWords}
+          pool={sheets.flatMap(sheet => sheet.words)}
+          onGrade={gradeWord}
+          onClose={() => {
+            endSession();
+            setShowExercises(false);
+          }}
+        />
+      )}
+
+      {/* Dictation Session */}
+      {showDictation && (
+        <DictationSession
+          title={viewTitle}
+          words={visibleWords}
+          mistakeIds={mistakeIds}
+          playbackSettings={playbackSettings}
+          onResult={recordSpelling}
+          onClose={() => {
+            endSession();
+            setShowDictation(false);
+          }}
+        />
+      )}
+
+      {/* Pronunciation Session */}
+      {showPronunciation && (
+        <PronunciationSession
+          title={viewTitle}
+          words={visibleWords}
+          recognizer={speechRecognizer}
+          onSpeak={playWordAudio}
+          onResult={recordPronunciation}
+          onClose={() => {
+            stopAudio();
+            endSession();
+            setShowPronunciation(false);
+          }}
+        />
+      )}
+
       {/* Import Modal */}
       {showImportModal && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
-          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
-            <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
-              <h3 className="font-bold text-lg text-slate-800">Import Vocabulary</h3>
-              <button onClick={() => setShowImportModal(false)} className="text-gray-400 hover:text-gray-600">
-                <X className="w-5 h-5" />
-              </button>
-            </div>
-            
-            <div className="p-6 overflow-y-auto">
-              <div className="mb-4 bg-blue-50 text-blue-800 p-4 rounded-lg text-sm">
-                <strong>Format:</strong> Copy columns from Excel/Sheets directly. 
-                <br/>
-                We expect: <code>Word</code> → <code>Part of Speech</code> → <code>Synonyms</code> → <code>Translation</code>.
-                <br/>
-                <span className="text-blue-600/80 mt-1 block">All imported words will be grouped into a single new 'Day'.</span>
-              </div>
-              
-              <textarea
-                value={importText}
-                onChange={(e) => setImportText(e.target.value)}
-                placeholder={`resilience\tn.\telasticity, recovery\t弹性；恢复力\nsedentary\tadj.\tinactive, desk-bound\t久坐不动的`}
-                className="w-full h-64 p-4 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none font-mono text-xs sm:text-sm bg-gray-50 whitespace-pre"
-              />
-            </div>
-            
-            <div className="px-6 py-4 bg-gray-50 border-t border-gray-100 flex justify-end gap-3">
-              <button 
-                onClick={() => setShowImportModal(false)}
-                className="px-4 py-2 text-gray-600 hover:bg-gray-200 rounded-lg text-sm font-medium transition-colors"
-              >
-                Cancel
-              </button>
-              <button 
-                onClick={handleImport}
-                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-md shadow-indigo-200 transition-colors"
-              >
-                Create Day
-              </button>
-            </div>
-          </div>
-        </div>
+        <ImportModal
+          library={sheets}
+          profileId={profile.id}
+          onImport={handleImport}
+          onOpenSharedList={openSharedFile}
+          onClose={() => setShowImportModal(false)}
+        />
+      )}
+
+      {/* Share */}
+      {showShareModal && activeSheet && (
+        <ShareModal
+          sheet={activeSheet}
+          profileId={profile.id}
+          onShared={(list) => setSheets(prevSheets => prevSheets.map(s => s.id === activeSheet.id ? markShared(s, list) : s))}
+          onClose={() => setShowShareModal(false)}
+        />
+      )}
+      {incomingShare && (() => {
+        const { list, error } = incomingShare;
+        const copy = list ? findSharedCopy(sheets, list.listId) : undefined;
+        return (
+          <SharePreviewModal
+            list={list}
+            error={error}
+            existing={copy}
+            onAdd={() => list && addSharedList(list)}
+            onUpdate={() => list && copy && updateSharedCopy(copy, list)}
+            onClose={() => setIncomingShare(null)}
+          />
+        );
+      })()}
+
+      {/* Enrich Modal */}
+      {showEnrichModal && activeSheet && (
+        <EnrichModal
+          sheetName={activeSheet.name}
+          words={activeSheet.words}
+          client={enrichmentClient}
+          onApply={enrichWord}
+          onClose={() => setShowEnrichModal(false)}
+        />
+      )}
+
+      {/* Duplicates */}
+      {showDuplicates && (
+        <DuplicatesModal
+          groups={findDuplicateGroups(sheets)}
+          onMerge={mergeDuplicates}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+
+      {/* Statistics Dashboard */}
+      {showStats && (
+        <StatsDashboard
+          sheets={sheets}
+          events={events}
+          onClose={() => setShowStats(false)}
+        />
+      )}
+
+      {/* Audio Settings */}
+      {showPlaybackSettings && (
+        <PlaybackSettingsModal
+          settings={playbackSettings}
+          onChange={setPlaybackSettings}
+          onClose={() => setShowPlaybackSettings(false)}
+        />
+      )}
+
+      {/* New version / offline ready */}
+      <UpdatePrompt isBusy={isModalOpen || isRenamingSheet || isEditingFolder || isAddingWord} onBeforeReload={prepareReload} />
+
+      {/* Sync Settings */}
+      {showSyncModal && (
+        <SyncModal
+          settings={syncSettings}
+          status={syncStatus}
+          onChange={setSyncSettings}
+          onSyncNow={syncNow}
+          onClose={() => setShowSyncModal(false)}
+        />
+      )}
+
+      {/* Printable Worksheets */}
+      {showWorksheetModal && activeSheet && (
+        <WorksheetModal
+          sheets={sheets}
+          initialSheetId={activeSheet.id}
+          onClose={() => setShowWorksheetModal(false)}
+        />
+      )}
+
+      {/* Profiles */}
+      {showProfilesModal && (
+        <ProfilesModal
+          profiles={profileList.profiles}
+          activeId={profile.id}
+          onAdd={addProfile}
+          onRename={renameProfile}
+          onDelete={deleteProfile}
+          onSwitch={switchProfile}
+          onExportProgress={exportProgress}
+          onClose={() => setShowProfilesModal(false)}
+        />
+      )}
+
+      {/* Keyboard Shortcuts */}
+      {showShortcuts && <ShortcutsHelp onClose={() => setShowShortcuts(false)} />}
+
+      {/* Backup Modal */}
+      {showBackupModal && (
+        <BackupModal
+          sheets={sheets}
+          activeSheet={view === 'sheet' ? activeSheet : undefined}
+          onRestore={handleRestore}
+          onClose={() => setShowBackupModal(false)}
+        />
       )}
     </div>
   );
 };
 
+// Holds the profile list and remounts the app for whichever profile is active
+const Root = () => {
+  const [profileList, setProfileList] = useState<ProfileList>(loadProfiles);
+  // The update snapshot only applies to the profile that was open when the app reloaded
+  const [snapshot, setSnapshot] = useState(reloadSnapshot);
+
+  useEffect(() => {
+    saveProfiles(profileList);
+  }, [profileList]);
+
+  const changeProfileList = (next: ProfileList) => {
+    if (next.activeId !== profileList.activeId) setSnapshot(null);
+    setProfileList(next);
+  };
+
+  return (
+    <App
+      key={profileList.activeId}
+      profileList={profileList}
+      onProfileListChange={changeProfileList}
+      snapshot={snapshot}
+    />
+  );
+};
+
 const root = createRoot(document.getElementById('root')!);
-root.render(<App />);
\ No newline at end of file
+root.render(<Root />);
\ No newline at end of file
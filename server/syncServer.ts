@@ -0,0 +1,158 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { EMPTY_SYNC_DOCUMENT, isSyncDocument, isValidLibraryId, mergeDocuments, type SyncDocument } from '../services/sync';
+import { isRecord } from '../services/guards';
+
+// --- Sync Server ---
+// Small HTTP server that keeps one sync document per library in a JSON file. Devices post their
+// copy, the server merges it into the stored one and answers with the result, so a single
+// request both pushes and pulls. The merge is the same one the app runs, so the order in which
+// devices check in does not change the outcome.
+//
+//   GET  /health                  -> { ok: true }
+//   GET  /libraries/:id           -> { document }
+//   POST /libraries/:id/sync      { document } -> { document }
+
+export type SyncServerOptions = {
+  dataDir: string;
+  token?: string; // When set, requests must carry "Authorization: Bearer <token>"
+};
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+// Errors carrying an HTTP status are reported to the client as { error }
+type HttpError = Error & { status: number };
+
+const httpError = (status: number, message: string): HttpError => Object.assign(new Error(message), { status });
+
+const isHttpError = (e: unknown): e is HttpError => e instanceof Error && typeof (e as HttpError).status === 'number';
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage) =>
+  new Promise<unknown>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(httpError(413, 'Library is too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(httpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+export const createSyncServer = ({ dataDir, token }: SyncServerOptions) => {
+  const fileFor = (libraryId: string) => path.join(dataDir, `${libraryId}.json`);
+
+  const readDocument = async (libraryId: string): Promise<SyncDocument> => {
+    try {
+      const stored = JSON.parse(await readFile(fileFor(libraryId), 'utf8'));
+      if (!isSyncDocument(stored)) throw new Error(`Stored library "${libraryId}" is damaged`);
+      return stored;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return EMPTY_SYNC_DOCUMENT;
+      throw e;
+    }
+  };
+
+  // Write to a temporary file first so a crash mid-write never leaves half a library behind
+  const writeDocument = async (libraryId: string, doc: SyncDocument) => {
+    await mkdir(dataDir, { recursive: true });
+    const temp = `${fileFor(libraryId)}.tmp`;
+    await writeFile(temp, JSON.stringify(doc));
+    await rename(temp, fileFor(libraryId));
+  };
+
+  // Merges into the same library run one after another; otherwise two devices syncing at once
+  // could both read the old file and one of their changes would be lost
+  const queues = new Map<string, Promise<unknown>>();
+  const withLibrary = <T,>(libraryId: string, task: () => Promise<T>): Promise<T> => {
+    const run = (queues.get(libraryId) || Promise.resolve()).then(task, task);
+    queues.set(libraryId, run.catch(() => undefined));
+    return run;
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    // The app is served from another origin (the Vite dev server or a static host)
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method === 'GET' && url.pathname === '/health') {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      throw httpError(401, 'Missing or wrong access token');
+    }
+
+    const match = url.pathname.match(/^\/libraries\/([^/]+)(\/sync)?$/);
+    if (!match) throw httpError(404, 'Not found');
+    const libraryId = decodeURIComponent(match[1]);
+    if (!isValidLibraryId(libraryId)) {
+      throw httpError(400, 'Library ids may only use letters, digits, "-" and "_"');
+    }
+
+    if (req.method === 'GET' && !match[2]) {
+      sendJson(res, 200, { document: await readDocument(libraryId) });
+      return;
+    }
+    if (req.method === 'POST' && match[2]) {
+      const body = await readJsonBody(req);
+      const document = isRecord(body) ? body.document : undefined;
+      if (!isSyncDocument(document)) throw httpError(400, 'Expected { document } with a sync document');
+      const merged = await withLibrary(libraryId, async () => {
+        const next = mergeDocuments(await readDocument(libraryId), document);
+        await writeDocument(libraryId, next);
+        return next;
+      });
+      sendJson(res, 200, { document: merged });
+      return;
+    }
+    throw httpError(405, 'Method not allowed');
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch(e => {
+      if (isHttpError(e)) {
+        sendJson(res, e.status, { error: e.message });
+        return;
+      }
+      console.error("Sync request failed:", e);
+      sendJson(res, 500, { error: 'Sync server error' });
+    });
+  });
+};
+
+// --- Command Line ---
+// npm run sync-server (PORT, SYNC_DATA_DIR and SYNC_TOKEN are read from the environment)
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.PORT) || 8787;
+  const dataDir = path.resolve(process.env.SYNC_DATA_DIR || 'sync-data');
+  createSyncServer({ dataDir, token: process.env.SYNC_TOKEN || undefined }).listen(port, () => {
+    console.log(`Sync server listening on http://localhost:${port} (data in ${dataDir})`);
+  });
+}
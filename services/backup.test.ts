@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { DaySheet } from '../types';
+import { createBackup, exportSheetDelimited, mergeLibraries, parseBackup } from './backup';
+import { createWordItem, detectImporter, guessMapping, looksLikeHeader, mapRows, type ImportTable } from './importers';
+import { reviewWord } from './srs';
+
+const SHEET: DaySheet = {
+  id: 'day-1',
+  name: 'Day 1',
+  words: [
+    createWordItem('w1', {
+      word: 'resilient',
+      pos: 'adj.',
+      replacement: 'tough, hardy',
+      translation: '有弹性的',
+      examples: ['A resilient city.', 'She is "resilient", they say.'],
+      collocations: ['resilient economy', 'remarkably resilient'],
+      notes: 'From Latin resilire',
+      tags: ['IELTS', 'adjective'],
+      source: 'Unit 3',
+    }),
+    createWordItem('w2', { word: 'sedentary', translation: '久坐的' }),
+  ],
+};
+
+// What the import dialog does with a pasted or uploaded export
+const importBack = (text: string, fileName: string) => {
+  const result = detectImporter(text, fileName).parse(text) as ImportTable;
+  const [header, ...rows] = result.rows;
+  expect(looksLikeHeader(header.cells)).toBe(true);
+  return mapRows(rows, guessMapping(header.cells.length, header.cells)).map(row => row.word!);
+};
+
+describe('spreadsheet export', () => {
+  it.each([
+    [',', 'day-1.csv'],
+    ['\t', 'day-1.tsv'],
+  ] as const)('imports back every column (delimiter %j)', (delimiter, fileName) => {
+    const [word, plain] = importBack(exportSheetDelimited(SHEET, delimiter), fileName);
+    const { id, srs, addedAt, ...content } = SHEET.words[0];
+    expect(word).toMatchObject(content);
+    expect(plain.word).toBe('sedentary');
+    expect(plain.collocations).toBeUndefined();
+  });
+});
+
+describe('backups', () => {
+  it('reads back a backup it wrote', () => {
+    const backup = createBackup([SHEET]);
+    expect(parseBackup(JSON.stringify(backup)).sheets[0].words.map(word => word.word)).toEqual(['resilient', 'sedentary']);
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackup('not json')).toThrow('not valid JSON');
+    expect(() => parseBackup('{"format":"other"}')).toThrow('not a VocabMaster backup');
+  });
+
+  it('keeps the most recently reviewed copy of each word and adds the rest', () => {
+    const reviewed = reviewWord(SHEET.words[1], 'good', 2000);
+    const incoming: DaySheet[] = [
+      { ...SHEET, words: [SHEET.words[0], reviewed] },
+      { id: 'day-2', name: 'Day 2', words: [createWordItem('w3', { word: 'abundant' })] },
+    ];
+    const { sheets, summary } = mergeLibraries([SHEET], incoming);
+    expect(summary).toEqual({ addedSheets: 1, addedWords: 1, updatedWords: 1 });
+    expect(sheets[0].words[1]).toBe(reviewed);
+  });
+});
@@ -0,0 +1,146 @@
+import type { DaySheet, WordItem } from '../types';
+import { normalizeSheets } from './storage';
+import { isRecord } from './guards';
+
+// --- Library Backup ---
+
+export const BACKUP_FORMAT = 'vocabmaster-backup';
+export const BACKUP_VERSION = 1;
+
+export type LibraryBackup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  sheets: DaySheet[];
+};
+
+export const createBackup = (sheets: DaySheet[]): LibraryBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  sheets,
+});
+
+// Throws with a user-facing message when the file is not a usable backup
+export const parseBackup = (text: string): LibraryBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a VocabMaster backup.');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${data.version}. Please update the app.`);
+  }
+  if (!Array.isArray(data.sheets)) {
+    throw new Error('The backup is damaged: the list of days is missing.');
+  }
+
+  // Same validation as the stored library, so old word shapes are upgraded here too
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    sheets: normalizeSheets(data.sheets),
+  };
+};
+
+// --- Restore ---
+
+export type MergeSummary = {
+  addedSheets: number;
+  addedWords: number;
+  updatedWords: number;
+};
+
+const reviewedAt = (word: WordItem) => word.srs.lastReviewed ?? 0;
+
+// Same word id on both sides: keep the copy with the most recent review, so progress is never lost
+const resolveConflict = (current: WordItem, incoming: WordItem): WordItem =>
+  reviewedAt(incoming) > reviewedAt(current) ? incoming : current;
+
+// Merge a backup into the current library. Words are matched by id wherever they live;
+// unknown sheets are appended and unknown words join their sheet from the backup.
+export const mergeLibraries = (current: DaySheet[], incoming: DaySheet[]): { sheets: DaySheet[]; summary: MergeSummary } => {
+  const summary: MergeSummary = { addedSheets: 0, addedWords: 0, updatedWords: 0 };
+  const incomingWords = new Map<string, WordItem>();
+  incoming.forEach(sheet => sheet.words.forEach(w => incomingWords.set(w.id, w)));
+
+  // Resolve conflicts in place for every word the library already has
+  const knownWordIds = new Set<string>();
+  const merged = current.map(sheet => ({
+    ...sheet,
+    words: sheet.words.map(word => {
+      knownWordIds.add(word.id);
+      const other = incomingWords.get(word.id);
+      if (!other) return word;
+      const winner = resolveConflict(word, other);
+      if (winner !== word) summary.updatedWords += 1;
+      return winner;
+    }),
+  }));
+
+  for (const sheet of incoming) {
+    const newWords = sheet.words.filter(w => !knownWordIds.has(w.id));
+    const existing = merged.find(s => s.id === sheet.id);
+    if (existing) {
+      existing.words = [...existing.words, ...newWords];
+      summary.addedWords += newWords.length;
+    } else if (newWords.length > 0 || sheet.words.length === 0) {
+      merged.push({ ...sheet, words: newWords });
+      summary.addedSheets += 1;
+      summary.addedWords += newWords.length;
+    }
+  }
+
+  return { sheets: merged, summary };
+};
+
+// --- Spreadsheet Export ---
+
+const EXPORT_HEADER = ['Word', 'Part of Speech', 'Synonyms', 'Translation', 'Examples', 'Collocations', 'Notes', 'Tags', 'Source'];
+
+const quoteCell = (value: string, delimiter: string) =>
+  value.includes(delimiter) || value.includes('"') || value.includes('\n')
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+// Same column order the importer expects, with a header row it recognises
+export const exportSheetDelimited = (sheet: DaySheet, delimiter: ',' | '\t'): string =>
+  [
+    EXPORT_HEADER,
+    ...sheet.words.map(w => [
+      w.word,
+      w.pos,
+      w.replacement,
+      w.translation,
+      (w.examples || []).join('\n'), // One sentence per line, which the importer splits again
+      (w.collocations || []).join('\n'),
+      w.notes || '',
+      (w.tags || []).join(', '),
+      w.source || '',
+    ]),
+  ]
+    .map(row => row.map(cell => quoteCell(cell, delimiter)).join(delimiter))
+    .join('\n');
+
+// --- Download helper ---
+
+export const downloadText = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const toFileName = (name: string) =>
+  name.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').toLowerCase() || 'vocabulary';
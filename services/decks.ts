@@ -0,0 +1,45 @@
+import { normalizeSearchFilters, type SearchFilters } from './search';
+import { isRecord } from './guards';
+import { profileKey } from './profiles';
+
+// --- Smart Decks ---
+// A smart deck is a saved search. Its words are worked out again every time it is opened,
+// so newly imported, tagged or failed words join the deck by themselves.
+
+export type SmartDeck = {
+  id: string;
+  name: string;
+  filters: SearchFilters;
+};
+
+const DECKS_STORAGE_KEY = 'vocab_master_smart_decks';
+
+export const loadSmartDecks = (profileId: string): SmartDeck[] => {
+  try {
+    const saved = localStorage.getItem(profileKey(DECKS_STORAGE_KEY, profileId));
+    if (!saved) return [];
+    const parsed: unknown = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((deck: unknown) =>
+      isRecord(deck) && typeof deck.id === 'string' && typeof deck.name === 'string'
+        ? [{ id: deck.id, name: deck.name, filters: normalizeSearchFilters(deck.filters) }]
+        : []);
+  } catch (e) {
+    console.error("Failed to load smart decks:", e);
+    return [];
+  }
+};
+
+export const saveSmartDecks = (decks: SmartDeck[], profileId: string) => {
+  try {
+    localStorage.setItem(profileKey(DECKS_STORAGE_KEY, profileId), JSON.stringify(decks));
+  } catch (e) {
+    console.error("Failed to save smart decks:", e);
+  }
+};
+
+export const createSmartDeck = (name: string, filters: SearchFilters): SmartDeck => ({
+  id: `deck-${Date.now()}`,
+  name: name.trim() || 'Untitled deck',
+  filters,
+});
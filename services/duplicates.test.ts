@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { DaySheet } from '../types';
+import {
+  createDuplicateIndex,
+  findDuplicateGroups,
+  isExactDuplicate,
+  lemmaCandidates,
+  mergeDuplicateGroups
+} from './duplicates';
+import { createWordItem } from './importers';
+import { reviewWord } from './srs';
+
+const sheet = (id: string, words: string[]): DaySheet => ({
+  id,
+  name: id,
+  words: words.map((word, i) => createWordItem(`${id}-${i}`, { word })),
+});
+
+const groupWords = (sheets: DaySheet[]) =>
+  findDuplicateGroups(sheets).map(group => group.map(loc => loc.word.word));
+
+describe('lemmaCandidates', () => {
+  it('finds the base forms of regular inflections', () => {
+    expect(lemmaCandidates('studies')).toContain('study');
+    expect(lemmaCandidates('stopped')).toContain('stop');
+    expect(lemmaCandidates('making')).toContain('make');
+    expect(lemmaCandidates('buses')).toContain('bus');
+    expect(lemmaCandidates('Agreed')).toContain('agree');
+  });
+
+  it('only offers bases that inflect back to the word', () => {
+    expect(lemmaCandidates('hoped')).toContain('hope');
+    expect(lemmaCandidates('hoped')).not.toContain('hop');
+    expect(lemmaCandidates('caring')).not.toContain('car');
+    expect(lemmaCandidates('hopping')).toContain('hop');
+    expect(lemmaCandidates('hopping')).not.toContain('hope');
+  });
+
+  it('leaves words that are not inflections alone', () => {
+    expect(lemmaCandidates('news')).toEqual(['news']);
+    expect(lemmaCandidates('evening')).toEqual(['evening']);
+    expect(lemmaCandidates('feed')).toEqual(['feed']);
+    expect(lemmaCandidates('take off')).toEqual(['take off']);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups copies across days, ignoring case', () => {
+    const groups = findDuplicateGroups([sheet('a', ['Abate', 'curb']), sheet('b', ['abate'])]);
+    expect(groups.map(group => group.map(loc => loc.sheetId))).toEqual([['a', 'b']]);
+    expect(isExactDuplicate(groups[0])).toBe(true);
+  });
+
+  it('groups a word with its inflections, flagged as not exact', () => {
+    const groups = findDuplicateGroups([sheet('a', ['abated', 'abate'])]);
+    expect(groups.map(group => group.map(loc => loc.word.word))).toEqual([['abated', 'abate']]);
+    expect(isExactDuplicate(groups[0])).toBe(false);
+  });
+
+  it.each([
+    [['hop', 'hope', 'hoped'], [['hope', 'hoped']]],
+    [['car', 'care', 'caring'], [['care', 'caring']]],
+    [['new', 'news'], []],
+    [['even', 'evening'], []],
+    [['fee', 'feed'], []],
+  ])('keeps look-alikes apart: %j', (words, expected) => {
+    expect(groupWords([sheet('a', words)])).toEqual(expected);
+  });
+
+  it('does not chain words that only share a base form', () => {
+    expect(groupWords([sheet('a', ['hopes', 'hoped'])])).toEqual([]);
+  });
+});
+
+describe('createDuplicateIndex', () => {
+  it('finds library words an imported word is the same entry as', () => {
+    const index = createDuplicateIndex([sheet('a', ['hope', 'hopes', 'hop'])]);
+    expect(index.find('hoped').map(loc => loc.word.word)).toEqual(['hope']);
+    expect(index.find('Hop').map(loc => loc.word.word)).toEqual(['hop']);
+    expect(index.find('news')).toEqual([]);
+  });
+});
+
+describe('mergeDuplicateGroups', () => {
+  it('keeps the first copy with the best progress and moves dictation mistakes to it', () => {
+    const sheets = [sheet('a', ['abate']), { ...sheet('b', ['abate']), mistakes: ['b-0'] }];
+    sheets[1].words[0] = { ...reviewWord(sheets[1].words[0], 'good'), translation: '减轻' };
+
+    const merged = mergeDuplicateGroups(sheets, findDuplicateGroups(sheets));
+    expect(merged[1].words).toEqual([]);
+    expect(merged[1].mistakes).toEqual([]);
+    expect(merged[0].mistakes).toEqual(['a-0']);
+    const [word] = merged[0].words;
+    expect(word.id).toBe('a-0');
+    expect(word.learned).toBe(true);
+    expect(word.translation).toBe('减轻');
+  });
+});
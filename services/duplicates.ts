@@ -0,0 +1,245 @@
+import type { DaySheet, WordItem } from '../types';
+
+// --- Duplicate Detection ---
+
+export type WordLocation = {
+  word: WordItem;
+  sheetId: string;
+  sheetName: string;
+};
+
+const MIN_STEM_LENGTH = 3;
+
+// Words that look like an inflection of another word but are a word of their own
+// ("news" is not the plural of "new", nor "feed" the past of "fee")
+const LEXICALIZED = new Set([
+  'arms', 'clothes', 'customs', 'evening', 'feed', 'glasses', 'goods', 'manners', 'means', 'morning', 'news', 'seed',
+]);
+
+const normalizeHeadword = (word: string) =>
+  word.trim().toLowerCase().replace(/[’']/g, "'").replace(/[^\p{L}\p{N}' -]/gu, '').replace(/\s+/g, ' ');
+
+const CONSONANT = '[b-df-hj-np-tv-z]';
+const endsInConsonantY = (word: string) => new RegExp(`${CONSONANT}y$`).test(word);
+
+// Whether a final consonant is doubled before -ed/-ing: always for one-syllable words ending in
+// consonant-vowel-consonant ("stop" -> "stopped"), optionally for longer ones, where it
+// depends on stress ("admitted" but "visited")
+const doubling = (word: string): 'always' | 'optional' | 'never' => {
+  if (!new RegExp(`(^|[^aeiou])[aeiou]${CONSONANT}$`).test(word) || /[wxy]$/.test(word)) return 'never';
+  return (word.match(/[aeiou]+/g) || []).length === 1 ? 'always' : 'optional';
+};
+
+// The regular -s, -ed and -ing forms of a base word
+const regularInflections = (base: string): string[] => {
+  const forms: string[] = [];
+  if (/(s|x|z|ch|sh)$/.test(base)) forms.push(`${base}es`);
+  else if (endsInConsonantY(base)) forms.push(`${base.slice(0, -1)}ies`);
+  else if (base.endsWith('o')) forms.push(`${base}es`, `${base}s`);
+  else forms.push(`${base}s`);
+
+  const doubled = base + base.slice(-1);
+  const double = doubling(base);
+  const withEnding = (ending: string) =>
+    double === 'always' ? [doubled + ending] : double === 'optional' ? [doubled + ending, base + ending] : [base + ending];
+
+  if (base.endsWith('e')) forms.push(`${base}d`);
+  else if (endsInConsonantY(base)) forms.push(`${base.slice(0, -1)}ied`);
+  else forms.push(...withEnding('ed'));
+
+  if (base.endsWith('ie')) forms.push(`${base.slice(0, -2)}ying`);
+  else if (/[^eoy]e$/.test(base)) forms.push(`${base.slice(0, -1)}ing`);
+  else if (base.endsWith('e')) forms.push(`${base}ing`);
+  else forms.push(...withEnding('ing'));
+  return forms;
+};
+
+// The word itself plus the base forms it is a regular inflection of ("studies" -> "study",
+// "stopped" -> "stop", "making" -> "make"). A base only counts when inflecting it gives the
+// word back, so "hoped" comes from "hope" but not from "hop", and "caring" not from "car".
+// Phrases are only compared as a whole.
+export const lemmaCandidates = (word: string): string[] => {
+  const base = normalizeHeadword(word);
+  if (!base || base.includes(' ')) return base ? [base] : [];
+  if (LEXICALIZED.has(base)) return [base];
+
+  const guesses = new Set<string>();
+  const add = (stem: string, suffix = '') => {
+    if (stem.length >= MIN_STEM_LENGTH) guesses.add(stem + suffix);
+  };
+  const strip = (suffix: string) => base.slice(0, -suffix.length);
+  // "stopp" -> "stop"
+  const undouble = (stem: string) => (/([b-df-hj-np-tv-z])\1$/.test(stem) ? stem.slice(0, -1) : stem);
+
+  if (base.endsWith('ies') || base.endsWith('ied')) add(strip('ies'), 'y');
+  if (base.endsWith('es')) add(strip('es'));
+  if (base.endsWith('s')) add(strip('s'));
+  if (base.endsWith('ed')) {
+    add(strip('ed'));
+    add(strip('d'));
+    add(undouble(strip('ed')));
+  }
+  if (base.endsWith('ing')) {
+    add(strip('ing'));
+    add(strip('ing'), 'e');
+    add(strip('ying'), 'ie');
+    add(undouble(strip('ing')));
+  }
+  return [base, ...[...guesses].filter(guess => guess !== base && regularInflections(guess).includes(base))];
+};
+
+// Two headwords are the same entry when they are spelled the same or one is an inflection of the other
+const isSameEntry = (a: string, b: string) => {
+  const [formA, formB] = [normalizeHeadword(a), normalizeHeadword(b)];
+  return formA === formB || lemmaCandidates(a).includes(formB) || lemmaCandidates(b).includes(formA);
+};
+
+// Lookup of library words by their spelling and by the base forms they inflect
+export const createDuplicateIndex = (sheets: DaySheet[]) => {
+  const index = new Map<string, WordLocation[]>();
+  sheets.forEach(sheet => sheet.words.forEach(word => {
+    const location = { word, sheetId: sheet.id, sheetName: sheet.name };
+    lemmaCandidates(word.word).forEach(key => index.set(key, [...(index.get(key) || []), location]));
+  }));
+
+  return {
+    find: (word: string): WordLocation[] => {
+      const found = new Map<string, WordLocation>();
+      lemmaCandidates(word).forEach(key => index.get(key)?.forEach(loc => {
+        if (isSameEntry(word, loc.word.word)) found.set(loc.word.id, loc);
+      }));
+      return [...found.values()];
+    },
+  };
+};
+
+// Groups of two or more words in the library that look like the same entry, in library order.
+// Each group is built around one base word: its copies plus its inflected forms. Words are not
+// chained through a shared base, so "hopes" and "hoped" only group when "hope" is there too.
+export const findDuplicateGroups = (sheets: DaySheet[]): WordLocation[][] => {
+  const locations = sheets.flatMap(sheet =>
+    sheet.words.map(word => ({ word, sheetId: sheet.id, sheetName: sheet.name }))
+  );
+  const order = new Map(locations.map((loc, i) => [loc, i]));
+  const byKey = new Map<string, WordLocation[]>();
+  locations.forEach(loc => lemmaCandidates(loc.word.word).forEach(key => byKey.set(key, [...(byKey.get(key) || []), loc])));
+
+  // Base words first, so an inflected form joins its base rather than collecting copies of itself
+  const isInflected = (loc: WordLocation) => lemmaCandidates(loc.word.word).length > 1;
+  const bases = [...locations.filter(loc => !isInflected(loc)), ...locations.filter(isInflected)];
+
+  const grouped = new Set<WordLocation>();
+  const groups: WordLocation[][] = [];
+  bases.forEach(base => {
+    if (grouped.has(base)) return;
+    const group = (byKey.get(normalizeHeadword(base.word.word)) || []).filter(loc => !grouped.has(loc));
+    if (group.length < 2) return;
+    group.forEach(loc => grouped.add(loc));
+    groups.push(group);
+  });
+  return groups.sort((a, b) => order.get(a[0])! - order.get(b[0])!);
+};
+
+// Whether every word in a group is spelled the same; groups that only match by inflection
+// ("abate" and "abated") may be different entries on purpose
+export const isExactDuplicate = (group: WordLocation[]): boolean =>
+  group.every(loc => normalizeHeadword(loc.word.word) === normalizeHeadword(group[0].word.word));
+
+// --- Merging ---
+
+// An imported word to be folded into an existing library word instead of being added
+export type ImportMerge = { targetId: string; incoming: WordItem };
+
+const mergeList = (a: string, b: string, separator: RegExp, joiner: string) => {
+  const items = [...a.split(separator), ...b.split(separator)].map(item => item.trim()).filter(Boolean);
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = item.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).join(joiner);
+};
+
+const unique = (items: string[]) => [...new Set(items)];
+
+const earliest = (a?: number, b?: number) =>
+  a === undefined ? b : b === undefined ? a : Math.min(a, b);
+
+// Adds what `source` knows to `target`: empty fields are filled, synonyms, senses, examples,
+// collocations, notes and tags are combined. Scheduling state is left alone.
+export const mergeWordFields = (target: WordItem, source: WordItem): WordItem => ({
+  ...target,
+  pos: target.pos || source.pos,
+  replacement: mergeList(target.replacement, source.replacement, /[,，]/, ', '),
+  translation: mergeList(target.translation, source.translation, /[；;]/, '；'),
+  examples: unique([...(target.examples || []), ...(source.examples || [])]),
+  collocations: unique([...(target.collocations || []), ...(source.collocations || [])]),
+  notes: unique([target.notes, source.notes].filter((n): n is string => Boolean(n))).join('\n') || undefined,
+  tags: unique([...(target.tags || []), ...(source.tags || [])]),
+  source: target.source || source.source,
+  addedAt: earliest(target.addedAt, source.addedAt),
+});
+
+// Learned beats unlearned, then the longer successful run, then more reviews, then the most recent
+const progressRank = (word: WordItem) =>
+  [Number(word.learned), word.srs.repetitions, word.srs.history.length, word.srs.lastReviewed || 0];
+
+export const pickBestProgress = (words: WordItem[]): WordItem =>
+  words.reduce((best, word) => {
+    const a = progressRank(word);
+    const b = progressRank(best);
+    const i = a.findIndex((value, idx) => value !== b[idx]);
+    return i !== -1 && a[i] > b[i] ? word : best;
+  });
+
+// One word from several: the best progress is kept (with the review histories combined),
+// fields from every copy are merged in, and the id of `keepId` survives. The shortest
+// spelling is used as the headword since it is usually the base form.
+export const mergeWords = (words: WordItem[], keepId: string): WordItem => {
+  const best = pickBestProgress(words);
+  const history = words.flatMap(w => w.srs.history).sort((a, b) => a.at - b.at);
+  const headword = words.map(w => w.word).reduce((a, b) => (b.length < a.length ? b : a));
+  return words
+    .filter(w => w !== best)
+    .reduce(
+      (merged, word) => mergeWordFields(merged, word),
+      { ...best, id: keepId, word: headword, srs: { ...best.srs, history } }
+    );
+};
+
+// Collapse each group into its first occurrence; the other copies are removed and their
+// dictation mistakes are carried over to the surviving word
+export const mergeDuplicateGroups = (sheets: DaySheet[], groups: WordLocation[][]): DaySheet[] => {
+  const replacements = new Map<string, WordItem>();
+  const removedTo = new Map<string, string>(); // Removed id -> surviving id
+
+  groups.forEach(group => {
+    const keepId = group[0].word.id;
+    replacements.set(keepId, mergeWords(group.map(loc => loc.word), keepId));
+    group.slice(1).forEach(loc => removedTo.set(loc.word.id, keepId));
+  });
+
+  const mistakeOwner = new Map<string, string>(); // Surviving id -> sheet holding it
+  sheets.forEach(sheet => sheet.words.forEach(w => {
+    if (replacements.has(w.id)) mistakeOwner.set(w.id, sheet.id);
+  }));
+  const carriedMistakes = new Map<string, string[]>(); // Sheet id -> surviving ids with a mistake
+  sheets.forEach(sheet => (sheet.mistakes || []).forEach(id => {
+    const keepId = removedTo.get(id);
+    if (!keepId) return;
+    const owner = mistakeOwner.get(keepId)!;
+    carriedMistakes.set(owner, [...(carriedMistakes.get(owner) || []), keepId]);
+  }));
+
+  return sheets.map(sheet => ({
+    ...sheet,
+    words: sheet.words
+      .filter(w => !removedTo.has(w.id))
+      .map(w => replacements.get(w.id) || w),
+    mistakes: unique([
+      ...(sheet.mistakes || []).filter(id => !removedTo.has(id)),
+      ...(carriedMistakes.get(sheet.id) || []),
+    ]),
+  }));
+};
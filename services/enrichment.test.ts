@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WordItem } from '../types';
+import {
+  applyEnrichment,
+  createDefaultClient,
+  createStubClient,
+  runEnrichmentBatch,
+  type EnrichmentClient,
+  type EnrichmentResult,
+  type EnrichmentStatus
+} from './enrichment';
+import { createWordItem } from './importers';
+
+const words = ['resilience', 'sedentary', 'abundant'].map((word, i) => createWordItem(`w${i}`, { word }));
+
+// Runs a batch to the end under fake timers and records what the modal would see
+const runBatch = async (client: EnrichmentClient, batch: WordItem[], options: { maxRetries?: number; signal?: AbortSignal } = {}) => {
+  const statuses: [string, EnrichmentStatus, string?][] = [];
+  const results: Record<string, EnrichmentResult> = {};
+  const done = runEnrichmentBatch(batch, {
+    client,
+    minIntervalMs: 1000,
+    ...options,
+    onStatus: (id, status, error) => statuses.push(error ? [id, status, error] : [id, status]),
+    onResult: (id, result) => { results[id] = result; },
+  });
+  await vi.runAllTimersAsync();
+  await done;
+  return { statuses, results };
+};
+
+// Wraps a client to record when each request starts and to fail the first few calls per word
+const instrument = (client: EnrichmentClient, failures: Record<string, number> = {}) => {
+  const starts: [string, number][] = [];
+  const wrapped: EnrichmentClient = {
+    name: client.name,
+    enrich: async (word) => {
+      starts.push([word.word, Date.now()]);
+      if ((failures[word.word] ?? 0) > 0) {
+        failures[word.word] -= 1;
+        throw new Error('Rate limited');
+      }
+      return client.enrich(word);
+    },
+  };
+  return { client: wrapped, starts };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2026, 9, 19, 12));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('stub client', () => {
+  it('returns fixtures for known words and guesses the part of speech otherwise', async () => {
+    const stub = createStubClient({ resilience: { translation: '韧性', examples: ['She showed resilience.'] } });
+    const known = await stub.enrich(words[0]);
+    expect(known.translation).toBe('韧性');
+    expect(known.examples).toEqual(['She showed resilience.']);
+    expect((await stub.enrich(createWordItem('x', { word: 'dangerous' }))).pos).toBe('adj.');
+    expect((await stub.enrich(createWordItem('x', { word: 'zzz' }))).pos).toBe('');
+  });
+
+  it('is the default when no API key is set', () => {
+    expect(createDefaultClient('').isOffline).toBe(true);
+  });
+});
+
+describe('runEnrichmentBatch', () => {
+  it('reports each word running then done, with its result', async () => {
+    const { statuses, results } = await runBatch(createStubClient(), words);
+    expect(statuses).toEqual(words.flatMap(word => [[word.id, 'running'], [word.id, 'done']]));
+    expect(Object.keys(results)).toEqual(words.map(word => word.id));
+  });
+
+  it('spaces request starts by the minimum interval', async () => {
+    const { client, starts } = instrument(createStubClient());
+    await runBatch(client, words);
+    const times = starts.map(([, at]) => at);
+    expect(times[1] - times[0]).toBe(1000);
+    expect(times[2] - times[1]).toBe(1000);
+  });
+
+  it('retries a failing word with backoff and then moves on', async () => {
+    const { client, starts } = instrument(createStubClient(), { sedentary: 2 });
+    const { statuses } = await runBatch(client, words.slice(1));
+    expect(starts.map(([word]) => word)).toEqual(['sedentary', 'sedentary', 'sedentary', 'abundant']);
+    const times = starts.map(([, at]) => at);
+    expect(times[1] - times[0]).toBe(2000);
+    expect(times[2] - times[1]).toBe(4000);
+    expect(statuses).toContainEqual(['w1', 'done']);
+    expect(statuses).toContainEqual(['w2', 'done']);
+  });
+
+  it('marks a word failed once its retries run out, without stopping the batch', async () => {
+    const { client } = instrument(createStubClient(), { resilience: 5 });
+    const { statuses, results } = await runBatch(client, words.slice(0, 2), { maxRetries: 1 });
+    expect(statuses).toContainEqual(['w0', 'failed', 'Rate limited']);
+    expect(statuses.at(-1)).toEqual(['w1', 'done']);
+    expect(Object.keys(results)).toEqual(['w1']);
+  });
+
+  it('leaves the current word pending when cancelled', async () => {
+    const controller = new AbortController();
+    const { client } = instrument(createStubClient(), { resilience: 5 });
+    setTimeout(() => controller.abort(), 500);
+    const { statuses } = await runBatch(client, words, { signal: controller.signal });
+    expect(statuses).toEqual([['w0', 'running'], ['w0', 'pending']]);
+  });
+});
+
+describe('applyEnrichment', () => {
+  it('fills only missing fields and merges lists', () => {
+    const word = { ...createWordItem('w', { word: 'resilient' }), translation: '有弹性的', examples: ['A resilient city.'] };
+    const enriched = applyEnrichment(word, {
+      pos: 'adj.',
+      replacement: 'tough',
+      translation: '适应力强的',
+      examples: ['A resilient city.', 'Resilient plants.'],
+      collocations: [],
+    });
+    expect(enriched.pos).toBe('adj.');
+    expect(enriched.translation).toBe('有弹性的');
+    expect(enriched.examples).toEqual(['A resilient city.', 'Resilient plants.']);
+  });
+});
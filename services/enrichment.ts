@@ -0,0 +1,180 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import type { WordItem } from '../types';
+import { isRecord } from './guards';
+import { analyzeWord } from './morphology';
+
+// --- Word Enrichment ---
+
+export type EnrichmentResult = {
+  pos: string;
+  replacement: string; // Comma separated synonyms
+  translation: string; // Simplified Chinese
+  examples: string[];
+  collocations: string[];
+};
+
+// Anything that can enrich a word; the app uses Gemini, tests and offline use plug in the stub
+export interface EnrichmentClient {
+  readonly name: string;
+  readonly isOffline?: boolean; // Works without a network, with much less to offer
+  enrich: (word: WordItem) => Promise<EnrichmentResult>;
+}
+
+// --- Gemini Client ---
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    pos: { type: Type.STRING, description: 'Abbreviated part of speech, e.g. "n.", "adj.", "v."' },
+    replacement: { type: Type.STRING, description: '3 common English synonyms, comma separated' },
+    translation: { type: Type.STRING, description: 'Concise Simplified Chinese meaning, senses separated by "；"' },
+    examples: { type: Type.ARRAY, items: { type: Type.STRING }, description: '2 natural example sentences' },
+    collocations: { type: Type.ARRAY, items: { type: Type.STRING }, description: '3-5 common collocations' },
+  },
+  required: ['pos', 'replacement', 'translation', 'examples', 'collocations'],
+};
+
+const buildPrompt = (word: WordItem) => [
+  `You are helping a Chinese learner study English exam vocabulary.`,
+  `Word: "${word.word}"`,
+  word.pos && `Part of speech: ${word.pos}`,
+  word.translation && `Known meaning: ${word.translation}`,
+  `Describe this word in the given JSON format. Keep existing information consistent with the known meaning.`,
+].filter(Boolean).join('\n');
+
+export const createGeminiClient = (apiKey: string): EnrichmentClient => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'Gemini',
+    enrich: async (word) => {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: buildPrompt(word),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: RESPONSE_SCHEMA,
+        },
+      });
+      if (!response.text) {
+        throw new Error('Empty response from Gemini');
+      }
+      return parseEnrichment(JSON.parse(response.text));
+    },
+  };
+};
+
+// --- Stub Client ---
+
+// A suffix that makes one part of speech gives it away ("-ness" n., "-ly" adv.)
+const guessPartOfSpeech = (word: string) => {
+  const pos = analyzeWord(word)?.suffixes.at(-1)?.pos;
+  return pos && !pos.includes('/') ? pos : '';
+};
+
+// Deterministic stand-in with no network access: returns fixtures by word; other words only get
+// a part of speech guessed from their suffix
+export const createStubClient = (fixtures: Record<string, Partial<EnrichmentResult>> = {}): EnrichmentClient => ({
+  name: 'Offline',
+  isOffline: true,
+  enrich: async (word) => parseEnrichment(fixtures[word.word.trim().toLowerCase()] || { pos: guessPartOfSpeech(word.word) }),
+});
+
+// Gemini when an API key was configured at build time (see vite.config.ts), otherwise the stub
+export const createDefaultClient = (apiKey = process.env.API_KEY): EnrichmentClient =>
+  apiKey ? createGeminiClient(apiKey) : createStubClient();
+
+// --- Results ---
+
+const parseEnrichment = (data: unknown): EnrichmentResult => {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const list = (value: unknown) =>
+    Array.isArray(value) ? value.map(text).filter(Boolean) : [];
+  const fields = isRecord(data) ? data : {};
+  return {
+    pos: text(fields.pos),
+    replacement: text(fields.replacement),
+    translation: text(fields.translation),
+    examples: list(fields.examples),
+    collocations: list(fields.collocations),
+  };
+};
+
+const unique = (items: string[]) => [...new Set(items)];
+
+// Fill only what is missing; user-entered fields are never overwritten
+export const applyEnrichment = (word: WordItem, result: EnrichmentResult): WordItem => ({
+  ...word,
+  pos: word.pos || result.pos,
+  replacement: word.replacement || result.replacement,
+  translation: word.translation || result.translation,
+  examples: unique([...(word.examples || []), ...result.examples]),
+  collocations: unique([...(word.collocations || []), ...result.collocations]),
+});
+
+export const needsEnrichment = (word: WordItem): boolean =>
+  !word.pos || !word.replacement || !word.translation || !word.examples?.length || !word.collocations?.length;
+
+// --- Batch Runner ---
+
+export type EnrichmentStatus = 'pending' | 'running' | 'done' | 'failed';
+
+type BatchOptions = {
+  client: EnrichmentClient;
+  minIntervalMs?: number; // Spacing between request starts (rate limit)
+  maxRetries?: number; // Automatic retries per word, with exponential backoff
+  signal?: AbortSignal;
+  onStatus: (wordId: string, status: EnrichmentStatus, error?: string) => void;
+  onResult: (wordId: string, result: EnrichmentResult) => void;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+// Enrich words one at a time, never starting requests closer than minIntervalMs apart
+export const runEnrichmentBatch = async (
+  words: WordItem[],
+  { client, minIntervalMs = 1500, maxRetries = 2, signal, onStatus, onResult }: BatchOptions
+) => {
+  let lastStart = 0;
+
+  for (const word of words) {
+    if (signal?.aborted) break;
+    onStatus(word.id, 'running');
+
+    let attempt = 0;
+    let settled = false;
+    while (!signal?.aborted) {
+      const wait = lastStart + minIntervalMs * 2 ** attempt - Date.now();
+      if (wait > 0) await sleep(wait, signal);
+      if (signal?.aborted) break;
+      lastStart = Date.now();
+
+      try {
+        onResult(word.id, await client.enrich(word));
+        onStatus(word.id, 'done');
+        settled = true;
+        break;
+      } catch (e) {
+        if (attempt >= maxRetries) {
+          onStatus(word.id, 'failed', (e as Error).message);
+          settled = true;
+          break;
+        }
+        attempt += 1;
+      }
+    }
+
+    // Cancelled mid-word: leave it for the next run
+    if (!settled) {
+      onStatus(word.id, 'pending');
+    }
+  }
+};
@@ -0,0 +1,162 @@
+import type { Grade, WordItem } from '../types';
+import { normalizePos } from './search';
+import { lemmaCandidates } from './duplicates';
+
+// --- Exercise Generator ---
+
+export type ExerciseKind = 'translation' | 'synonym' | 'cloze' | 'matching';
+
+export const EXERCISE_LABELS: Record<ExerciseKind, { label: string; description: string }> = {
+  translation: { label: 'Meaning', description: 'Pick the Chinese meaning of a word' },
+  synonym: { label: 'Synonym', description: 'Pick the word that a synonym belongs to' },
+  cloze: { label: 'Cloze', description: 'Fill the word back into its example sentence' },
+  matching: { label: 'Matching', description: 'Pair words with their meanings' },
+};
+
+export type ChoiceOption = { id: string; label: string };
+
+export type ChoiceQuestion = {
+  word: WordItem; // The word being tested
+  prompt: string;
+  options: ChoiceOption[];
+  answerId: string;
+};
+
+export type MatchingRound = {
+  words: WordItem[];
+  translations: ChoiceOption[]; // Shuffled; ids are word ids
+};
+
+const OPTION_COUNT = 4;
+const MATCHING_SIZE = 5;
+
+export const shuffle = <T,>(items: T[], random = Math.random): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const splitSynonyms = (replacement: string) =>
+  replacement.split(/[,，;；]/).map(s => s.trim()).filter(Boolean);
+
+// Up to `count` other words whose label differs from the answer, preferring the same part of
+// speech so options cannot be ruled out by grammar alone
+export const pickDistractors = (
+  target: WordItem,
+  pool: WordItem[],
+  count: number,
+  label: (word: WordItem) => string,
+  random = Math.random
+): WordItem[] => {
+  const answer = label(target).toLowerCase();
+  const seen = new Set([answer]);
+  const candidates = shuffle(pool, random).filter(word => {
+    const text = label(word).toLowerCase();
+    if (word.id === target.id || !text || seen.has(text)) return false;
+    seen.add(text);
+    return true;
+  });
+
+  const pos = normalizePos(target.pos);
+  const samePos = candidates.filter(w => pos && normalizePos(w.pos) === pos);
+  const others = candidates.filter(w => !samePos.includes(w));
+  return [...samePos, ...others].slice(0, count);
+};
+
+// (1) word -> translation
+export const buildTranslationQuestions = (words: WordItem[], pool: WordItem[], random = Math.random): ChoiceQuestion[] =>
+  shuffle(words.filter(w => w.translation), random).flatMap(word => {
+    const distractors = pickDistractors(word, pool, OPTION_COUNT - 1, w => w.translation, random);
+    if (distractors.length === 0) return [];
+    return [{
+      word,
+      prompt: word.word,
+      options: shuffle([word, ...distractors], random).map(w => ({ id: w.id, label: w.translation })),
+      answerId: word.id,
+    }];
+  });
+
+// (2) synonym -> word. Distractors must not list the same synonym, or two answers would be right.
+export const buildSynonymQuestions = (words: WordItem[], pool: WordItem[], random = Math.random): ChoiceQuestion[] =>
+  shuffle(words.filter(w => splitSynonyms(w.replacement).length > 0), random).flatMap(word => {
+    const synonyms = splitSynonyms(word.replacement);
+    const synonym = synonyms[Math.floor(random() * synonyms.length)];
+    const eligible = pool.filter(w =>
+      !splitSynonyms(w.replacement).some(s => s.toLowerCase() === synonym.toLowerCase())
+    );
+    const distractors = pickDistractors(word, eligible, OPTION_COUNT - 1, w => w.word, random);
+    if (distractors.length === 0) return [];
+    return [{
+      word,
+      prompt: synonym,
+      options: shuffle([word, ...distractors], random).map(w => ({ id: w.id, label: w.word })),
+      answerId: word.id,
+    }];
+  });
+
+// (3) cloze: an example sentence with the word blanked out -> word
+
+export const BLANK = '_____';
+
+// The sentence with every occurrence of the word (inflected forms included) replaced by a blank,
+// or null when the word does not appear in it. Phrases are matched as written.
+export const blankWord = (sentence: string, headword: string): string | null => {
+  const target = headword.trim().toLowerCase();
+  if (!target) return null;
+  if (target.includes(' ')) {
+    const escaped = target.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`\\b${escaped}\\b`, 'gi');
+    return pattern.test(sentence) ? sentence.replace(pattern, BLANK) : null;
+  }
+  let found = false;
+  const blanked = sentence.replace(/\p{L}[\p{L}'’-]*/gu, token => {
+    if (!lemmaCandidates(token).includes(target)) return token;
+    found = true;
+    return BLANK;
+  });
+  return found ? blanked : null;
+};
+
+export const buildClozeQuestions = (words: WordItem[], pool: WordItem[], random = Math.random): ChoiceQuestion[] =>
+  shuffle(words, random).flatMap(word => {
+    const sentences = (word.examples || [])
+      .map(example => blankWord(example, word.word))
+      .filter((s): s is string => s !== null);
+    if (sentences.length === 0) return [];
+    const distractors = pickDistractors(word, pool, OPTION_COUNT - 1, w => w.word, random);
+    if (distractors.length === 0) return [];
+    return [{
+      word,
+      prompt: sentences[Math.floor(random() * sentences.length)],
+      options: shuffle([word, ...distractors], random).map(w => ({ id: w.id, label: w.word })),
+      answerId: word.id,
+    }];
+  });
+
+// (4) matching grids of up to MATCHING_SIZE pairs. Words sharing a translation are split into
+// different rounds so every pairing is unambiguous.
+export const buildMatchingRounds = (words: WordItem[], random = Math.random): MatchingRound[] => {
+  const rounds: WordItem[][] = [];
+  shuffle(words.filter(w => w.translation), random).forEach(word => {
+    const round = rounds.find(r =>
+      r.length < MATCHING_SIZE && !r.some(w => w.translation === word.translation)
+    );
+    if (round) round.push(word);
+    else rounds.push([word]);
+  });
+
+  return rounds
+    .filter(round => round.length > 1)
+    .map(round => ({
+      words: round,
+      translations: shuffle(round, random).map(w => ({ id: w.id, label: w.translation })),
+    }));
+};
+
+// --- Scoring ---
+
+// Exercises are recognition, so a clean answer counts as 'good' and any miss as 'again'
+export const gradeForResult = (mistakes: number): Grade => (mistakes === 0 ? 'good' : 'again');
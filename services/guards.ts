@@ -0,0 +1,7 @@
+// --- Runtime Checks ---
+// Parsed JSON (stored data, imported files, shared lists, server replies) is `unknown` until
+// it has been narrowed field by field.
+
+// A plain object whose fields can be read and checked one by one
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
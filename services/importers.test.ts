@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectImporter,
+  guessMapping,
+  looksLikeHeader,
+  mapRows,
+  parseDelimited,
+  parseTags,
+  type ImportSheets,
+  type ImportTable
+} from './importers';
+
+const cellsOf = (text: string, delimiter: string) => parseDelimited(text, delimiter).rows.map(row => row.cells);
+
+describe('parseDelimited', () => {
+  it('reads quoted cells with delimiters, quotes and line breaks', () => {
+    expect(cellsOf('abate,"to lessen, reduce","He said ""stop""\nthen left"\r\ncurb,limit,', ',')).toEqual([
+      ['abate', 'to lessen, reduce', 'He said "stop"\nthen left'],
+      ['curb', 'limit', ''],
+    ]);
+  });
+
+  it('skips blank lines but keeps the source line numbers', () => {
+    const { rows } = parseDelimited('abate\t减轻\n\n\ncurb\t抑制', '\t');
+    expect(rows.map(row => row.line)).toEqual([1, 4]);
+  });
+
+  it('reports a quote that is never closed instead of importing the rest', () => {
+    const { rows, issues } = parseDelimited('abate,ok\n"curb,never closed\nlast,row', ',');
+    expect(rows).toHaveLength(1);
+    expect(issues).toEqual([{ line: 2, message: 'Unterminated quoted field' }]);
+  });
+});
+
+describe('detectImporter', () => {
+  it.each([
+    ['[{"name":"Day 1","words":[]}]', undefined, 'json'],
+    ['#separator:tab\nabate\t减轻', undefined, 'anki'],
+    ['abate,减轻\ncurb,抑制', undefined, 'csv'],
+    ['abate\t减轻, 缓和', undefined, 'tsv'],
+    ['abate\t减轻', 'words.csv', 'csv'],
+  ])('recognises %j', (text, fileName, id) => {
+    expect(detectImporter(text, fileName).id).toBe(id);
+  });
+});
+
+describe('header and column mapping', () => {
+  it('recognises header rows in English and Chinese', () => {
+    expect(looksLikeHeader(['Word', 'Meaning', 'Example'])).toBe(true);
+    expect(looksLikeHeader(['单词', '释义'])).toBe(true);
+    expect(looksLikeHeader(['abate', '减轻'])).toBe(false);
+  });
+
+  it('maps columns by header, or by position without one', () => {
+    expect(guessMapping(3, ['Meaning', 'Word', 'Comments'])).toEqual(['translation', 'word', 'notes']);
+    expect(guessMapping(5, null)).toEqual(['word', 'pos', 'replacement', 'translation', 'ignore']);
+  });
+
+  it('builds words from mapped rows and flags rows without a word', () => {
+    const rows = [
+      { line: 1, cells: ['abate', '减轻', 'It abated. | The storm abated.', 'IELTS; verbs'] },
+      { line: 2, cells: ['', '抑制', '', ''] },
+    ];
+    const [first, second] = mapRows(rows, ['word', 'translation', 'examples', 'tags']);
+    expect(first.word).toMatchObject({
+      word: 'abate',
+      translation: '减轻',
+      examples: ['It abated.', 'The storm abated.'],
+      tags: ['IELTS', 'verbs'],
+    });
+    expect(second).toMatchObject({ word: null, error: 'Missing word' });
+    expect(mapRows(rows, ['translation'])[0].error).toBe('No column is mapped to "Word"');
+  });
+
+  it('splits Anki tags on spaces and other tags on commas', () => {
+    expect(parseTags('ielts verbs')).toEqual(['ielts', 'verbs']);
+    expect(parseTags('phrasal verbs, IELTS')).toEqual(['phrasal verbs', 'IELTS']);
+  });
+});
+
+describe('Anki export', () => {
+  it('takes the separator, columns and tags column from the header lines and strips HTML', () => {
+    const text = '#separator:comma\n#html:true\n#tags column:3\nabate,to <b>lessen</b><br>reduce,ielts verbs';
+    const result = detectImporter(text).parse(text) as ImportTable;
+    expect(result.defaultMapping).toEqual(['word', 'translation', 'tags']);
+    expect(result.rows[0]).toEqual({ line: 4, cells: ['abate', 'to lessen; reduce', 'ielts verbs'] });
+  });
+});
+
+describe('JSON import', () => {
+  it('keeps valid words and reports the rest', () => {
+    const text = JSON.stringify({ name: 'Day 1', words: [{ word: ' abate ', examples: 'not a list', srs: { ease: 2.5 } }, { translation: '抑制' }] });
+    const result = detectImporter(text).parse(text) as ImportSheets;
+    expect(result.sheets[0].name).toBe('Day 1');
+    expect(result.sheets[0].words).toHaveLength(1);
+    const [word] = result.sheets[0].words;
+    expect(word.word).toBe('abate');
+    expect(word.examples).toBeUndefined();
+    expect(word.srs.repetitions).toBe(0);
+    expect(result.issues).toEqual([{ line: 1, message: 'Sheet #1, word #2: missing "word"' }]);
+  });
+
+  it('reports invalid JSON', () => {
+    const result = detectImporter('[{oops', 'list.json').parse('[{oops') as ImportSheets;
+    expect(result.sheets).toEqual([]);
+    expect(result.issues[0].message).toMatch(/^Invalid JSON/);
+  });
+});
@@ -0,0 +1,374 @@
+import type { DaySheet, WordItem } from '../types';
+import { createSrsState } from './srs';
+import { normalizeWord } from './storage';
+import { isRecord } from './guards';
+
+// --- Import Pipeline ---
+// Text (pasted or uploaded) -> importer (detect + parse) -> column mapping -> words
+
+export type ImportField =
+  'word' | 'pos' | 'replacement' | 'translation' | 'examples' | 'collocations' | 'notes' | 'tags' | 'source' | 'ignore';
+
+export const IMPORT_FIELDS: { value: ImportField; label: string }[] = [
+  { value: 'word', label: 'Word' },
+  { value: 'pos', label: 'Part of Speech' },
+  { value: 'replacement', label: 'Synonyms' },
+  { value: 'translation', label: 'Translation' },
+  { value: 'examples', label: 'Examples' },
+  { value: 'collocations', label: 'Collocations' },
+  { value: 'notes', label: 'Notes' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'source', label: 'Source' },
+  { value: 'ignore', label: '(Ignore)' },
+];
+
+export type ImportIssue = {
+  line: number; // 1-based line in the source text
+  message: string;
+};
+
+export type ImportRow = {
+  line: number;
+  cells: string[];
+};
+
+// Output of a tabular importer, before columns are mapped to fields
+export type ImportTable = {
+  kind: 'table';
+  rows: ImportRow[];
+  header: string[] | null; // Explicit header supplied by the format itself (e.g. Anki #columns)
+  defaultMapping?: ImportField[];
+  issues: ImportIssue[];
+};
+
+// Output of an importer that already yields whole sheets
+export type ImportSheets = {
+  kind: 'sheets';
+  sheets: DaySheet[];
+  issues: ImportIssue[];
+};
+
+export type ImportResult = ImportTable | ImportSheets;
+
+export type Importer = {
+  id: string;
+  label: string;
+  detect: (text: string, fileName?: string) => boolean;
+  parse: (text: string) => ImportResult;
+};
+
+// --- Delimited text (CSV/TSV) ---
+
+// RFC 4180 style parser: quoted fields may contain delimiters, newlines and "" escapes
+export const parseDelimited = (text: string, delimiter: string): { rows: ImportRow[]; issues: ImportIssue[] } => {
+  const rows: ImportRow[] = [];
+  const issues: ImportIssue[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim() !== '')) {
+      rows.push({ line: rowStart, cells: cells.map(c => c.trim()) });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      cell = '';
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowStart = line;
+    } else {
+      cell += ch;
+    }
+  }
+
+  // A dangling quote swallows the rest of the text, so report it instead of importing it
+  if (inQuotes) {
+    issues.push({ line: rowStart, message: 'Unterminated quoted field' });
+  } else {
+    endRow();
+  }
+
+  return { rows, issues };
+};
+
+const countOutsideQuotes = (line: string, ch: string) => {
+  let count = 0;
+  let inQuotes = false;
+  for (const c of line) {
+    if (c === '"') inQuotes = !inQuotes;
+    else if (c === ch && !inQuotes) count++;
+  }
+  return count;
+};
+
+const firstLines = (text: string, n = 5) => text.split(/\r?\n/).filter(l => l.trim()).slice(0, n);
+
+// --- Header detection ---
+
+const HEADER_ALIASES: Record<Exclude<ImportField, 'ignore'>, string[]> = {
+  word: ['word', 'words', 'term', 'vocabulary', 'vocab', 'front', 'english', '单词', '词汇', '英文'],
+  pos: ['pos', 'part of speech', 'part-of-speech', 'type', 'class', '词性'],
+  replacement: ['synonyms', 'synonym', 'replacement', 'replacements', 'similar', '同义词', '替换词'],
+  translation: ['translation', 'meaning', 'definition', 'chinese', 'back', '中文', '释义', '翻译', '意思'],
+  examples: ['example', 'examples', 'sentence', 'sentences', 'example sentence', '例句'],
+  collocations: ['collocation', 'collocations', '搭配'],
+  notes: ['note', 'notes', 'comment', 'comments', 'memo', '备注', '笔记'],
+  tags: ['tag', 'tags', 'label', 'labels', '标签'],
+  source: ['source', 'from', 'book', 'reference', '来源', '出处'],
+};
+
+const matchHeader = (cell: string): ImportField | null => {
+  const key = cell.trim().toLowerCase();
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES)) {
+    if (aliases.includes(key)) return field as ImportField;
+  }
+  return null;
+};
+
+// A row is treated as a header when at least half of its non-empty cells are known column names
+export const looksLikeHeader = (cells: string[]): boolean => {
+  const filled = cells.filter(c => c.trim());
+  if (filled.length === 0) return false;
+  const matches = filled.filter(c => matchHeader(c) !== null).length;
+  return matches > 0 && matches * 2 >= filled.length;
+};
+
+const POSITIONAL_MAPPING: ImportField[] = ['word', 'pos', 'replacement', 'translation'];
+
+export const guessMapping = (columnCount: number, header: string[] | null, fallback = POSITIONAL_MAPPING): ImportField[] =>
+  Array.from({ length: columnCount }, (_, idx) => {
+    if (header) {
+      const field = matchHeader(header[idx] || '');
+      if (field) return field;
+      return 'ignore';
+    }
+    return fallback[idx] || 'ignore';
+  });
+
+// --- Importers ---
+
+const stripHtml = (value: string) =>
+  value
+    .replace(/<br\s*\/?>/gi, '; ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .trim();
+
+// Anki "Notes in Plain Text" export: tab separated, optional #key:value header lines, HTML in fields
+const ankiImporter: Importer = {
+  id: 'anki',
+  label: 'Anki export',
+  detect: (text) => /^#(separator|html|columns|notetype|deck):/m.test(text),
+  parse: (text) => {
+    const directives: Record<string, string> = {};
+    const body = text.split(/\r?\n/).map(line => {
+      const match = line.match(/^#([a-z ]+):(.*)$/i);
+      if (match) {
+        directives[match[1].toLowerCase()] = match[2].trim();
+        return ''; // Keep line numbers aligned
+      }
+      return line;
+    }).join('\n');
+
+    const separators: Record<string, string> = { tab: '\t', comma: ',', semicolon: ';', pipe: '|', space: ' ' };
+    const delimiter = separators[directives.separator?.toLowerCase()] || '\t';
+    const { rows, issues } = parseDelimited(body, delimiter);
+    const header = directives.columns ? directives.columns.split(delimiter) : null;
+
+    // "#tags column:N" marks the (1-based) column holding Anki's space separated tags
+    const defaultMapping: ImportField[] = ['word', 'translation'];
+    const tagsColumn = Number(directives['tags column']);
+    if (Number.isInteger(tagsColumn) && tagsColumn > 0) {
+      for (let col = defaultMapping.length; col < tagsColumn; col++) defaultMapping.push('ignore');
+      defaultMapping[tagsColumn - 1] = 'tags';
+    }
+
+    return {
+      kind: 'table',
+      rows: rows.map(r => ({ ...r, cells: r.cells.map(stripHtml) })),
+      header,
+      defaultMapping,
+      issues,
+    };
+  },
+};
+
+const jsonImporter: Importer = {
+  id: 'json',
+  label: 'JSON (Day sheets)',
+  detect: (text, fileName) => fileName?.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text),
+  parse: (text) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      return { kind: 'sheets', sheets: [], issues: [{ line: 1, message: `Invalid JSON: ${(e as Error).message}` }] };
+    }
+
+    // Accept a bare DaySheet too, not just an array
+    const list = Array.isArray(data) ? data : [data];
+    const issues: ImportIssue[] = [];
+    const stamp = Date.now();
+    const sheets: DaySheet[] = [];
+
+    list.forEach((raw: unknown, sheetIdx) => {
+      const sheet = isRecord(raw) ? raw : null;
+      if (!sheet || !Array.isArray(sheet.words)) {
+        issues.push({ line: 1, message: `Sheet #${sheetIdx + 1}: expected an object with a "words" array` });
+        return;
+      }
+      const words: WordItem[] = [];
+      sheet.words.forEach((w: unknown, wordIdx: number) => {
+        const fields = isRecord(w) ? w : {};
+        // Fields of the wrong type (a string of examples, half an srs state) are dropped or rebuilt
+        const word = typeof fields.word === 'string' && fields.word.trim()
+          ? normalizeWord({ ...fields, id: `imp-${stamp}-${sheetIdx}-${wordIdx}`, word: fields.word.trim() })
+          : null;
+        if (word) words.push(word);
+        else issues.push({ line: 1, message: `Sheet #${sheetIdx + 1}, word #${wordIdx + 1}: missing "word"` });
+      });
+      sheets.push({
+        id: `imported-day-${stamp}-${sheetIdx}`,
+        name: typeof sheet.name === 'string' && sheet.name.trim() ? sheet.name.trim() : '',
+        words,
+      });
+    });
+
+    return { kind: 'sheets', sheets, issues };
+  },
+};
+
+const csvImporter: Importer = {
+  id: 'csv',
+  label: 'CSV',
+  detect: (text, fileName) => {
+    if (fileName?.toLowerCase().endsWith('.csv')) return true;
+    const lines = firstLines(text);
+    return lines.length > 0 && lines.every(l => countOutsideQuotes(l, ',') > countOutsideQuotes(l, '\t'));
+  },
+  parse: (text) => {
+    const { rows, issues } = parseDelimited(text, ',');
+    return { kind: 'table', rows, header: null, issues };
+  },
+};
+
+// Spreadsheet copy/paste (the original import format)
+const tsvImporter: Importer = {
+  id: 'tsv',
+  label: 'Tab separated (Excel/Sheets)',
+  detect: () => true,
+  parse: (text) => {
+    const { rows, issues } = parseDelimited(text, '\t');
+    return { kind: 'table', rows, header: null, issues };
+  },
+};
+
+// Checked in order; the first importer whose detect() matches wins, TSV is the catch-all
+export const IMPORTERS: Importer[] = [jsonImporter, ankiImporter, csvImporter, tsvImporter];
+
+export const detectImporter = (text: string, fileName?: string): Importer =>
+  IMPORTERS.find(importer => importer.detect(text, fileName)) || tsvImporter;
+
+// --- Table -> Words ---
+
+export type WordContent = Pick<
+  WordItem,
+  'word' | 'pos' | 'replacement' | 'translation' | 'examples' | 'collocations' | 'notes' | 'tags' | 'source'
+>;
+
+// Tags are comma or semicolon separated; without either, whitespace separates them (Anki style)
+export const parseTags = (text: string): string[] => {
+  const parts = /[,，;；]/.test(text) ? text.split(/[,，;；]/) : text.split(/\s+/);
+  return [...new Set(parts.map(tag => tag.trim()).filter(Boolean))];
+};
+
+// Optional fields are only set when they have content
+export const createWordItem = (id: string, fields: Partial<WordContent>): WordItem => {
+  const examples = fields.examples?.map(e => e.trim()).filter(Boolean) || [];
+  const collocations = fields.collocations?.map(c => c.trim()).filter(Boolean) || [];
+  const tags = fields.tags?.map(t => t.trim()).filter(Boolean) || [];
+  return {
+    id,
+    word: fields.word?.trim() || '',
+    pos: fields.pos?.trim() || '',
+    replacement: fields.replacement?.trim() || '',
+    translation: fields.translation?.trim() || '',
+    learned: false,
+    srs: createSrsState(),
+    ...(examples.length > 0 && { examples }),
+    ...(collocations.length > 0 && { collocations }),
+    ...(fields.notes?.trim() && { notes: fields.notes.trim() }),
+    ...(tags.length > 0 && { tags: [...new Set(tags)] }),
+    ...(fields.source?.trim() && { source: fields.source.trim() }),
+    addedAt: Date.now(),
+  };
+};
+
+export type MappedRow = {
+  line: number;
+  cells: string[];
+  word: WordItem | null;
+  error: string | null;
+};
+
+export const mapRows = (rows: ImportRow[], mapping: ImportField[]): MappedRow[] => {
+  const stamp = Date.now();
+  if (!mapping.includes('word')) {
+    return rows.map(r => ({ ...r, word: null, error: 'No column is mapped to "Word"' }));
+  }
+  return rows.map((row, idx) => {
+    // Several columns may map to the same field
+    const cells: Partial<Record<ImportField, string[]>> = {};
+    mapping.forEach((field, col) => {
+      if (field !== 'ignore' && row.cells[col]) cells[field] = [...(cells[field] || []), row.cells[col]];
+    });
+    const text = (field: ImportField, joiner = ', ') => cells[field]?.join(joiner);
+    if (!text('word')?.trim()) {
+      return { ...row, word: null, error: 'Missing word' };
+    }
+    const word = createWordItem(`imp-${stamp}-${idx}`, {
+      word: text('word'),
+      pos: text('pos'),
+      replacement: text('replacement'),
+      translation: text('translation'),
+      // One sentence per column, or several in one cell on separate lines or split by "|"
+      examples: cells.examples?.flatMap(cell => cell.split(/\r?\n|\s+\|\s+/)),
+      collocations: cells.collocations?.flatMap(cell => cell.split(/\r?\n|\s+\|\s+/)),
+      notes: text('notes', '\n'),
+      tags: cells.tags?.flatMap(parseTags),
+      source: text('source'),
+    });
+    return { ...row, word, error: null };
+  });
+};
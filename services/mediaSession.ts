@@ -0,0 +1,98 @@
+import type { WordItem } from '../types';
+import type { PlayerState } from './player';
+
+// --- Media Session ---
+
+type MediaControls = {
+  play: () => void;
+  pause: () => void;
+  next: () => void;
+  previous: () => void;
+  stop: () => void;
+};
+
+// A short silent WAV. Speech synthesis alone does not count as media playback, so the
+// browser would neither show lock-screen controls nor keep the page alive in the background.
+const createSilentTrack = (seconds = 2, sampleRate = 8000): string => {
+  const samples = seconds * sampleRate;
+  const buffer = new ArrayBuffer(44 + samples);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) =>
+    [...text].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true); // Byte rate (8-bit mono)
+  view.setUint16(32, 1, true); // Block align
+  view.setUint16(34, 8, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples, true);
+  new Uint8Array(buffer, 44).fill(128); // 8-bit silence is the midpoint
+
+  return URL.createObjectURL(new Blob([buffer], { type: 'audio/wav' }));
+};
+
+// Connects the sequence player to lock-screen/headset controls and keeps it running in the background
+export const createMediaSessionBridge = (controls: MediaControls) => {
+  const session = 'mediaSession' in navigator ? navigator.mediaSession : null;
+  let keepAlive: HTMLAudioElement | null = null;
+
+  const getKeepAlive = () => {
+    if (!keepAlive) {
+      keepAlive = new Audio(createSilentTrack());
+      keepAlive.loop = true;
+    }
+    return keepAlive;
+  };
+
+  if (session) {
+    const handlers: [MediaSessionAction, () => void][] = [
+      ['play', controls.play],
+      ['pause', controls.pause],
+      ['nexttrack', controls.next],
+      ['previoustrack', controls.previous],
+      ['stop', controls.stop],
+    ];
+    handlers.forEach(([action, handler]) => {
+      try {
+        session.setActionHandler(action, handler);
+      } catch {
+        // Action not supported by this browser
+      }
+    });
+  }
+
+  // Call from the player's state callback: starting happens inside the user's click,
+  // which is what lets the silent track begin playing.
+  const setState = (state: PlayerState) => {
+    const audio = getKeepAlive();
+    if (state === 'playing') {
+      audio.play().catch(e => console.error("Background audio blocked:", e));
+    } else {
+      audio.pause();
+      if (state === 'idle') audio.currentTime = 0;
+    }
+
+    if (session) {
+      session.playbackState = state === 'idle' ? 'none' : state;
+      if (state === 'idle') session.metadata = null;
+    }
+  };
+
+  const setWord = (word: WordItem | null, playlistName: string) => {
+    if (!session || !word || typeof MediaMetadata === 'undefined') return;
+    session.metadata = new MediaMetadata({
+      title: word.word,
+      artist: word.translation || word.replacement,
+      album: `VocabMaster · ${playlistName}`,
+    });
+  };
+
+  return { setState, setWord };
+};
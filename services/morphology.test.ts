@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeWord, buildWordFamilies } from './morphology';
+
+const familiesOf = (words: string[]) => buildWordFamilies(words.map(word => ({ id: word, word })));
+
+describe('buildWordFamilies', () => {
+  it.each([
+    ['resilience', 'resilient'],
+    ['sedentary', 'sedentarily'],
+    ['happy', 'happiness'],
+    ['create', 'creation'],
+    ['possible', 'impossible'],
+    ['build', 'rebuild'],
+    ['supply', 'supplier'],
+  ])('links %s and %s', (a, b) => {
+    const families = familiesOf([a, b, 'meticulous']);
+    expect(families.related(a)).toEqual([b]);
+    expect(families.related(b)).toEqual([a]);
+  });
+
+  it.each([
+    ['supply', 'supple'],
+    ['hop', 'hope'],
+    ['relation', 'translation'],
+    ['content', 'tent'],
+  ])('keeps %s and %s apart', (a, b) => {
+    expect(familiesOf([a, b]).related(a)).toEqual([]);
+  });
+
+  it('lists the whole family in library order, without copies of the word itself', () => {
+    const families = familiesOf(['creative', 'create', 'creates', 'creation']);
+    expect(families.related('create')).toEqual(['creative', 'creation']);
+  });
+
+  it('hands back the same index while the words are unchanged', () => {
+    const words = [{ id: 'a', word: 'resilient' }, { id: 'b', word: 'resilience' }];
+    const families = buildWordFamilies(words);
+    expect(buildWordFamilies(words.map(entry => ({ ...entry })))).toBe(families);
+    expect(buildWordFamilies([...words, { id: 'c', word: 'resiliently' }])).not.toBe(families);
+  });
+});
+
+describe('analyzeWord', () => {
+  it('splits off suffixes with their meanings', () => {
+    const parts = analyzeWord('sedentarily');
+    expect(parts?.root).toBe('sedent');
+    expect(parts?.suffixes.map(suffix => suffix.form)).toEqual(['ary', 'ly']);
+    expect(parts?.classicalRoots.map(root => root.form)).toEqual(['sed']);
+  });
+
+  it('only splits an ambiguous prefix when the rest is a known stem', () => {
+    expect(analyzeWord('resilience')?.prefixes).toEqual([]);
+    expect(analyzeWord('rebuild', key => key === 'build')?.prefixes.map(prefix => prefix.form)).toEqual(['re']);
+  });
+
+  it('leaves phrases alone', () => {
+    expect(analyzeWord('take off')).toBeNull();
+  });
+});
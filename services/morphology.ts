@@ -0,0 +1,362 @@
+import { lemmaCandidates } from './duplicates';
+
+// --- Word Families ---
+// Links words built on the same stem ("resilience" / "resilient", "sedentary" / "sedentarily")
+// with a small rule-based stemmer. Everything runs locally from the affix tables below.
+
+export type Affix = {
+  form: string;
+  meaning: string;
+  pos?: string; // Part of speech the suffix makes
+};
+
+export type ClassicalRoot = {
+  form: string;
+  meaning: string;
+  origin: 'Latin' | 'Greek';
+};
+
+// Prefixes that read as prefixes almost wherever they appear
+const CLEAR_PREFIXES: Affix[] = [
+  { form: 'counter', meaning: 'against' },
+  { form: 'pseudo', meaning: 'false' },
+  { form: 'inter', meaning: 'between' },
+  { form: 'trans', meaning: 'across' },
+  { form: 'super', meaning: 'above, beyond' },
+  { form: 'multi', meaning: 'many' },
+  { form: 'micro', meaning: 'small' },
+  { form: 'hyper', meaning: 'over, excessive' },
+  { form: 'under', meaning: 'below, too little' },
+  { form: 'anti', meaning: 'against' },
+  { form: 'semi', meaning: 'half' },
+  { form: 'over', meaning: 'too much, above' },
+  { form: 'fore', meaning: 'before' },
+  { form: 'post', meaning: 'after' },
+  { form: 'auto', meaning: 'self' },
+  { form: 'non', meaning: 'not' },
+  { form: 'dis', meaning: 'not, opposite of' },
+  { form: 'mis', meaning: 'wrongly' },
+  { form: 'mal', meaning: 'badly' },
+  { form: 'un', meaning: 'not, opposite of' },
+];
+
+// Prefixes that are also ordinary word beginnings ("resilience" is not re- + "silience"); they are
+// only taken as prefixes when the rest of the word is a stem found elsewhere in the library
+const AMBIGUOUS_PREFIXES: Affix[] = [
+  { form: 'pre', meaning: 'before' },
+  { form: 'pro', meaning: 'forward' },
+  { form: 'con', meaning: 'together, with' },
+  { form: 'com', meaning: 'together, with' },
+  { form: 'sub', meaning: 'under' },
+  { form: 're', meaning: 'again, back' },
+  { form: 'de', meaning: 'down, away, undo' },
+  { form: 'ex', meaning: 'out, former' },
+  { form: 'en', meaning: 'make, put into' },
+  { form: 'em', meaning: 'make, put into' },
+  { form: 'in', meaning: 'not; into' },
+  { form: 'im', meaning: 'not; into' },
+  { form: 'il', meaning: 'not' },
+  { form: 'ir', meaning: 'not' },
+  { form: 'co', meaning: 'together' },
+];
+
+// Longest first, so "-ation" is tried before "-ion"
+const SUFFIXES: Affix[] = [
+  { form: 'ification', meaning: 'the act of making', pos: 'n.' },
+  { form: 'ibility', meaning: 'the quality of being able to', pos: 'n.' },
+  { form: 'ability', meaning: 'the quality of being able to', pos: 'n.' },
+  { form: 'ation', meaning: 'the act or result of', pos: 'n.' },
+  { form: 'ition', meaning: 'the act or result of', pos: 'n.' },
+  { form: 'ness', meaning: 'the state or quality of', pos: 'n.' },
+  { form: 'ment', meaning: 'the action or result of', pos: 'n.' },
+  { form: 'ance', meaning: 'the state or action of', pos: 'n.' },
+  { form: 'ence', meaning: 'the state or action of', pos: 'n.' },
+  { form: 'ancy', meaning: 'the state of', pos: 'n.' },
+  { form: 'ency', meaning: 'the state of', pos: 'n.' },
+  { form: 'ship', meaning: 'the state or position of', pos: 'n.' },
+  { form: 'hood', meaning: 'the state or time of', pos: 'n.' },
+  { form: 'able', meaning: 'able to be', pos: 'adj.' },
+  { form: 'ible', meaning: 'able to be', pos: 'adj.' },
+  { form: 'less', meaning: 'without', pos: 'adj.' },
+  { form: 'ical', meaning: 'relating to', pos: 'adj.' },
+  { form: 'ious', meaning: 'full of, having', pos: 'adj.' },
+  { form: 'eous', meaning: 'full of, having', pos: 'adj.' },
+  { form: 'ative', meaning: 'tending to', pos: 'adj.' },
+  { form: 'ize', meaning: 'to make, to become', pos: 'v.' },
+  { form: 'ise', meaning: 'to make, to become', pos: 'v.' },
+  { form: 'ify', meaning: 'to make', pos: 'v.' },
+  { form: 'ate', meaning: 'to make; having', pos: 'v./adj.' },
+  { form: 'ion', meaning: 'the act or result of', pos: 'n.' },
+  { form: 'ity', meaning: 'the state or quality of', pos: 'n.' },
+  { form: 'ism', meaning: 'a belief or practice', pos: 'n.' },
+  { form: 'ist', meaning: 'a person who', pos: 'n.' },
+  { form: 'dom', meaning: 'the state or realm of', pos: 'n.' },
+  { form: 'ful', meaning: 'full of', pos: 'adj.' },
+  { form: 'ous', meaning: 'full of, having', pos: 'adj.' },
+  { form: 'ive', meaning: 'tending to', pos: 'adj.' },
+  { form: 'ant', meaning: 'doing, being', pos: 'adj./n.' },
+  { form: 'ent', meaning: 'doing, being', pos: 'adj./n.' },
+  { form: 'ary', meaning: 'relating to', pos: 'adj./n.' },
+  { form: 'ory', meaning: 'relating to', pos: 'adj./n.' },
+  { form: 'al', meaning: 'relating to', pos: 'adj.' },
+  { form: 'ic', meaning: 'relating to', pos: 'adj.' },
+  { form: 'er', meaning: 'a person or thing that', pos: 'n.' },
+  { form: 'or', meaning: 'a person or thing that', pos: 'n.' },
+  { form: 'ly', meaning: 'in a … way', pos: 'adv.' },
+];
+
+// A few common classical roots, to show where a stem comes from
+const CLASSICAL_ROOTS: ClassicalRoot[] = [
+  { form: 'spect', meaning: 'look', origin: 'Latin' },
+  { form: 'struct', meaning: 'build', origin: 'Latin' },
+  { form: 'script', meaning: 'write', origin: 'Latin' },
+  { form: 'scrib', meaning: 'write', origin: 'Latin' },
+  { form: 'tract', meaning: 'pull, draw', origin: 'Latin' },
+  { form: 'rupt', meaning: 'break', origin: 'Latin' },
+  { form: 'dict', meaning: 'say', origin: 'Latin' },
+  { form: 'duct', meaning: 'lead', origin: 'Latin' },
+  { form: 'duc', meaning: 'lead', origin: 'Latin' },
+  { form: 'ject', meaning: 'throw', origin: 'Latin' },
+  { form: 'port', meaning: 'carry', origin: 'Latin' },
+  { form: 'miss', meaning: 'send', origin: 'Latin' },
+  { form: 'mit', meaning: 'send', origin: 'Latin' },
+  { form: 'vers', meaning: 'turn', origin: 'Latin' },
+  { form: 'vert', meaning: 'turn', origin: 'Latin' },
+  { form: 'vis', meaning: 'see', origin: 'Latin' },
+  { form: 'vid', meaning: 'see', origin: 'Latin' },
+  { form: 'aud', meaning: 'hear', origin: 'Latin' },
+  { form: 'cred', meaning: 'believe', origin: 'Latin' },
+  { form: 'fid', meaning: 'trust', origin: 'Latin' },
+  { form: 'ven', meaning: 'come', origin: 'Latin' },
+  { form: 'voc', meaning: 'call, voice', origin: 'Latin' },
+  { form: 'sed', meaning: 'sit', origin: 'Latin' },
+  { form: 'sens', meaning: 'feel', origin: 'Latin' },
+  { form: 'sent', meaning: 'feel', origin: 'Latin' },
+  { form: 'cogn', meaning: 'know', origin: 'Latin' },
+  { form: 'bene', meaning: 'good, well', origin: 'Latin' },
+  { form: 'mal', meaning: 'bad', origin: 'Latin' },
+  { form: 'grat', meaning: 'pleasing, thanks', origin: 'Latin' },
+  { form: 'loqu', meaning: 'speak', origin: 'Latin' },
+  { form: 'magn', meaning: 'great', origin: 'Latin' },
+  { form: 'graph', meaning: 'write', origin: 'Greek' },
+  { form: 'phon', meaning: 'sound', origin: 'Greek' },
+  { form: 'chron', meaning: 'time', origin: 'Greek' },
+  { form: 'path', meaning: 'feeling, suffering', origin: 'Greek' },
+  { form: 'log', meaning: 'word, study', origin: 'Greek' },
+  { form: 'bio', meaning: 'life', origin: 'Greek' },
+  { form: 'geo', meaning: 'earth', origin: 'Greek' },
+  { form: 'psych', meaning: 'mind', origin: 'Greek' },
+  { form: 'morph', meaning: 'form', origin: 'Greek' },
+];
+
+// Shortest stem left after taking a suffix or prefix off; shorter ones are mostly coincidences
+const MIN_STEM_LENGTH = 4;
+// One- and two-letter suffixes end many plain words ("supply", "number"), so they need more left over
+const MIN_STEM_BEFORE_SHORT_SUFFIX = 5;
+// Ambiguous prefixes need a longer remainder ("ex" + "press", not "con" + "tent")
+const MIN_AMBIGUOUS_REMAINDER = 5;
+const MAX_SUFFIXES = 3;
+
+type StemPath = {
+  stem: string;
+  suffixes: Affix[]; // In reading order
+};
+
+const isVowel = (char: string) => 'aeiou'.includes(char);
+
+// Stems a suffix could have been added to, undoing its spelling changes: happi(ness) -> happy,
+// forgett(able) -> forget, possib(ly) -> possible, creativ(ity) -> creative
+const restoreStems = (stem: string, suffix: string): string[] => {
+  if (suffix === 'ly' && stem.endsWith('b')) return [`${stem}le`];
+  if (stem.endsWith('i') && !isVowel(suffix[0])) return [`${stem.slice(0, -1)}y`];
+  if (stem.endsWith('i')) return [stem, `${stem.slice(0, -1)}y`];
+  if (!isVowel(suffix[0])) return [stem];
+  if (/([b-df-hj-kmnp-rtv-z])\1$/.test(stem)) return [stem.slice(0, -1)];
+  // A final e is dropped before a vowel; "-ion" after "-ate" is read as "-ation" instead
+  return stem.endsWith('e') || suffix === 'ion' ? [stem] : [stem, `${stem}e`];
+};
+
+// Every way of peeling suffixes off a word, from the word itself to the barest stem
+const suffixPaths = (word: string): StemPath[] => {
+  const paths: StemPath[] = [{ stem: word, suffixes: [] }];
+  const peel = (path: StemPath) => {
+    if (path.suffixes.length >= MAX_SUFFIXES) return;
+    SUFFIXES.forEach(suffix => {
+      if (!path.stem.endsWith(suffix.form)) return;
+      const bare = path.stem.slice(0, -suffix.form.length);
+      const minLength = suffix.form.length <= 2 ? MIN_STEM_BEFORE_SHORT_SUFFIX : MIN_STEM_LENGTH;
+      if (bare.length < minLength) return;
+      restoreStems(bare, suffix.form).forEach(stem => {
+        const next = { stem, suffixes: [suffix, ...path.suffixes] };
+        paths.push(next);
+        peel(next);
+      });
+    });
+  };
+  peel(paths[0]);
+  return paths;
+};
+
+// A final e comes and goes within a family (create, creative); y -> i is undone by restoreStems
+const toKey = (stem: string) => stem.replace(/e$/, '');
+
+// Single words only; phrases and anything with digits are left alone
+const isAnalyzable = (word: string) => /^[a-z][a-z'-]*$/.test(word);
+
+const PREFIXES = [
+  ...CLEAR_PREFIXES.map(prefix => ({ prefix, minRemainder: MIN_STEM_LENGTH, isClear: true })),
+  ...AMBIGUOUS_PREFIXES.map(prefix => ({ prefix, minRemainder: MIN_AMBIGUOUS_REMAINDER, isClear: false })),
+];
+
+type WordKeys = {
+  lemmas: Set<string>; // Base forms of the word itself
+  own: string[]; // The word (and its base forms) as they are
+  stems: string[]; // What is left after taking suffixes off
+  remainders: string[]; // The word or those stems with a prefix taken off as well
+};
+
+const keyCache = new Map<string, WordKeys>();
+
+// Every stem a word could share with a relative, as family keys
+const wordKeys = (word: string): WordKeys => {
+  const cached = keyCache.get(word);
+  if (cached) return cached;
+
+  const lemmas = new Set(lemmaCandidates(word));
+  const own = new Set<string>();
+  const stems = new Set<string>();
+  const remainders = new Set<string>();
+  [...lemmas].filter(isAnalyzable).forEach(lemma => {
+    suffixPaths(lemma).forEach(({ stem, suffixes }) => {
+      (suffixes.length ? stems : own).add(toKey(stem));
+      PREFIXES.forEach(({ prefix, minRemainder }) => {
+        const rest = stem.slice(prefix.form.length);
+        if (stem.startsWith(prefix.form) && rest.length >= minRemainder) remainders.add(toKey(rest));
+      });
+    });
+  });
+  const isLongEnough = (key: string) => key.length >= MIN_STEM_LENGTH;
+  const keys = { lemmas, own: [...own].filter(isLongEnough), stems: [...stems].filter(isLongEnough), remainders: [...remainders] };
+  keyCache.set(word, keys);
+  return keys;
+};
+
+// --- Word Parts ---
+
+export type WordParts = {
+  prefixes: Affix[];
+  root: string;
+  suffixes: Affix[]; // In reading order
+  classicalRoots: ClassicalRoot[]; // Found inside the root
+};
+
+const deepestPath = (word: string) =>
+  suffixPaths(word).reduce((best, path) => path.suffixes.length > best.suffixes.length ? path : best);
+
+// Splits a word into prefix, root and suffixes, taking the deepest analysis. Ambiguous
+// prefixes are only split off when `isKnownStem` confirms the rest (see buildWordFamilies).
+export const analyzeWord = (word: string, isKnownStem: (key: string) => boolean = () => false): WordParts | null => {
+  // The word itself unless a base form analyses further ("meticulous" stays, "abilities" -> "ability")
+  const analyses = lemmaCandidates(word).filter(isAnalyzable).map(lemma => ({ lemma, ...deepestPath(lemma) }));
+  if (analyses.length === 0) return null;
+  const deepest = analyses.reduce((best, path) => path.suffixes.length > best.suffixes.length ? path : best);
+
+  let root = deepest.stem;
+  // An ambiguous prefix is confirmed by the rest of the root or of the whole word ("im" + "possible")
+  const isConfirmed = (rest: string, minRemainder: number) => rest.length >= minRemainder && isKnownStem(toKey(rest));
+  const match = PREFIXES.find(({ prefix, minRemainder, isClear }) => {
+    if (!root.startsWith(prefix.form)) return false;
+    const rest = root.slice(prefix.form.length);
+    if (isClear) return rest.length >= minRemainder;
+    return isConfirmed(rest, minRemainder) || isConfirmed(deepest.lemma.slice(prefix.form.length), minRemainder);
+  });
+  if (match) root = root.slice(match.prefix.form.length);
+
+  // Three-letter roots only count at the start of the root ("sed" in "sedent", not in "used")
+  const found = CLASSICAL_ROOTS.filter(r => r.form.length > 3 ? root.includes(r.form) : root.startsWith(r.form));
+  // The longer of two overlapping forms wins ("duct" over "duc")
+  const classicalRoots = found.filter(r => !found.some(other => other !== r && other.form.includes(r.form)));
+
+  return { prefixes: match ? [match.prefix] : [], root, suffixes: deepest.suffixes, classicalRoots };
+};
+
+// --- Library Index ---
+
+export type WordEntry = {
+  id: string;
+  word: string;
+};
+
+export type WordFamilies = {
+  related: (wordId: string) => string[]; // Ids of other words of the same family, in library order
+  parts: (word: string) => WordParts | null; // analyzeWord against the library's stems
+};
+
+let lastBuild: { words: WordEntry[]; families: WordFamilies } | null = null;
+
+const isSameText = (a: WordEntry[], b: WordEntry[]) =>
+  a.length === b.length && a.every((entry, i) => entry.id === b[i].id && entry.word === b[i].word);
+
+// Two words are related when they share a stem once a suffix is taken off at least one of them
+// ("resilience" / "resilient"), or when one is the other with a prefix ("express" / "press"). Words that merely start with the same letters as a prefix never
+// match each other that way, so "relation" does not join "translation".
+// Only the words' text matters: the last index is handed back while ids and words are unchanged,
+// so progress changes keep it. Results are worked out on first use and cached.
+export const buildWordFamilies = (words: WordEntry[]): WordFamilies => {
+  if (lastBuild && isSameText(lastBuild.words, words)) return lastBuild.families;
+
+  const byOwn = new Map<string, number[]>();
+  const byStem = new Map<string, number[]>();
+  const byRemainder = new Map<string, number[]>();
+  const keysOf: WordKeys[] = [];
+  const indexById = new Map<string, number>();
+
+  const add = (map: Map<string, number[]>, key: string, index: number) => {
+    const list = map.get(key);
+    if (list) list.push(index);
+    else map.set(key, [index]);
+  };
+  words.forEach(({ id, word }, index) => {
+    indexById.set(id, index);
+    keysOf.push(wordKeys(word.trim().toLowerCase()));
+    keysOf[index].own.forEach(key => add(byOwn, key, index));
+    keysOf[index].stems.forEach(key => add(byStem, key, index));
+    keysOf[index].remainders.forEach(key => add(byRemainder, key, index));
+  });
+
+  const relatedCache = new Map<string, string[]>();
+  const related = (wordId: string) => {
+    const index = indexById.get(wordId);
+    if (index === undefined) return [];
+    const cached = relatedCache.get(wordId);
+    if (cached) return cached;
+
+    const { lemmas, own, stems, remainders } = keysOf[index];
+    const matches = new Set<number>();
+    const collect = (map: Map<string, number[]>, keys: string[]) =>
+      keys.forEach(key => map.get(key)?.forEach(i => matches.add(i)));
+    // At least one side has a suffix or prefix taken off
+    collect(byStem, [...own, ...stems, ...remainders]);
+    collect(byOwn, [...stems, ...remainders]);
+    collect(byRemainder, [...own, ...stems]);
+    // The same word filed twice is a duplicate, not a relative
+    const result = [...matches]
+      .filter(i => i !== index && ![...keysOf[i].lemmas].some(lemma => lemmas.has(lemma)))
+      .sort((a, b) => a - b)
+      .map(i => words[i].id);
+    relatedCache.set(wordId, result);
+    return result;
+  };
+
+  // Some library word has this stem without a prefix
+  const isKnownStem = (key: string) => byOwn.has(key) || byStem.has(key);
+  const partsCache = new Map<string, WordParts | null>();
+  const parts = (word: string) => {
+    if (!partsCache.has(word)) partsCache.set(word, analyzeWord(word, isKnownStem));
+    return partsCache.get(word)!;
+  };
+
+  const families = { related, parts };
+  lastBuild = { words: words.map(({ id, word }) => ({ id, word })), families };
+  return families;
+};
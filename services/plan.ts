@@ -0,0 +1,89 @@
+import type { DaySheet, WordItem } from '../types';
+import { addDays, daysBetween, todayKey } from './srs';
+import { DEFAULT_PROFILE_ID } from './profiles';
+
+// --- Study Plans ---
+// A plan splits a long list into dated days of N new words. Each planned day also revisits the
+// words introduced on earlier days at growing gaps, following the forgetting curve.
+
+// Days after introduction on which a plan day's words come back for review
+export const REVIEW_OFFSETS = [1, 2, 4, 7, 15];
+
+export type PlanOptions = {
+  wordsPerDay: number;
+  startDate: string; // YYYY-MM-DD
+  profileId: string; // Profile the plan is made for
+};
+
+// Dated, unnamed sheets (the app assigns the usual "Day N" names)
+export const generatePlan = (words: WordItem[], { wordsPerDay, startDate, profileId }: PlanOptions): DaySheet[] => {
+  const perDay = Math.max(1, Math.floor(wordsPerDay));
+  const planId = `plan-${Date.now()}`;
+  const sheets: DaySheet[] = [];
+  for (let i = 0; i * perDay < words.length; i++) {
+    sheets.push({
+      id: `${planId}-${i + 1}`,
+      name: '',
+      words: words.slice(i * perDay, (i + 1) * perDay),
+      mistakes: [],
+      planId,
+      date: addDays(startDate, i),
+      planOwner: profileId,
+    });
+  }
+  return sheets;
+};
+
+export const isPlanned = (sheet: DaySheet): sheet is DaySheet & { planId: string; date: string } =>
+  typeof sheet.planId === 'string' && typeof sheet.date === 'string';
+
+// Review words for a planned day: the new words of its earlier plan days that fall on a review offset
+export const getPlanReviews = (sheets: DaySheet[], sheet: DaySheet): { word: WordItem; sheetName: string }[] => {
+  if (!isPlanned(sheet)) return [];
+  const reviewDates = new Set(REVIEW_OFFSETS.map(offset => addDays(sheet.date, -offset)));
+  return sheets
+    .filter(other => other.planId === sheet.planId && other.id !== sheet.id && reviewDates.has(other.date!))
+    .flatMap(other => other.words.map(word => ({ word, sheetName: other.name })));
+};
+
+// A day counts as studied once any of its new words has been reviewed
+const isStarted = (sheet: DaySheet) => sheet.words.some(w => w.srs.history.length > 0);
+
+// Plans made before profiles existed belong to the first profile
+const planOwner = (sheet: DaySheet) => sheet.planOwner ?? DEFAULT_PROFILE_ID;
+
+// Missed days move forward: the first past plan day nobody studied becomes today, and every
+// unstudied day after it shifts by the same amount. Returns null when nothing needs to move.
+// Plan dates are shared by every profile, so only the plan's owner moves them; judged by another
+// profile's progress every day would look missed.
+export const reschedulePlans = (sheets: DaySheet[], profileId: string, today = todayKey()): DaySheet[] | null => {
+  const shifts = new Map<string, number>(); // Sheet id -> days to move
+
+  const planIds = new Set(sheets.filter(s => isPlanned(s) && planOwner(s) === profileId).map(sheet => sheet.planId!));
+  planIds.forEach(planId => {
+    const days = sheets
+      .filter((s): s is DaySheet & { planId: string; date: string } => isPlanned(s) && s.planId === planId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const missed = days.find(day => day.date < today && !isStarted(day));
+    if (!missed) return;
+    const delta = daysBetween(missed.date, today);
+    days
+      .filter(day => day.date >= missed.date && !isStarted(day))
+      .forEach(day => shifts.set(day.id, delta));
+  });
+
+  if (shifts.size === 0) return null;
+  return sheets.map(sheet => {
+    const delta = shifts.get(sheet.id);
+    return delta ? { ...sheet, date: addDays(sheet.date!, delta) } : sheet;
+  });
+};
+
+export const formatPlanDate = (date: string, today = todayKey()): string => {
+  const diff = daysBetween(today, date);
+  if (diff === 0) return 'Today';
+  if (diff === 1) return 'Tomorrow';
+  if (diff === -1) return 'Yesterday';
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { month: 'short', day: 'numeric', weekday: 'short' });
+};
@@ -0,0 +1,270 @@
+import type { WordItem } from '../types';
+import { speakText } from './speech';
+import { isRecord } from './guards';
+import { profileKey } from './profiles';
+
+// --- Playback Settings ---
+
+export type PlaybackParts = {
+  word: boolean;
+  spelling: boolean; // Letter by letter, e.g. "r, e, s, i, ..."
+  synonyms: boolean;
+  translation: boolean; // Chinese meaning, read with a zh-CN voice
+};
+
+export type PlaybackSettings = {
+  voiceURI: string | null; // English voice, null for the browser default
+  zhVoiceURI: string | null; // Chinese voice for translations
+  rate: number;
+  pitch: number;
+  parts: PlaybackParts;
+  repeat: number; // Times each word is read before moving on
+  gapMs: number; // Pause between words
+  loop: boolean;
+  unlearnedOnly: boolean;
+};
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  voiceURI: null,
+  zhVoiceURI: null,
+  rate: 0.85,
+  pitch: 1,
+  parts: { word: true, spelling: false, synonyms: true, translation: false },
+  repeat: 1,
+  gapMs: 800,
+  loop: false,
+  unlearnedOnly: false,
+};
+
+const SETTINGS_STORAGE_KEY = 'vocab_master_playback';
+
+export const loadPlaybackSettings = (profileId: string): PlaybackSettings => {
+  try {
+    const saved = localStorage.getItem(profileKey(SETTINGS_STORAGE_KEY, profileId));
+    if (!saved) return DEFAULT_PLAYBACK_SETTINGS;
+    const parsed: unknown = JSON.parse(saved);
+    if (!isRecord(parsed)) return DEFAULT_PLAYBACK_SETTINGS;
+    const defaults = DEFAULT_PLAYBACK_SETTINGS;
+    const parts = isRecord(parsed.parts) ? parsed.parts : {};
+    const voice = (value: unknown) => (typeof value === 'string' ? value : null);
+    const number = (value: unknown, fallback: number) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+    const flag = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+    return {
+      voiceURI: voice(parsed.voiceURI),
+      zhVoiceURI: voice(parsed.zhVoiceURI),
+      rate: number(parsed.rate, defaults.rate),
+      pitch: number(parsed.pitch, defaults.pitch),
+      parts: {
+        word: flag(parts.word, defaults.parts.word),
+        spelling: flag(parts.spelling, defaults.parts.spelling),
+        synonyms: flag(parts.synonyms, defaults.parts.synonyms),
+        translation: flag(parts.translation, defaults.parts.translation),
+      },
+      repeat: number(parsed.repeat, defaults.repeat),
+      gapMs: number(parsed.gapMs, defaults.gapMs),
+      loop: flag(parsed.loop, defaults.loop),
+      unlearnedOnly: flag(parsed.unlearnedOnly, defaults.unlearnedOnly),
+    };
+  } catch (e) {
+    console.error("Failed to load playback settings:", e);
+    return DEFAULT_PLAYBACK_SETTINGS;
+  }
+};
+
+export const savePlaybackSettings = (settings: PlaybackSettings, profileId: string) => {
+  try {
+    localStorage.setItem(profileKey(SETTINGS_STORAGE_KEY, profileId), JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save playback settings:", e);
+  }
+};
+
+// --- Resume Positions ---
+
+// Last word reached per playlist (a sheet id, or 'due' for today's queue), so listening can resume
+export type PlaybackPositions = Record<string, string>;
+
+const POSITIONS_STORAGE_KEY = 'vocab_master_playback_positions';
+
+export const loadPlaybackPositions = (profileId: string): PlaybackPositions => {
+  try {
+    const saved = localStorage.getItem(profileKey(POSITIONS_STORAGE_KEY, profileId));
+    const parsed: unknown = saved ? JSON.parse(saved) : {};
+    if (!isRecord(parsed)) return {};
+    return Object.fromEntries(Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+  } catch (e) {
+    console.error("Failed to load playback positions:", e);
+    return {};
+  }
+};
+
+export const savePlaybackPositions = (positions: PlaybackPositions, profileId: string) => {
+  try {
+    localStorage.setItem(profileKey(POSITIONS_STORAGE_KEY, profileId), JSON.stringify(positions));
+  } catch (e) {
+    console.error("Failed to save playback positions:", e);
+  }
+};
+
+// Index to resume from, or 0 when the saved word is no longer in the list
+export const findResumeIndex = (words: WordItem[], wordId: string | undefined): number => {
+  const index = wordId ? words.findIndex(w => w.id === wordId) : -1;
+  return Math.max(0, index);
+};
+
+// --- Utterances ---
+
+type Segment = { text: string; lang: string; voiceURI: string | null };
+
+// What gets read for one word, in order
+export const buildSegments = (word: WordItem, settings: PlaybackSettings): Segment[] => {
+  const en = (text: string): Segment => ({ text, lang: 'en-US', voiceURI: settings.voiceURI });
+  const segments: Segment[] = [];
+  const { parts } = settings;
+
+  if (parts.word) segments.push(en(`${word.word}.`));
+  if (parts.spelling) segments.push(en([...word.word.replace(/\s+/g, '')].join(', ') + '.'));
+  if (parts.synonyms && word.replacement) segments.push(en(word.replacement));
+  if (parts.translation && word.translation) {
+    segments.push({ text: word.translation, lang: 'zh-CN', voiceURI: settings.zhVoiceURI });
+  }
+  return segments;
+};
+
+// --- Sequence Player ---
+
+export type PlayerState = 'idle' | 'playing' | 'paused';
+
+type PlayerCallbacks = {
+  onWordChange: (word: WordItem | null, index: number) => void;
+  onStateChange: (state: PlayerState) => void;
+  onComplete?: () => void; // Reached the end of the list on its own (not stopped)
+};
+
+export type SequencePlayer = ReturnType<typeof createSequencePlayer>;
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// Reads a list of words one after another. Pausing cancels the current utterance and
+// resuming starts that word again, which behaves the same on every browser
+// (speechSynthesis.pause() is unreliable on mobile).
+export const createSequencePlayer = ({ onWordChange, onStateChange, onComplete }: PlayerCallbacks) => {
+  let queue: WordItem[] = [];
+  let index = 0;
+  let settings = DEFAULT_PLAYBACK_SETTINGS;
+  let state: PlayerState = 'idle';
+  // Bumped on every stop/skip/pause so a loop that is still awaiting speech knows to exit
+  let runId = 0;
+
+  const setState = (next: PlayerState) => {
+    state = next;
+    onStateChange(next);
+  };
+
+  const readWord = async (word: WordItem, token: number) => {
+    for (let r = 0; r < settings.repeat; r++) {
+      for (const segment of buildSegments(word, settings)) {
+        if (token !== runId) return;
+        await speakText(segment.text, {
+          lang: segment.lang,
+          voiceURI: segment.voiceURI,
+          rate: settings.rate,
+          pitch: settings.pitch,
+        });
+      }
+      // Shorter breather between repeats of the same word
+      if (r < settings.repeat - 1 && token === runId) await sleep(settings.gapMs / 2);
+    }
+  };
+
+  const loop = async (token: number) => {
+    while (token === runId && index < queue.length) {
+      const word = queue[index];
+      onWordChange(word, index);
+
+      await readWord(word, token);
+      if (token !== runId) return;
+
+      // Small pause between words for natural flow
+      await sleep(settings.gapMs);
+      if (token !== runId) return;
+
+      index += 1;
+      if (index >= queue.length && settings.loop) index = 0;
+    }
+
+    if (token === runId) {
+      index = 0;
+      setState('idle');
+      onWordChange(null, -1);
+      onComplete?.();
+    }
+  };
+
+  const startLoop = () => {
+    const token = ++runId;
+    window.speechSynthesis.cancel();
+    setState('playing');
+    loop(token);
+  };
+
+  const interrupt = () => {
+    runId++;
+    window.speechSynthesis.cancel();
+  };
+
+  const jumpTo = (nextIndex: number) => {
+    if (state === 'idle' || queue.length === 0) return;
+    if (nextIndex >= queue.length) {
+      if (!settings.loop) return stop();
+      nextIndex = 0;
+    }
+    if (nextIndex < 0) nextIndex = settings.loop ? queue.length - 1 : 0;
+
+    index = nextIndex;
+    if (state === 'paused') {
+      onWordChange(queue[index], index);
+    } else {
+      startLoop();
+    }
+  };
+
+  const start = (words: WordItem[], startIndex = 0) => {
+    if (words.length === 0) return;
+    queue = words;
+    index = Math.min(Math.max(0, startIndex), words.length - 1);
+    startLoop();
+  };
+
+  const pause = () => {
+    if (state !== 'playing') return;
+    interrupt();
+    setState('paused');
+  };
+
+  const resume = () => {
+    if (state !== 'paused') return;
+    startLoop();
+  };
+
+  const stop = () => {
+    interrupt();
+    index = 0;
+    if (state !== 'idle') setState('idle');
+    onWordChange(null, -1);
+  };
+
+  return {
+    start,
+    pause,
+    resume,
+    stop,
+    next: () => jumpTo(index + 1),
+    previous: () => jumpTo(index - 1),
+    setSettings: (next: PlaybackSettings) => {
+      settings = next;
+    },
+    getState: () => state,
+    getIndex: () => index,
+  };
+};
@@ -0,0 +1,143 @@
+import type { DaySheet, SrsState } from '../types';
+import { createSrsState } from './srs';
+import { isRecord } from './guards';
+
+// --- Profiles ---
+// Several people can learn on one device. The word lists are stored once for everybody; what
+// each person has learned (learned flags, scheduling, dictation mistakes), their study events
+// and their settings are stored per profile.
+
+export type Profile = {
+  id: string;
+  name: string;
+  color: string; // Avatar colour, one of PROFILE_COLORS
+};
+
+// The first profile owns the data from before profiles existed and keeps its unscoped keys
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const PROFILE_COLORS = ['indigo', 'emerald', 'amber', 'rose', 'sky', 'violet'] as const;
+
+// Storage key of a per-profile setting or record
+export const profileKey = (key: string, profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+
+export const profileInitial = (profile: Profile) => profile.name.trim().charAt(0).toUpperCase() || '?';
+
+// --- Profile List ---
+
+export type ProfileList = {
+  profiles: Profile[];
+  activeId: string;
+};
+
+const PROFILES_STORAGE_KEY = 'vocab_master_profiles';
+
+const DEFAULT_PROFILE_LIST: ProfileList = {
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Me', color: PROFILE_COLORS[0] }],
+  activeId: DEFAULT_PROFILE_ID,
+};
+
+export const loadProfiles = (): ProfileList => {
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (!saved) return DEFAULT_PROFILE_LIST;
+    const parsed: unknown = JSON.parse(saved);
+    if (!isRecord(parsed) || !Array.isArray(parsed.profiles)) return DEFAULT_PROFILE_LIST;
+    const profiles: Profile[] = parsed.profiles.flatMap((p: unknown) =>
+      isRecord(p) && typeof p.id === 'string' && typeof p.name === 'string'
+        ? [{ id: p.id, name: p.name, color: PROFILE_COLORS.find(color => color === p.color) ?? PROFILE_COLORS[0] }]
+        : []);
+    if (profiles.length === 0) return DEFAULT_PROFILE_LIST;
+    const active = profiles.find(p => p.id === parsed.activeId) || profiles[0];
+    return { profiles, activeId: active.id };
+  } catch (e) {
+    console.error("Failed to load profiles:", e);
+    return DEFAULT_PROFILE_LIST;
+  }
+};
+
+export const saveProfiles = (list: ProfileList) => {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(list));
+  } catch (e) {
+    console.error("Failed to save profiles:", e);
+  }
+};
+
+export const createProfile = (name: string, existing: Profile[]): Profile => ({
+  id: `profile-${Date.now().toString(36)}`,
+  name: name.trim() || `Learner ${existing.length + 1}`,
+  // Next colour not taken yet, so avatars are told apart at a glance
+  color: PROFILE_COLORS.find(color => !existing.some(p => p.color === color))
+    ?? PROFILE_COLORS[existing.length % PROFILE_COLORS.length],
+});
+
+// --- Learning Progress ---
+
+export type WordProgress = {
+  learned: boolean;
+  srs: SrsState;
+};
+
+export type ProfileProgress = {
+  words: Record<string, WordProgress>; // By word id
+  mistakes: Record<string, string[]>; // Dictation mistakes by sheet id
+};
+
+export const EMPTY_PROGRESS: ProfileProgress = { words: {}, mistakes: {} };
+
+export const isProfileProgress = (data: unknown): data is ProfileProgress =>
+  isRecord(data) && isRecord(data.words) && isRecord(data.mistakes);
+
+export const extractProgress = (sheets: DaySheet[]): ProfileProgress => {
+  const progress: ProfileProgress = { words: {}, mistakes: {} };
+  sheets.forEach(sheet => {
+    if (sheet.mistakes?.length) progress.mistakes[sheet.id] = sheet.mistakes;
+    sheet.words.forEach(word => {
+      progress.words[word.id] = { learned: word.learned, srs: word.srs };
+    });
+  });
+  return progress;
+};
+
+// Lay a profile's progress over the shared lists; words the profile never studied start out new
+export const applyProgress = (sheets: DaySheet[], progress: ProfileProgress): DaySheet[] =>
+  sheets.map(sheet => {
+    const words = sheet.words.map(word => {
+      const saved = progress.words[word.id];
+      return saved ? { ...word, ...saved } : { ...word, learned: false, srs: createSrsState() };
+    });
+    const wordIds = new Set(words.map(word => word.id));
+    return {
+      ...sheet,
+      words,
+      mistakes: (progress.mistakes[sheet.id] || []).filter(id => wordIds.has(id)),
+    };
+  });
+
+// The shared lists as stored: content only, every word new
+export const stripProgress = (sheets: DaySheet[]): DaySheet[] => applyProgress(sheets, EMPTY_PROGRESS);
+
+// --- Progress Export ---
+
+export const PROGRESS_FORMAT = 'vocabmaster-progress';
+export const PROGRESS_FORMAT_VERSION = 1;
+
+// One profile's progress on its own, with the words' text so the file can be read by people too
+export const createProgressExport = (profile: Profile, sheets: DaySheet[]) => {
+  const progress = extractProgress(sheets);
+  return JSON.stringify({
+    format: PROGRESS_FORMAT,
+    version: PROGRESS_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: profile.name,
+    words: sheets.flatMap(sheet => sheet.words.map(word => ({
+      id: word.id,
+      word: word.word,
+      day: sheet.name,
+      ...progress.words[word.id],
+    }))),
+    mistakes: progress.mistakes,
+  }, null, 2);
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createScriptedRecognizer, scorePronunciation } from './pronunciation';
+
+const LANG = { lang: 'en-US' };
+
+// One attempt as the pronunciation session makes it: listen, then score what was heard
+const attempt = async (recognizer: ReturnType<typeof createScriptedRecognizer>, word: string) =>
+  scorePronunciation(word, await recognizer.listen(LANG));
+
+describe('scorePronunciation', () => {
+  it('matches the word ignoring case and punctuation', () => {
+    expect(scorePronunciation('Resilient', ['resilient.'])).toEqual({ verdict: 'match', heard: 'resilient.' });
+  });
+
+  it('matches when the word is heard with an article', () => {
+    expect(scorePronunciation('resilience', ['the resilience']).verdict).toBe('match');
+  });
+
+  it('does not match part of a longer word', () => {
+    expect(scorePronunciation('resilient', ['resilience']).verdict).toBe('mismatch');
+  });
+
+  it('takes any alternative but reports the best guess on a mismatch', () => {
+    expect(scorePronunciation('sedentary', ['sedimentary', 'sedentary'])).toEqual({ verdict: 'match', heard: 'sedentary' });
+    expect(scorePronunciation('sedentary', ['sedimentary', 'secondary'])).toEqual({ verdict: 'mismatch', heard: 'sedimentary' });
+  });
+
+  it('treats silence as a mismatch', () => {
+    expect(scorePronunciation('sedentary', [])).toEqual({ verdict: 'mismatch', heard: '' });
+  });
+});
+
+describe('scripted recognizer', () => {
+  it('scores a match on the first try', async () => {
+    const recognizer = createScriptedRecognizer(['resilient']);
+    expect((await attempt(recognizer, 'resilient')).verdict).toBe('match');
+  });
+
+  it('scores a mismatch, then a match on retry', async () => {
+    const recognizer = createScriptedRecognizer([['resident', 'president'], 'resilient']);
+    expect(await attempt(recognizer, 'resilient')).toEqual({ verdict: 'mismatch', heard: 'resident' });
+    expect(await attempt(recognizer, 'resilient')).toEqual({ verdict: 'match', heard: 'resilient' });
+  });
+
+  it('fails an attempt with the scripted error and carries on after it', async () => {
+    const recognizer = createScriptedRecognizer([new Error('No microphone was found.'), 'resilient']);
+    await expect(recognizer.listen(LANG)).rejects.toThrow('No microphone was found.');
+    expect((await attempt(recognizer, 'resilient')).verdict).toBe('match');
+  });
+
+  it('hears nothing once the script runs out', async () => {
+    const recognizer = createScriptedRecognizer([]);
+    expect(await recognizer.listen(LANG)).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+// --- Speech Recognition ---
+
+// Anything that can turn one spoken attempt into text; the app uses the browser's Web Speech
+// recognition, tests and machines without a microphone can plug in a scripted recognizer
+export interface SpeechRecognizer {
+  readonly name: string;
+  // Resolves with the candidate transcripts, best first (empty when nothing was heard)
+  listen: (options: { lang: string; signal?: AbortSignal }) => Promise<string[]>;
+}
+
+// --- Web Speech Recognizer ---
+
+// The Web Speech recognition API is not part of TypeScript's DOM library yet
+type RecognitionAlternative = { transcript: string };
+type RecognitionEvent = { results: ArrayLike<ArrayLike<RecognitionAlternative>> };
+type Recognition = {
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  continuous: boolean;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  abort: () => void;
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'no-speech': "Didn't hear anything. Try again a little louder.",
+  'audio-capture': 'No microphone was found.',
+  'not-allowed': 'Microphone access was blocked. Allow it in your browser settings.',
+  'service-not-allowed': 'Speech recognition is not allowed in this browser.',
+  'network': 'Speech recognition needs a network connection in this browser.',
+  'aborted': 'Listening was cancelled.',
+};
+
+const MAX_ALTERNATIVES = 5;
+
+const getRecognitionConstructor = (): (new () => Recognition) | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const w = window as unknown as Record<string, (new () => Recognition) | undefined>;
+  return w.SpeechRecognition || w.webkitSpeechRecognition;
+};
+
+// Browser recognition when available, otherwise null
+export const createWebSpeechRecognizer = (): SpeechRecognizer | null => {
+  const RecognitionConstructor = getRecognitionConstructor();
+  if (!RecognitionConstructor) return null;
+
+  return {
+    name: 'Browser speech recognition',
+    listen: ({ lang, signal }) => new Promise((resolve, reject) => {
+      const recognition = new RecognitionConstructor();
+      recognition.lang = lang;
+      recognition.interimResults = false;
+      recognition.continuous = false;
+      recognition.maxAlternatives = MAX_ALTERNATIVES;
+
+      let transcripts: string[] = [];
+      recognition.onresult = (event) => {
+        transcripts = Array.from(event.results[0] || [], alternative => alternative.transcript);
+      };
+      // An error is followed by 'end'; the promise is settled by whichever comes first
+      recognition.onerror = (event) => {
+        reject(new Error(ERROR_MESSAGES[event.error] || `Speech recognition failed (${event.error})`));
+      };
+      recognition.onend = () => resolve(transcripts);
+
+      signal?.addEventListener('abort', () => recognition.abort());
+      recognition.start();
+    }),
+  };
+};
+
+// --- Scripted Recognizer ---
+
+// Deterministic stand-in: each listen() returns the next scripted answer (a transcript, a list of
+// alternatives, or an Error to throw), then nothing once the script runs out
+export const createScriptedRecognizer = (script: (string | string[] | Error)[]): SpeechRecognizer => {
+  let position = 0;
+  return {
+    name: 'Scripted recognizer',
+    listen: async () => {
+      const next = script[position++];
+      if (next instanceof Error) throw next;
+      if (next === undefined) return [];
+      return Array.isArray(next) ? next : [next];
+    },
+  };
+};
+
+// --- Scoring ---
+
+export type PronunciationResult = {
+  verdict: 'match' | 'mismatch';
+  heard: string; // The transcript that matched, or the recognizer's best guess
+};
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9'\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// A transcript matches when it is the word, or contains it as whole words
+// (recognizers sometimes add an article: "the resilience")
+export const scorePronunciation = (expected: string, transcripts: string[]): PronunciationResult => {
+  const target = normalize(expected);
+  const heard = transcripts.find(t => {
+    const text = normalize(t);
+    return text === target || ` ${text} `.includes(` ${target} `);
+  });
+  return heard !== undefined
+    ? { verdict: 'match', heard }
+    : { verdict: 'mismatch', heard: transcripts[0] || '' };
+};
@@ -0,0 +1,48 @@
+import { normalizeSearchFilters, type SearchFilters } from './search';
+import { isRecord } from './guards';
+
+// --- App Updates ---
+
+// Long-lived tabs check for a new version this often
+export const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Where the user was when they accepted an update, restored after the reload.
+// Kept in sessionStorage so it only applies to the tab that reloaded.
+export type ReloadSnapshot = {
+  view: 'sheet' | 'due' | 'search' | 'deck';
+  activeSheetIndex: number;
+  activeDeckId: string | null;
+  searchFilters: SearchFilters;
+};
+
+const RELOAD_SNAPSHOT_KEY = 'vocab_master_reload_snapshot';
+const VIEWS: ReloadSnapshot['view'][] = ['sheet', 'due', 'search', 'deck'];
+
+export const saveReloadSnapshot = (snapshot: ReloadSnapshot) => {
+  try {
+    sessionStorage.setItem(RELOAD_SNAPSHOT_KEY, JSON.stringify(snapshot));
+  } catch (e) {
+    console.error("Failed to save reload snapshot:", e);
+  }
+};
+
+// Read once at startup; the snapshot is removed so a later manual reload starts fresh
+export const takeReloadSnapshot = (): ReloadSnapshot | null => {
+  try {
+    const raw = sessionStorage.getItem(RELOAD_SNAPSHOT_KEY);
+    sessionStorage.removeItem(RELOAD_SNAPSHOT_KEY);
+    if (!raw) return null;
+    const data: unknown = JSON.parse(raw);
+    if (!isRecord(data) || typeof data.activeSheetIndex !== 'number') return null;
+    const view = VIEWS.find(v => v === data.view);
+    if (!view) return null;
+    return {
+      view,
+      activeSheetIndex: data.activeSheetIndex,
+      activeDeckId: typeof data.activeDeckId === 'string' ? data.activeDeckId : null,
+      searchFilters: normalizeSearchFilters(data.searchFilters),
+    };
+  } catch {
+    return null;
+  }
+};
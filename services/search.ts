@@ -0,0 +1,135 @@
+import { match as matchPinyin } from 'pinyin-pro';
+import type { DaySheet, WordItem } from '../types';
+import { isRecord } from './guards';
+
+// --- Library Search ---
+
+export type LearnedFilter = 'all' | 'learned' | 'unlearned';
+
+export type SortKey = 'library' | 'alpha' | 'added' | 'difficulty';
+
+export type SearchFilters = {
+  query: string;
+  learned: LearnedFilter;
+  pos: string; // Normalized part of speech, '' for any
+  sheetId: string; // '' for every sheet
+  folder: string; // '' for every folder
+  tag: string; // '' for any tag
+  failedWithinDays: number; // Only words failed in the last N days, 0 for no limit
+  sort: SortKey;
+};
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  query: '',
+  learned: 'all',
+  pos: '',
+  sheetId: '',
+  folder: '',
+  tag: '',
+  failedWithinDays: 0,
+  sort: 'library',
+};
+
+export const FAILED_WITHIN_OPTIONS = [1, 7, 30];
+
+export const SORT_LABELS: Record<SortKey, string> = {
+  library: 'Library order',
+  alpha: 'A → Z',
+  added: 'Recently added',
+  difficulty: 'Hardest first',
+};
+
+const LEARNED_FILTERS: LearnedFilter[] = ['all', 'learned', 'unlearned'];
+
+// Saved filters (smart decks, reload snapshots) field by field; anything unreadable falls back to the default
+export const normalizeSearchFilters = (value: unknown): SearchFilters => {
+  const saved = isRecord(value) ? value : {};
+  const text = (field: unknown) => (typeof field === 'string' ? field : '');
+  return {
+    query: text(saved.query),
+    learned: LEARNED_FILTERS.find(filter => filter === saved.learned) ?? DEFAULT_SEARCH_FILTERS.learned,
+    pos: text(saved.pos),
+    sheetId: text(saved.sheetId),
+    folder: text(saved.folder),
+    tag: text(saved.tag),
+    failedWithinDays: typeof saved.failedWithinDays === 'number' && saved.failedWithinDays >= 0 ? saved.failedWithinDays : 0,
+    sort: (Object.keys(SORT_LABELS) as SortKey[]).find(key => key === saved.sort) ?? DEFAULT_SEARCH_FILTERS.sort,
+  };
+};
+
+export type SearchHit = {
+  word: WordItem;
+  sheetId: string;
+  sheetName: string;
+};
+
+const CJK_PATTERN = /[㐀-鿿]/;
+
+// "adj." and "Adj" are the same filter
+export const normalizePos = (pos: string) => pos.trim().toLowerCase().replace(/\.$/, '');
+
+export const getPartsOfSpeech = (sheets: DaySheet[]): string[] =>
+  [...new Set(sheets.flatMap(sheet => sheet.words.map(w => normalizePos(w.pos))).filter(Boolean))].sort();
+
+// Tags compare case-insensitively ("GRE" and "gre" are one tag); the first spelling seen is listed
+export const getTags = (sheets: DaySheet[]): string[] => {
+  const tags = new Map<string, string>();
+  sheets.forEach(sheet => sheet.words.forEach(w => w.tags?.forEach(tag => {
+    if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  })));
+  return [...tags.values()].sort((a, b) => a.localeCompare(b, 'en', { sensitivity: 'base' }));
+};
+
+export const hasTag = (word: WordItem, tag: string) =>
+  word.tags?.some(t => t.toLowerCase() === tag.toLowerCase()) || false;
+
+export const getFolders = (sheets: DaySheet[]): string[] =>
+  [...new Set(sheets.map(sheet => sheet.folder).filter((f): f is string => Boolean(f)))].sort();
+
+// Plain substring match on every field, plus pinyin (full or initials, e.g. "tanxing" or "tx")
+// against the Chinese translation when the query is Latin text
+export const matchesQuery = (word: WordItem, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+
+  const fields = [word.word, word.replacement, word.translation, word.notes || ''];
+  if (fields.some(field => field.toLowerCase().includes(q))) return true;
+
+  const compact = q.replace(/\s+/g, '');
+  if (CJK_PATTERN.test(q) || compact.length < 2 || !/^[a-zü]+$/.test(compact)) return false;
+  return CJK_PATTERN.test(word.translation) && matchPinyin(word.translation, compact) !== null;
+};
+
+// Lower ease and more lapses mean harder; words never reviewed sort after reviewed ones of equal ease
+const difficulty = (word: WordItem) => word.srs.lapses * 10 - word.srs.ease * 4 + (word.srs.history.length ? 1 : 0);
+
+// `failedWordIds` holds the words failed within `filters.failedWithinDays` (see getFailedWordIds)
+export const searchLibrary = (sheets: DaySheet[], filters: SearchFilters, failedWordIds = new Set<string>()): SearchHit[] => {
+  const hits: SearchHit[] = [];
+  sheets.forEach(sheet => {
+    if (filters.sheetId && sheet.id !== filters.sheetId) return;
+    if (filters.folder && sheet.folder !== filters.folder) return;
+    sheet.words.forEach(word => {
+      if (filters.learned === 'learned' && !word.learned) return;
+      if (filters.learned === 'unlearned' && word.learned) return;
+      if (filters.pos && normalizePos(word.pos) !== filters.pos) return;
+      if (filters.tag && !hasTag(word, filters.tag)) return;
+      if (filters.failedWithinDays > 0 && !failedWordIds.has(word.id)) return;
+      if (!matchesQuery(word, filters.query)) return;
+      hits.push({ word, sheetId: sheet.id, sheetName: sheet.name });
+    });
+  });
+
+  // Array.prototype.sort is stable, so ties keep library order
+  switch (filters.sort) {
+    case 'alpha':
+      return hits.sort((a, b) => a.word.word.localeCompare(b.word.word, 'en', { sensitivity: 'base' }));
+    case 'added':
+      // Words from before addedAt was tracked count as oldest
+      return hits.sort((a, b) => (b.word.addedAt || 0) - (a.word.addedAt || 0));
+    case 'difficulty':
+      return hits.sort((a, b) => difficulty(b.word) - difficulty(a.word));
+    default:
+      return hits;
+  }
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { DaySheet } from '../types';
+import { createWordItem } from './importers';
+import { reviewWord } from './srs';
+import {
+  applySharedList,
+  createShareFile,
+  createShareLink,
+  createSharedList,
+  diffSharedList,
+  isSharedListText,
+  markShared,
+  parseSharedList,
+  readShareLink,
+  sheetFromSharedList,
+  suggestShareVersion
+} from './share';
+
+const DETAILS = { author: ' Ms Li ', description: 'Unit 3 words', version: 1 };
+
+const authorSheet = (): DaySheet => ({
+  id: 'day-1',
+  name: 'Unit 3',
+  words: [
+    reviewWord(createWordItem('w1', { word: 'resilient', translation: '有弹性的', examples: ['A resilient city.'] }), 'good'),
+    createWordItem('w2', { word: 'sedentary', translation: '久坐的' }),
+  ],
+});
+
+describe('sharing', () => {
+  it('leaves progress out of the list', () => {
+    const list = createSharedList(authorSheet(), DETAILS);
+    expect(list.author).toBe('Ms Li');
+    expect(list.words).toEqual([
+      { key: 'w1', word: 'resilient', translation: '有弹性的', examples: ['A resilient city.'] },
+      { key: 'w2', word: 'sedentary', translation: '久坐的' },
+    ]);
+  });
+
+  it('sends the same list through a link and a file', async () => {
+    const list = createSharedList(authorSheet(), DETAILS);
+    const link = await createShareLink(list, 'https://example.com/app#old');
+    expect(link.startsWith('https://example.com/app#share=z')).toBe(true);
+    expect(await readShareLink(new URL(link).hash)).toEqual(list);
+
+    const file = createShareFile(list);
+    expect(isSharedListText(file)).toBe(true);
+    expect(parseSharedList(file)).toEqual(list);
+  });
+
+  it('rejects damaged links and foreign files', async () => {
+    await expect(readShareLink('#share=z@@@')).rejects.toThrow('damaged');
+    expect(isSharedListText('{"format":"other"}')).toBe(false);
+    expect(() => parseSharedList('{"format":"vocabmaster-list","formatVersion":99}')).toThrow('newer version');
+  });
+
+  it('drops words with missing or repeated keys and fields of the wrong type', () => {
+    const list = parseSharedList(JSON.stringify({
+      format: 'vocabmaster-list',
+      formatVersion: 1,
+      listId: 'list-1',
+      words: [
+        { key: 'a', word: 'abate', examples: 'not a list', srs: { ease: 9 } },
+        { key: 'a', word: 'again' },
+        { word: 'no key' },
+      ],
+    }));
+    expect(list.words).toEqual([{ key: 'a', word: 'abate' }]);
+    expect(list.name).toBe('Shared list');
+  });
+
+  it('suggests a new version only after the words change', () => {
+    const sheet = authorSheet();
+    const shared = markShared(sheet, createSharedList(sheet, DETAILS));
+    expect(suggestShareVersion(shared)).toBe(1);
+    expect(suggestShareVersion({ ...shared, words: shared.words.slice(1) })).toBe(2);
+  });
+});
+
+describe('receiving updates', () => {
+  it('updates changed words, adds and removes list words, and keeps progress and own words', () => {
+    const author = authorSheet();
+    const received = sheetFromSharedList(createSharedList(author, DETAILS));
+    const [resilient, sedentary] = received.words;
+    const studied: DaySheet = {
+      ...received,
+      words: [reviewWord(resilient, 'good'), sedentary, createWordItem('mine', { word: 'abate' })],
+    };
+
+    const nextList = createSharedList({
+      ...author,
+      words: [
+        { ...author.words[0], translation: '适应力强的' },
+        createWordItem('w3', { word: 'meticulous' }),
+      ],
+    }, { ...DETAILS, version: 2 });
+    nextList.listId = received.share!.listId;
+
+    const diff = diffSharedList(studied, nextList);
+    expect(diff.updated.map(({ word }) => word.word)).toEqual(['resilient']);
+    expect(diff.added.map(word => word.word)).toEqual(['meticulous']);
+    expect(diff.removed.map(word => word.word)).toEqual(['sedentary']);
+
+    const updated = applySharedList(studied, nextList);
+    expect(updated.words.map(word => word.word)).toEqual(['resilient', 'abate', 'meticulous']);
+    expect(updated.words[0]).toMatchObject({ translation: '适应力强的', learned: true });
+    expect(updated.share?.version).toBe(2);
+  });
+});
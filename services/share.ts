@@ -0,0 +1,293 @@
+import type { DaySheet, SheetShareInfo, WordItem } from '../types';
+import { createWordItem, type WordContent } from './importers';
+import { profileKey } from './profiles';
+import { isRecord } from './guards';
+
+// --- Shared Word Lists ---
+// A day can be passed to someone else as a link or a .vocab.json file. Only the words travel,
+// never the sender's progress. Every list keeps its id across re-shares, and its words keep
+// their keys, so opening a newer version updates the copy already in the library.
+
+export const SHARE_FORMAT = 'vocabmaster-list';
+export const SHARE_FORMAT_VERSION = 1;
+export const SHARE_FILE_EXTENSION = '.vocab.json';
+const SHARE_HASH_PREFIX = '#share=';
+
+// Some chat apps and browsers cut off longer links; bigger lists should go out as a file
+export const MAX_SHARE_LINK_LENGTH = 8000;
+
+export type SharedWord = Partial<WordContent> & {
+  key: string; // Stable across versions of the list
+  word: string;
+};
+
+export type SharedList = {
+  format: typeof SHARE_FORMAT;
+  formatVersion: number;
+  listId: string;
+  version: number; // Raised by the author for each published update
+  name: string;
+  author: string;
+  description: string;
+  sharedAt: string; // ISO timestamp
+  words: SharedWord[];
+};
+
+const CONTENT_FIELDS = ['pos', 'replacement', 'translation', 'examples', 'collocations', 'notes', 'tags', 'source'] as const;
+const LIST_FIELDS = new Set<string>(['examples', 'collocations', 'tags']);
+
+// Words of a received list get ids derived from the list, so later versions can find them
+const sharedWordId = (listId: string, key: string) => `shared-${listId}-${key}`;
+
+const sharedKeyOf = (listId: string | undefined, wordId: string) =>
+  listId && wordId.startsWith(sharedWordId(listId, '')) ? wordId.slice(sharedWordId(listId, '').length) : wordId;
+
+const isListWord = (listId: string, wordId: string) => wordId.startsWith(sharedWordId(listId, ''));
+
+const toSharedWord = (word: WordItem, listId?: string): SharedWord => {
+  const shared: SharedWord = { key: sharedKeyOf(listId, word.id), word: word.word };
+  CONTENT_FIELDS.forEach(field => {
+    const value = word[field];
+    if (Array.isArray(value) ? value.length > 0 : value) (shared as Record<string, unknown>)[field] = value;
+  });
+  return shared;
+};
+
+// Short hash of the words' content; tells whether a list changed since it was last published
+const fingerprintWords = (words: SharedWord[]) => {
+  const text = JSON.stringify(words);
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+const sharedWordsOf = (sheet: DaySheet) => sheet.words.map(word => toSharedWord(word, sheet.share?.listId));
+
+// --- Publishing ---
+
+export type ShareDetails = Pick<SharedList, 'author' | 'description' | 'version'>;
+
+// Version to publish under: the same one while the words are unchanged, the next one after edits
+export const suggestShareVersion = (sheet: DaySheet) => {
+  if (!sheet.share) return 1;
+  return fingerprintWords(sharedWordsOf(sheet)) === sheet.share.fingerprint ? sheet.share.version : sheet.share.version + 1;
+};
+
+export const createSharedList = (sheet: DaySheet, { author, description, version }: ShareDetails): SharedList => ({
+  format: SHARE_FORMAT,
+  formatVersion: SHARE_FORMAT_VERSION,
+  listId: sheet.share?.listId || `list-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  version,
+  name: sheet.name,
+  author: author.trim(),
+  description: description.trim(),
+  sharedAt: new Date().toISOString(),
+  words: sharedWordsOf(sheet),
+});
+
+const shareInfoOf = (list: SharedList): SheetShareInfo => ({
+  listId: list.listId,
+  version: list.version,
+  author: list.author,
+  description: list.description,
+  fingerprint: fingerprintWords(list.words),
+});
+
+// Remember what was published, so the next share can tell whether the version should go up
+export const markShared = (sheet: DaySheet, list: SharedList): DaySheet => ({ ...sheet, share: shareInfoOf(list) });
+
+// --- Links & Files ---
+
+// CompressionStream is missing in older browsers; such links stay uncompressed ('j' instead of 'z')
+const canCompress = () => typeof CompressionStream !== 'undefined';
+
+const pipeBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+export const createShareLink = async (list: SharedList, baseUrl: string) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(list));
+  const payload = canCompress()
+    ? `z${toBase64Url(await pipeBytes(bytes, new CompressionStream('deflate-raw')))}`
+    : `j${toBase64Url(bytes)}`;
+  return `${baseUrl.replace(/#.*$/, '')}${SHARE_HASH_PREFIX}${payload}`;
+};
+
+export const hasShareLink = (hash: string) => hash.startsWith(SHARE_HASH_PREFIX);
+
+// Throws with a user-facing message when the link is damaged (usually cut off while copying)
+export const readShareLink = async (hash: string): Promise<SharedList> => {
+  const payload = hash.slice(SHARE_HASH_PREFIX.length);
+  const isCompressed = payload[0] === 'z';
+  if (isCompressed && !canCompress()) {
+    throw new Error('This browser cannot open compressed share links. Ask for the .vocab.json file instead.');
+  }
+  let text: string;
+  try {
+    const bytes = fromBase64Url(payload.slice(1));
+    text = new TextDecoder().decode(isCompressed ? await pipeBytes(bytes, new DecompressionStream('deflate-raw')) : bytes);
+  } catch {
+    throw new Error('This share link is damaged. Ask for the link again, or for the .vocab.json file.');
+  }
+  return parseSharedList(text);
+};
+
+export const createShareFile = (list: SharedList) => JSON.stringify(list, null, 2);
+
+export const isSharedListText = (text: string) => {
+  try {
+    const data: unknown = JSON.parse(text);
+    return isRecord(data) && data.format === SHARE_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+// Throws with a user-facing message when the text is not a usable list
+export const parseSharedList = (text: string): SharedList => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The shared list is not valid JSON.');
+  }
+
+  if (!isRecord(data) || data.format !== SHARE_FORMAT) {
+    throw new Error('This is not a VocabMaster word list.');
+  }
+  if (typeof data.formatVersion !== 'number' || data.formatVersion > SHARE_FORMAT_VERSION) {
+    throw new Error('This list was shared from a newer version of the app. Please update the app.');
+  }
+  if (typeof data.listId !== 'string' || !Array.isArray(data.words)) {
+    throw new Error('The shared list is damaged: its words are missing.');
+  }
+
+  // Only known fields of the right type are taken over; repeated keys keep their first word
+  const keys = new Set<string>();
+  const words: SharedWord[] = [];
+  data.words.forEach((w: unknown) => {
+    if (!isRecord(w) || typeof w.key !== 'string' || typeof w.word !== 'string' || !w.word.trim() || keys.has(w.key)) return;
+    keys.add(w.key);
+    const word: SharedWord = { key: w.key, word: w.word };
+    CONTENT_FIELDS.forEach(field => {
+      const value = w[field];
+      const valid = LIST_FIELDS.has(field)
+        ? Array.isArray(value) && value.every(item => typeof item === 'string')
+        : typeof value === 'string';
+      if (valid) {
+        (word as Record<string, unknown>)[field] = value;
+      }
+    });
+    words.push(word);
+  });
+
+  return {
+    format: SHARE_FORMAT,
+    formatVersion: data.formatVersion,
+    listId: data.listId,
+    version: typeof data.version === 'number' ? data.version : 1,
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Shared list',
+    author: typeof data.author === 'string' ? data.author : '',
+    description: typeof data.description === 'string' ? data.description : '',
+    sharedAt: typeof data.sharedAt === 'string' ? data.sharedAt : '',
+    words,
+  };
+};
+
+// --- Receiving ---
+
+export const findSharedCopy = (sheets: DaySheet[], listId: string) =>
+  sheets.find(sheet => sheet.share?.listId === listId);
+
+// New day holding the list's words with fresh progress
+export const sheetFromSharedList = (list: SharedList): DaySheet => ({
+  id: `sheet-${Date.now()}`,
+  name: list.name,
+  words: list.words.map(word => createWordItem(sharedWordId(list.listId, word.key), word)),
+  mistakes: [],
+  share: shareInfoOf(list),
+});
+
+export type ShareDiff = {
+  added: SharedWord[];
+  updated: { word: WordItem; next: SharedWord }[];
+  removed: WordItem[]; // Only words that came from the list; words added by hand are kept
+};
+
+// Content in a fixed field order with empty values blanked, for comparing two versions of a word
+const contentKey = (word: Partial<WordContent>) =>
+  JSON.stringify((['word', ...CONTENT_FIELDS] as const).map(field => {
+    const value = word[field];
+    return (Array.isArray(value) ? value.length > 0 : value) ? value : null;
+  }));
+
+// Words are matched by key, which also finds the author's own words (they keep their plain ids)
+export const diffSharedList = (sheet: DaySheet, list: SharedList): ShareDiff => {
+  const current = new Map(sheet.words.map(word => [sharedKeyOf(list.listId, word.id), word]));
+  const incomingKeys = new Set(list.words.map(word => word.key));
+  const diff: ShareDiff = { added: [], updated: [], removed: [] };
+
+  list.words.forEach(next => {
+    const word = current.get(next.key);
+    if (!word) diff.added.push(next);
+    else if (contentKey(word) !== contentKey(next)) diff.updated.push({ word, next });
+  });
+  diff.removed = sheet.words.filter(word =>
+    isListWord(list.listId, word.id) && !incomingKeys.has(sharedKeyOf(list.listId, word.id)));
+  return diff;
+};
+
+// Bring an imported copy up to the list's version. Progress on words that stay is kept; the
+// day's own name is kept too, in case it was renamed after importing.
+export const applySharedList = (sheet: DaySheet, list: SharedList): DaySheet => {
+  const { added, updated, removed } = diffSharedList(sheet, list);
+  const updates = new Map(updated.map(({ word, next }) => [word.id, next]));
+  const removedIds = new Set(removed.map(word => word.id));
+
+  const words = sheet.words
+    .filter(word => !removedIds.has(word.id))
+    .map(word => {
+      const next = updates.get(word.id);
+      if (!next) return word;
+      const content = createWordItem(word.id, next);
+      return { ...content, learned: word.learned, srs: word.srs, addedAt: word.addedAt };
+    });
+
+  return {
+    ...sheet,
+    words: [...words, ...added.map(word => createWordItem(sharedWordId(list.listId, word.key), word))],
+    mistakes: sheet.mistakes?.filter(id => !removedIds.has(id)),
+    share: shareInfoOf(list),
+  };
+};
+
+// --- Author Name ---
+
+const AUTHOR_STORAGE_KEY = 'vocab_master_share_author';
+
+export const loadShareAuthor = (profileId: string) => {
+  try {
+    return localStorage.getItem(profileKey(AUTHOR_STORAGE_KEY, profileId)) || '';
+  } catch (e) {
+    console.error("Failed to load share author:", e);
+    return '';
+  }
+};
+
+export const saveShareAuthor = (author: string, profileId: string) => {
+  try {
+    localStorage.setItem(profileKey(AUTHOR_STORAGE_KEY, profileId), author);
+  } catch (e) {
+    console.error("Failed to save share author:", e);
+  }
+};
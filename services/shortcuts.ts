@@ -0,0 +1,43 @@
+// --- Keyboard Shortcuts ---
+
+export type Shortcut = { keys: string[]; description: string };
+
+// Shown in the help overlay; the handler in App implements the same list
+export const SHORTCUTS: Shortcut[] = [
+  { keys: ['←', '→', '↑', '↓'], description: 'Move between word cards' },
+  { keys: ['Home', 'End'], description: 'First / last word card' },
+  { keys: ['Space'], description: 'Listen to the focused word' },
+  { keys: ['L'], description: 'Toggle learned on the focused word' },
+  { keys: ['[', ']'], description: 'Previous / next day' },
+  { keys: ['/'], description: 'Search all words' },
+  { keys: ['?'], description: 'Show this help' },
+  { keys: ['Esc'], description: 'Close dialogs and sessions' },
+];
+
+// Typing in a form field must never trigger shortcuts
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+// Columns of the word grid, matching its Tailwind breakpoints (md: 2, lg: 3)
+export const getGridColumns = (): number => {
+  if (window.matchMedia('(min-width: 1024px)').matches) return 3;
+  if (window.matchMedia('(min-width: 768px)').matches) return 2;
+  return 1;
+};
+
+// Index a grid key moves to, clamped to the list; null for keys that do not move
+export const moveInGrid = (index: number, key: string, count: number, columns: number): number | null => {
+  if (count === 0) return null;
+  const step: Record<string, number> = {
+    ArrowLeft: -1,
+    ArrowRight: 1,
+    ArrowUp: -columns,
+    ArrowDown: columns,
+  };
+  if (key === 'Home') return 0;
+  if (key === 'End') return count - 1;
+  if (!(key in step)) return null;
+  return Math.min(count - 1, Math.max(0, index + step[key]));
+};
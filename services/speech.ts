@@ -0,0 +1,36 @@
+// --- Speech Synthesis ---
+
+type SpeakOptions = {
+  lang?: string;
+  rate?: number;
+  pitch?: number;
+  voiceURI?: string | null; // Preferred voice; the browser default for `lang` is used when missing
+};
+
+export const getVoice = (voiceURI: string | null | undefined): SpeechSynthesisVoice | undefined =>
+  voiceURI ? window.speechSynthesis.getVoices().find(v => v.voiceURI === voiceURI) : undefined;
+
+// Speak a piece of text and resolve once it finishes (or fails, so callers can keep going)
+export const speakText = (
+  text: string,
+  { lang = 'en-US', rate = 0.85, pitch = 1, voiceURI }: SpeakOptions = {}
+): Promise<void> =>
+  new Promise<void>((resolve) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voice = getVoice(voiceURI);
+    utterance.lang = voice?.lang || lang;
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+    if (voice) utterance.voice = voice;
+
+    utterance.onend = () => resolve();
+    utterance.onerror = (e) => {
+      // Cancelling (stop, skip, pause) also lands here and is expected
+      if (e.error !== 'interrupted' && e.error !== 'canceled') {
+        console.error("Speech synthesis error", e);
+      }
+      resolve();
+    };
+
+    window.speechSynthesis.speak(utterance);
+  });
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { checkSpelling, diffChars } from './spelling';
+
+describe('diffChars', () => {
+  it('marks every letter of an exact answer as a match', () => {
+    expect(diffChars('abate', 'abate').every(op => op.type === 'match')).toBe(true);
+  });
+
+  it('finds substituted, missing and extra letters', () => {
+    expect(diffChars('cat', 'cut')).toEqual([
+      { type: 'match', char: 'c' },
+      { type: 'substitute', expected: 'a', actual: 'u' },
+      { type: 'match', char: 't' },
+    ]);
+    expect(diffChars('label', 'labl')).toContainEqual({ type: 'missing', expected: 'e' });
+    expect(diffChars('label', 'labell')).toContainEqual({ type: 'extra', actual: 'l' });
+  });
+});
+
+describe('checkSpelling', () => {
+  it('ignores case and surrounding spaces', () => {
+    expect(checkSpelling('Resilient', '  resilient ')).toMatchObject({ verdict: 'correct', distance: 0 });
+    expect(checkSpelling('take  off', 'Take off').verdict).toBe('correct');
+  });
+
+  it('forgives one slip in a medium word and two in a long one', () => {
+    expect(checkSpelling('resilient', 'resilent')).toMatchObject({ verdict: 'typo', distance: 1 });
+    expect(checkSpelling('resilient', 'reslent').verdict).toBe('wrong');
+    expect(checkSpelling('sedentarily', 'sedentarly').verdict).toBe('typo');
+    expect(checkSpelling('sedentarily', 'sedantarly').verdict).toBe('typo');
+  });
+
+  it('allows no slips in short words', () => {
+    expect(checkSpelling('abet', 'abot').verdict).toBe('wrong');
+  });
+
+  it('never counts an empty answer as a typo', () => {
+    expect(checkSpelling('a', '').verdict).toBe('wrong');
+  });
+});
@@ -0,0 +1,76 @@
+// --- Spelling Comparison ---
+
+export type DiffOp =
+  | { type: 'match'; char: string }
+  | { type: 'substitute'; expected: string; actual: string }
+  | { type: 'missing'; expected: string } // Letter the user left out
+  | { type: 'extra'; actual: string }; // Letter the user added
+
+export type SpellingResult = {
+  verdict: 'correct' | 'typo' | 'wrong';
+  distance: number;
+  diff: DiffOp[];
+};
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Edits allowed before a near miss stops counting as a typo
+const typoTolerance = (length: number): number => {
+  if (length >= 10) return 2;
+  if (length >= 5) return 1;
+  return 0;
+};
+
+// Character-level diff via Levenshtein alignment (substitution, insertion, deletion)
+export const diffChars = (expected: string, actual: string): DiffOp[] => {
+  const a = [...expected];
+  const b = [...actual];
+  const dist: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dist[i][j] = Math.min(
+        dist[i - 1][j] + 1,
+        dist[i][j - 1] + 1,
+        dist[i - 1][j - 1] + cost
+      );
+    }
+  }
+
+  // Walk back from the bottom-right corner to recover the edit script
+  const ops: DiffOp[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && dist[i][j] === dist[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)) {
+      ops.push(a[i - 1] === b[j - 1]
+        ? { type: 'match', char: a[i - 1] }
+        : { type: 'substitute', expected: a[i - 1], actual: b[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && dist[i][j] === dist[i - 1][j] + 1) {
+      ops.push({ type: 'missing', expected: a[i - 1] });
+      i--;
+    } else {
+      ops.push({ type: 'extra', actual: b[j - 1] });
+      j--;
+    }
+  }
+  return ops.reverse();
+};
+
+export const checkSpelling = (expected: string, typed: string): SpellingResult => {
+  const target = normalize(expected);
+  const answer = normalize(typed);
+  const diff = diffChars(target, answer);
+  const distance = diff.filter(op => op.type !== 'match').length;
+
+  let verdict: SpellingResult['verdict'] = 'wrong';
+  if (distance === 0) verdict = 'correct';
+  else if (answer.length > 0 && distance <= typoTolerance(target.length)) verdict = 'typo';
+
+  return { verdict, distance, diff };
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { DaySheet } from '../types';
+import { createWordItem } from './importers';
+import {
+  addDays,
+  daysBetween,
+  describeSchedule,
+  ensureSrs,
+  getDailyCounts,
+  getTodayQueue,
+  reviewWord,
+  toDateKey
+} from './srs';
+
+const NOON = new Date(2026, 9, 19, 12).getTime();
+const TODAY = toDateKey(new Date(NOON));
+
+const newWord = (id = 'w1') => createWordItem(id, { word: 'resilient' });
+
+describe('date helpers', () => {
+  it('adds days across month ends', () => {
+    expect(addDays('2026-10-30', 3)).toBe('2026-11-02');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+
+  it('counts calendar days between keys', () => {
+    expect(daysBetween('2026-10-19', '2026-10-26')).toBe(7);
+    expect(daysBetween('2026-10-19', '2026-10-18')).toBe(-1);
+  });
+});
+
+describe('reviewWord', () => {
+  it('schedules the first successful reviews 1 then 6 days out', () => {
+    const first = reviewWord(newWord(), 'good', NOON);
+    expect(first.learned).toBe(true);
+    expect(first.srs.interval).toBe(1);
+    expect(first.srs.due).toBe(addDays(TODAY, 1));
+
+    const second = reviewWord(first, 'good', NOON);
+    expect(second.srs.interval).toBe(6);
+    expect(second.srs.repetitions).toBe(2);
+  });
+
+  it('grows the interval by the ease factor after that', () => {
+    let word = newWord();
+    for (let i = 0; i < 3; i++) word = reviewWord(word, 'good', NOON);
+    expect(word.srs.interval).toBe(Math.round(6 * word.srs.ease));
+  });
+
+  it('starts over and counts a lapse when a learned word is forgotten', () => {
+    const learned = reviewWord(reviewWord(newWord(), 'good', NOON), 'good', NOON);
+    const failed = reviewWord(learned, 'again', NOON);
+    expect(failed.learned).toBe(false);
+    expect(failed.srs.repetitions).toBe(0);
+    expect(failed.srs.lapses).toBe(1);
+    expect(failed.srs.due).toBe(TODAY);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    let word = newWord();
+    for (let i = 0; i < 20; i++) word = reviewWord(word, 'again', NOON);
+    expect(word.srs.ease).toBe(1.3);
+  });
+
+  it('logs every review', () => {
+    const word = reviewWord(reviewWord(newWord(), 'hard', NOON), 'easy', NOON + 1);
+    expect(word.srs.history.map(log => log.grade)).toEqual(['hard', 'easy']);
+    expect(word.srs.lastReviewed).toBe(NOON + 1);
+  });
+});
+
+describe('ensureSrs', () => {
+  it('brings words learned before scheduling existed back for review today', () => {
+    const { srs, ...legacy } = { ...newWord(), learned: true };
+    const upgraded = ensureSrs(legacy);
+    expect(upgraded.srs.repetitions).toBe(1);
+    expect(upgraded.srs.due).toBe(toDateKey(new Date()));
+  });
+
+  it('keeps scheduling state that is already there', () => {
+    const reviewed = reviewWord(newWord(), 'good', NOON);
+    expect(ensureSrs(reviewed)).toBe(reviewed);
+  });
+});
+
+describe('daily queue', () => {
+  const sheets: DaySheet[] = [{
+    id: 'day-1',
+    name: 'Day 1',
+    words: [
+      { ...newWord('due'), srs: { ...newWord().srs, due: TODAY } },
+      reviewWord(newWord('done'), 'good', NOON),
+      newWord('new'),
+    ],
+  }];
+
+  it('holds due words and the ones already reviewed today', () => {
+    expect(getTodayQueue(sheets, TODAY).map(item => item.word.id)).toEqual(['due', 'done']);
+    expect(getDailyCounts(sheets, TODAY)).toEqual({ due: 1, reviewed: 1 });
+  });
+
+  it('describes the schedule for the card footer', () => {
+    const [due, done, fresh] = sheets[0].words;
+    expect(describeSchedule(due, TODAY)).toBe('Due today');
+    expect(describeSchedule(done, TODAY)).toBe('Due tomorrow');
+    expect(describeSchedule(fresh, TODAY)).toBe('New');
+  });
+});
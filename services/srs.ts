@@ -0,0 +1,160 @@
+import type { DaySheet, Grade, SrsState, WordItem } from '../types';
+
+// --- Spaced Repetition (SM-2) ---
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const HARD_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+// SM-2 quality score for each grade (0-5 scale, < 3 counts as a failure)
+const GRADE_QUALITY: Record<Grade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+// --- Date helpers (local calendar days, not UTC) ---
+
+export const toDateKey = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+export const todayKey = (): string => toDateKey(new Date());
+
+export const addDays = (dateKey: string, days: number): string => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return toDateKey(new Date(y, m - 1, d + days));
+};
+
+export const daysBetween = (fromKey: string, toKey: string): number => {
+  const [fy, fm, fd] = fromKey.split('-').map(Number);
+  const [ty, tm, td] = toKey.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000);
+};
+
+// --- Scheduling ---
+
+export const createSrsState = (): SrsState => ({
+  ease: DEFAULT_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: null,
+  lastReviewed: null,
+  history: [],
+});
+
+// Words saved before the scheduler existed only carry `learned`.
+// Learned ones are treated as seen once and brought back for review today.
+export const ensureSrs = (word: Omit<WordItem, 'srs'> & { srs?: SrsState }): WordItem => {
+  if (word.srs) return word as WordItem;
+  const srs = createSrsState();
+  if (word.learned) {
+    srs.interval = 1;
+    srs.repetitions = 1;
+    srs.due = todayKey();
+  }
+  return { ...word, srs };
+};
+
+export const reviewWord = (word: WordItem, grade: Grade, now = Date.now()): WordItem => {
+  const prev = word.srs;
+  const quality = GRADE_QUALITY[grade];
+  const today = toDateKey(new Date(now));
+
+  const ease = Math.max(
+    MIN_EASE,
+    prev.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let interval: number;
+  let repetitions: number;
+  let lapses = prev.lapses;
+
+  if (quality < 3) {
+    // Failed: start over and keep the word in today's queue
+    if (prev.repetitions > 0) lapses += 1;
+    repetitions = 0;
+    interval = 0;
+  } else {
+    repetitions = prev.repetitions + 1;
+    if (repetitions === 1) {
+      interval = grade === 'easy' ? 4 : 1;
+    } else if (repetitions === 2) {
+      interval = grade === 'hard' ? 3 : 6;
+    } else if (grade === 'hard') {
+      interval = Math.max(prev.interval + 1, Math.round(prev.interval * HARD_MULTIPLIER));
+    } else {
+      const base = prev.interval * ease;
+      interval = Math.max(prev.interval + 1, Math.round(grade === 'easy' ? base * EASY_BONUS : base));
+    }
+  }
+
+  return {
+    ...word,
+    learned: quality >= 3,
+    srs: {
+      ease,
+      interval,
+      repetitions,
+      lapses,
+      due: addDays(today, interval),
+      lastReviewed: now,
+      history: [...prev.history, { at: now, grade, interval, ease }],
+    },
+  };
+};
+
+// --- Queries ---
+
+export const isDue = (word: WordItem, today = todayKey()): boolean =>
+  word.srs.due !== null && word.srs.due <= today;
+
+export const wasReviewedOn = (word: WordItem, dateKey: string): boolean =>
+  word.srs.lastReviewed !== null && toDateKey(new Date(word.srs.lastReviewed)) === dateKey;
+
+// Reviewed at least once, or marked learned without reviewing
+export const isStudied = (word: WordItem): boolean =>
+  word.learned || word.srs.lastReviewed !== null;
+
+export type ScheduledWord = {
+  word: WordItem;
+  sheetId: string;
+  sheetName: string;
+};
+
+// Today's review queue across every sheet: words still due plus those already
+// reviewed today, so finished cards stay visible until the day rolls over.
+export const getTodayQueue = (sheets: DaySheet[], today = todayKey()): ScheduledWord[] =>
+  sheets.flatMap(sheet =>
+    sheet.words
+      .filter(w => isDue(w, today) || wasReviewedOn(w, today))
+      .map(w => ({ word: w, sheetId: sheet.id, sheetName: sheet.name }))
+  );
+
+export const getDailyCounts = (sheets: DaySheet[], today = todayKey()) => {
+  let due = 0;
+  let reviewed = 0;
+  for (const sheet of sheets) {
+    for (const w of sheet.words) {
+      if (isDue(w, today)) due += 1;
+      else if (wasReviewedOn(w, today)) reviewed += 1;
+    }
+  }
+  return { due, reviewed };
+};
+
+// Short label for the card footer
+export const describeSchedule = (word: WordItem, today = todayKey()): string => {
+  const { due } = word.srs;
+  if (due === null) return 'New';
+  const days = daysBetween(today, due);
+  if (days <= 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  return `Due in ${days} days`;
+};
@@ -0,0 +1,141 @@
+import type { DaySheet, StudyEvent, WordItem } from '../types';
+import { addDays, toDateKey, todayKey } from './srs';
+
+// --- Study Statistics ---
+// Everything here is derived from the study event log; nothing is stored separately.
+
+const dayOf = (event: StudyEvent) => toDateKey(new Date(event.at));
+
+const isActivity = (event: StudyEvent) => event.type !== 'session';
+
+// Study actions (reviews, spellings, listens) per local day
+export const getDailyActivity = (events: StudyEvent[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  events.filter(isActivity).forEach(event => {
+    const day = dayOf(event);
+    counts.set(day, (counts.get(day) || 0) + 1);
+  });
+  return counts;
+};
+
+// Words whose first successful review in the log fell on each day
+export const getLearnedPerDay = (events: StudyEvent[]): Map<string, number> => {
+  const learned = new Set<string>();
+  const counts = new Map<string, number>();
+  events.forEach(event => {
+    if (event.type !== 'review' || event.grade === 'again' || learned.has(event.wordId)) return;
+    learned.add(event.wordId);
+    const day = dayOf(event);
+    counts.set(day, (counts.get(day) || 0) + 1);
+  });
+  return counts;
+};
+
+// Consecutive active days. The current streak still counts when today has no activity yet.
+export const getStreaks = (activeDays: Set<string>, today = todayKey()) => {
+  let current = 0;
+  let day = activeDays.has(today) ? today : addDays(today, -1);
+  while (activeDays.has(day)) {
+    current += 1;
+    day = addDays(day, -1);
+  }
+
+  let longest = 0;
+  activeDays.forEach(start => {
+    // Only count runs from their first day
+    if (activeDays.has(addDays(start, -1))) return;
+    let length = 0;
+    for (let d = start; activeDays.has(d); d = addDays(d, 1)) length += 1;
+    longest = Math.max(longest, length);
+  });
+
+  return { current, longest };
+};
+
+// Share of reviews recalled for words that had already been learned once, i.e. real retention
+// rather than first-time learning. null until there is something to measure.
+export const getRetention = (events: StudyEvent[]) => {
+  const learned = new Set<string>();
+  let recalled = 0;
+  let total = 0;
+  events.forEach(event => {
+    if (event.type !== 'review') return;
+    if (learned.has(event.wordId)) {
+      total += 1;
+      if (event.grade !== 'again') recalled += 1;
+    } else if (event.grade !== 'again') {
+      learned.add(event.wordId);
+    }
+  });
+  return { rate: total === 0 ? null : recalled / total, total };
+};
+
+export type SessionStats = {
+  count: number;
+  totalMs: number;
+  averageMs: number;
+  recent: Extract<StudyEvent, { type: 'session' }>[]; // Newest first
+};
+
+export const getSessionStats = (events: StudyEvent[], recentLimit = 8): SessionStats => {
+  const sessions = events.filter((e): e is Extract<StudyEvent, { type: 'session' }> => e.type === 'session');
+  const totalMs = sessions.reduce((sum, s) => sum + s.durationMs, 0);
+  return {
+    count: sessions.length,
+    totalMs,
+    averageMs: sessions.length === 0 ? 0 : totalMs / sessions.length,
+    recent: sessions.slice(-recentLimit).reverse(),
+  };
+};
+
+export type HardWord = {
+  word: WordItem;
+  sheetName: string;
+  failures: number; // 'again' reviews plus misspellings
+  attempts: number;
+};
+
+// A review graded 'again' or a misspelling
+const isFailure = (event: Extract<StudyEvent, { type: 'review' | 'spelling' }>) =>
+  event.type === 'review' ? event.grade === 'again' : event.verdict === 'wrong';
+
+// Words that fail most often; deleted words are left out
+export const getHardestWords = (events: StudyEvent[], sheets: DaySheet[], limit = 10): HardWord[] => {
+  const tally = new Map<string, { failures: number; attempts: number }>();
+  events.forEach(event => {
+    if (event.type !== 'review' && event.type !== 'spelling') return;
+    const entry = tally.get(event.wordId) || { failures: 0, attempts: 0 };
+    entry.attempts += 1;
+    if (isFailure(event)) entry.failures += 1;
+    tally.set(event.wordId, entry);
+  });
+
+  const hard: HardWord[] = [];
+  sheets.forEach(sheet => sheet.words.forEach(word => {
+    const entry = tally.get(word.id);
+    if (entry && entry.failures > 0) hard.push({ word, sheetName: sheet.name, ...entry });
+  }));
+
+  return hard
+    .sort((a, b) => b.failures - a.failures || b.failures / b.attempts - a.failures / a.attempts)
+    .slice(0, limit);
+};
+
+// Words failed during the last `days` days, today included
+export const getFailedWordIds = (events: StudyEvent[], days: number, today = todayKey()): Set<string> => {
+  const since = addDays(today, 1 - days);
+  const failed = new Set<string>();
+  events.forEach(event => {
+    if ((event.type === 'review' || event.type === 'spelling') && isFailure(event) && dayOf(event) >= since) {
+      failed.add(event.wordId);
+    }
+  });
+  return failed;
+};
+
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
@@ -0,0 +1,430 @@
+import type { DaySheet, SheetShareInfo, SrsState, StudyEvent, WordItem } from '../types';
+import { ensureSrs } from './srs';
+import { isRecord } from './guards';
+import { isSyncDocument, type SyncDocument } from './sync';
+import { DEFAULT_PROFILE_ID, isProfileProgress, profileKey, type ProfileProgress } from './profiles';
+
+// --- Persistent Storage ---
+// Library data is saved as { version, sheets } and upgraded step by step on load.
+// Study events, sync state and learning progress are kept per profile under scoped keys.
+
+export const SCHEMA_VERSION = 1;
+
+export type StoredLibrary = {
+  version: number;
+  sheets: DaySheet[];
+};
+
+// Key used before versioning: a bare DaySheet[] in localStorage
+const LEGACY_STORAGE_KEY = 'vocab_master_sheets';
+const STORAGE_KEY = 'vocab_master_library';
+const EVENTS_KEY = 'vocab_master_events';
+const SYNC_KEY = 'vocab_master_sync_document';
+const PROGRESS_KEY = 'vocab_master_progress';
+const DB_NAME = 'vocab_master';
+const DB_STORE = 'library';
+const SAVE_DELAY_MS = 500;
+// Oldest study events are dropped past this, keeping the log a few MB at most
+const MAX_EVENTS = 20000;
+
+// --- Migrations ---
+
+// MIGRATIONS[n] upgrades data from version n to n + 1
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // v0 -> v1: wrap the bare array, add scheduling state and the mistakes list
+  0: (sheets) => ({
+    version: 1,
+    sheets: (Array.isArray(sheets) ? sheets : []).map((sheet: unknown) => isRecord(sheet) ? {
+      ...sheet,
+      mistakes: Array.isArray(sheet.mistakes) ? sheet.mistakes : [],
+      words: Array.isArray(sheet.words)
+        ? sheet.words.map((w: unknown) => (isRecord(w) ? ensureSrs(w as WordItem) : w))
+        : [],
+    } : sheet),
+  }),
+};
+
+export const migrateLibrary = (raw: unknown): StoredLibrary => {
+  let data: unknown = raw;
+  let version = Array.isArray(raw) ? 0 : isRecord(raw) ? raw.version : undefined;
+
+  if (typeof version !== 'number') {
+    throw new Error('Stored library has no schema version');
+  }
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Stored library uses schema v${version}, newer than this app (v${SCHEMA_VERSION})`);
+  }
+
+  while (version < SCHEMA_VERSION) {
+    data = MIGRATIONS[version](data);
+    version += 1;
+  }
+
+  return { version, sheets: normalizeSheets(isRecord(data) ? data.sheets : undefined) };
+};
+
+// --- Validation ---
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const asStringList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+const isValidSrs = (srs: unknown): srs is SrsState => {
+  if (!isRecord(srs)) return false;
+  return isNumber(srs.ease) && isNumber(srs.interval) && isNumber(srs.repetitions) && isNumber(srs.lapses) &&
+    (srs.due === null || typeof srs.due === 'string') &&
+    (srs.lastReviewed === null || isNumber(srs.lastReviewed)) &&
+    Array.isArray(srs.history);
+};
+
+// Words are rebuilt from their known fields only, so nothing of the wrong type gets through.
+// Damaged scheduling state is rebuilt from the learned flag. Null when the id or the word is missing.
+export const normalizeWord = (w: unknown): WordItem | null => {
+  if (!isRecord(w) || typeof w.id !== 'string' || typeof w.word !== 'string') return null;
+  return ensureSrs({
+    id: w.id,
+    word: w.word,
+    pos: asString(w.pos),
+    replacement: asString(w.replacement),
+    translation: asString(w.translation),
+    learned: Boolean(w.learned),
+    examples: asStringList(w.examples),
+    collocations: asStringList(w.collocations),
+    notes: asString(w.notes) || undefined,
+    tags: asStringList(w.tags),
+    source: asString(w.source) || undefined,
+    addedAt: isNumber(w.addedAt) ? w.addedAt : undefined,
+    srs: isValidSrs(w.srs) ? w.srs : undefined,
+  });
+};
+
+const isShareInfo = (share: unknown): share is SheetShareInfo =>
+  isRecord(share) &&
+  typeof share.listId === 'string' && isNumber(share.version) &&
+  typeof share.author === 'string' && typeof share.description === 'string' && typeof share.fingerprint === 'string';
+
+// Runtime check of the current shape. Entries that cannot be repaired are dropped (and logged)
+// rather than crashing the app; missing optional text fields fall back to empty strings.
+export const normalizeSheets = (raw: unknown): DaySheet[] => {
+  if (!Array.isArray(raw)) {
+    throw new Error('Library data is not a list of days');
+  }
+
+  const sheets: DaySheet[] = [];
+  raw.forEach((sheet: unknown, sheetIdx) => {
+    if (!isRecord(sheet) || typeof sheet.id !== 'string' || !Array.isArray(sheet.words)) {
+      console.warn(`Dropping invalid day at position ${sheetIdx}`, sheet);
+      return;
+    }
+
+    const words: WordItem[] = [];
+    sheet.words.forEach((w: unknown) => {
+      const word = normalizeWord(w);
+      if (word) words.push(word);
+      else console.warn(`Dropping invalid word in "${asString(sheet.name)}"`, w);
+    });
+
+    sheets.push({
+      id: sheet.id,
+      name: asString(sheet.name) || `Day ${sheetIdx + 1}`,
+      mistakes: asStringList(sheet.mistakes) || [],
+      planId: typeof sheet.planId === 'string' ? sheet.planId : undefined,
+      planOwner: typeof sheet.planOwner === 'string' ? sheet.planOwner : undefined,
+      date: typeof sheet.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(sheet.date) ? sheet.date : undefined,
+      folder: asString(sheet.folder).trim() || undefined,
+      share: isShareInfo(sheet.share) ? sheet.share : undefined,
+      words,
+    });
+  });
+
+  return sheets;
+};
+
+// --- Backends ---
+
+type StorageBackend = {
+  name: string;
+  read: (key: string) => Promise<unknown | null>;
+  write: (key: string, data: unknown) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+
+const createIndexedDbBackend = async (): Promise<StorageBackend> => {
+  const db = await openDatabase();
+  return {
+    name: 'indexeddb',
+    read: async (key) => (await requestToPromise(db.transaction(DB_STORE).objectStore(DB_STORE).get(key))) ?? null,
+    write: (key, data) =>
+      new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(DB_STORE, 'readwrite');
+        tx.objectStore(DB_STORE).put(data, key);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      }),
+    remove: (key) =>
+      new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(DB_STORE, 'readwrite');
+        tx.objectStore(DB_STORE).delete(key);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      }),
+  };
+};
+
+const localStorageBackend: StorageBackend = {
+  name: 'localstorage',
+  read: async (key) => {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  },
+  write: async (key, data) => {
+    localStorage.setItem(key, JSON.stringify(data));
+  },
+  remove: async (key) => {
+    localStorage.removeItem(key);
+  },
+};
+
+const selectBackend = async (): Promise<StorageBackend> => {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await createIndexedDbBackend();
+    } catch (e) {
+      console.warn("IndexedDB unavailable, falling back to localStorage:", e);
+    }
+  }
+  return localStorageBackend;
+};
+
+// Shared by the library store and the event log so IndexedDB is opened once
+let backendPromise: Promise<StorageBackend> | null = null;
+const getBackend = () => (backendPromise ??= selectBackend());
+
+// --- Debounced Writes ---
+// One value under one key, written SAVE_DELAY_MS after the last save. Pending data is also
+// flushed when the tab is hidden or closed before the timer fires.
+
+type DebouncedStore<T> = {
+  read: () => Promise<unknown | null>;
+  save: (data: T) => void;
+  flush: () => Promise<void>;
+  dispose: () => Promise<void>; // Flushes and stops listening for the tab being hidden
+};
+
+const createDebouncedStore = <T,>(key: string, description: string): DebouncedStore<T> => {
+  let pending: { data: T } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) return;
+    const { data } = pending;
+    pending = null;
+    try {
+      const backend = await getBackend();
+      await backend.write(key, data);
+    } catch (e) {
+      console.error(`Failed to save ${description}:`, e);
+    }
+  };
+
+  const save = (data: T) => {
+    pending = { data };
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, SAVE_DELAY_MS);
+  };
+
+  const onPageHide = () => { flush(); };
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flush();
+  };
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', onPageHide);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+  }
+
+  const dispose = () => {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', onPageHide);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    }
+    return flush();
+  };
+
+  return { read: async () => (await getBackend()).read(key), save, flush, dispose };
+};
+
+// --- Library Store ---
+
+export type LibraryStore = {
+  load: () => Promise<DaySheet[] | null>; // null when nothing has been saved yet
+  save: (sheets: DaySheet[]) => void; // Debounced
+  flush: () => Promise<void>;
+};
+
+export const createLibraryStore = (): LibraryStore => {
+  const store = createDebouncedStore<StoredLibrary>(STORAGE_KEY, 'library');
+
+  const load = async () => {
+    const stored = await store.read();
+    if (stored !== null) {
+      return migrateLibrary(stored).sheets;
+    }
+
+    // First run on this backend: pick up data from the pre-versioning localStorage key
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!legacy) return null;
+    const library = migrateLibrary(JSON.parse(legacy));
+    const backend = await getBackend();
+    await backend.write(STORAGE_KEY, library);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return library.sheets;
+  };
+
+  const save = (sheets: DaySheet[]) => store.save({ version: SCHEMA_VERSION, sheets });
+
+  return { load, save, flush: store.flush };
+};
+
+// --- Study Event Log ---
+// Saved as { version, events } under its own key, separate from the library.
+
+const EVENT_LOG_VERSION = 1;
+
+const isStudyEvent = (event: unknown): event is StudyEvent => {
+  if (!isRecord(event) || !isNumber(event.at)) return false;
+  switch (event.type) {
+    case 'review': return typeof event.wordId === 'string' && typeof event.grade === 'string';
+    case 'spelling': return typeof event.wordId === 'string' && typeof event.verdict === 'string';
+    case 'listen': return typeof event.wordId === 'string';
+    case 'pronunciation': return typeof event.wordId === 'string' && typeof event.verdict === 'string';
+    case 'session': return typeof event.mode === 'string' && isNumber(event.durationMs) && isNumber(event.words);
+    default: return false;
+  }
+};
+
+export type EventLog = {
+  load: () => Promise<StudyEvent[]>;
+  record: (event: StudyEvent) => void; // Saved debounced
+  getEvents: () => StudyEvent[];
+  flush: () => Promise<void>;
+  dispose: () => Promise<void>; // Flushes; call when the profile's stores are replaced
+};
+
+export const createEventLog = (profileId = DEFAULT_PROFILE_ID): EventLog => {
+  const store = createDebouncedStore<{ version: number; events: StudyEvent[] }>(profileKey(EVENTS_KEY, profileId), 'study events');
+  let events: StudyEvent[] = [];
+  let isLoaded = false;
+  let canSave = true;
+  let isDirty = false;
+
+  // Events recorded before loading finished are written together with the stored ones
+  const schedule = () => {
+    if (!isLoaded || !canSave || !isDirty) return;
+    isDirty = false;
+    store.save({ version: EVENT_LOG_VERSION, events });
+  };
+
+  const load = async () => {
+    try {
+      const stored = await store.read();
+      const saved = isRecord(stored) && Array.isArray(stored.events) ? stored.events.filter(isStudyEvent) : [];
+      events = [...saved, ...events].slice(-MAX_EVENTS);
+    } catch (e) {
+      // Keep recording in memory, but never overwrite a log that could not be read
+      console.error("Failed to load study events:", e);
+      canSave = false;
+    }
+    isLoaded = true;
+    schedule();
+    return events;
+  };
+
+  const record = (event: StudyEvent) => {
+    events = [...events, event].slice(-MAX_EVENTS);
+    isDirty = true;
+    schedule();
+  };
+
+  return { load, record, getEvents: () => events, flush: store.flush, dispose: store.dispose };
+};
+
+// --- Sync State ---
+// This device's copy of the sync document, kept between visits so edits made offline keep the
+// time they were made rather than the time they were finally synced.
+
+export type SyncStore = {
+  load: () => Promise<SyncDocument | null>;
+  save: (doc: SyncDocument) => void; // Debounced
+  flush: () => Promise<void>;
+  dispose: () => Promise<void>;
+};
+
+export const createSyncStore = (profileId = DEFAULT_PROFILE_ID): SyncStore => {
+  const store = createDebouncedStore<SyncDocument>(profileKey(SYNC_KEY, profileId), 'sync state');
+  const load = async () => {
+    const stored = await store.read();
+    return isSyncDocument(stored) ? stored : null;
+  };
+  return { load, save: store.save, flush: store.flush, dispose: store.dispose };
+};
+
+// --- Learning Progress ---
+// One profile's learned flags, scheduling state and dictation mistakes. The library itself is
+// stored without progress, so every profile lays its own over the same lists.
+
+export type ProgressStore = {
+  load: () => Promise<ProfileProgress | null>; // null when the profile has not saved any yet
+  save: (progress: ProfileProgress) => void; // Debounced
+  flush: () => Promise<void>;
+  dispose: () => Promise<void>;
+};
+
+export const createProgressStore = (profileId: string): ProgressStore => {
+  const store = createDebouncedStore<ProfileProgress>(profileKey(PROGRESS_KEY, profileId), 'learning progress');
+
+  const load = async () => {
+    const stored = await store.read();
+    if (stored === null) return null;
+    if (!isProfileProgress(stored)) throw new Error('Stored learning progress is damaged');
+    return stored;
+  };
+
+  return { load, save: store.save, flush: store.flush, dispose: store.dispose };
+};
+
+// --- Profile Removal ---
+
+// Deletes everything stored for a profile: progress, events, sync state and its settings
+export const deleteProfileData = async (profileId: string) => {
+  if (profileId === DEFAULT_PROFILE_ID) throw new Error('The first profile cannot be removed');
+  const backend = await getBackend();
+  await Promise.all([PROGRESS_KEY, EVENTS_KEY, SYNC_KEY].map(key => backend.remove(profileKey(key, profileId))));
+  // Settings live in localStorage under keys scoped the same way
+  Object.keys(localStorage)
+    .filter(key => key.startsWith('vocab_master_') && key.endsWith(`:${profileId}`))
+    .forEach(key => localStorage.removeItem(key));
+};
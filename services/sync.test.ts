@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { DaySheet } from '../types';
+import { createWordItem } from './importers';
+import { reviewWord } from './srs';
+import {
+  EMPTY_SYNC_DOCUMENT,
+  documentToSheets,
+  isSyncDocument,
+  mergeDocuments,
+  stampChanges,
+  type SyncDocument
+} from './sync';
+
+const LIBRARY: DaySheet[] = [{
+  id: 'day-1',
+  name: 'Day 1',
+  mistakes: [],
+  words: [createWordItem('w1', { word: 'resilient' }), createWordItem('w2', { word: 'sedentary' })],
+}];
+
+// Both devices start from the same synced library
+const base = stampChanges(EMPTY_SYNC_DOCUMENT, LIBRARY, 'laptop', 1000);
+
+const edit = (doc: SyncDocument, change: (sheets: DaySheet[]) => DaySheet[], device: string, now: number) =>
+  stampChanges(doc, change(documentToSheets(doc)), device, now);
+
+// Merging must give the same library whichever copy arrives first
+const mergeBothWays = (a: SyncDocument, b: SyncDocument) => {
+  const merged = documentToSheets(mergeDocuments(a, b));
+  expect(documentToSheets(mergeDocuments(b, a))).toEqual(merged);
+  return merged;
+};
+
+describe('stampChanges', () => {
+  it('rebuilds the same library from its document', () => {
+    expect(documentToSheets(base)).toEqual(LIBRARY);
+  });
+
+  it('returns the same document when nothing changed', () => {
+    expect(stampChanges(base, LIBRARY, 'laptop', 2000)).toBe(base);
+  });
+});
+
+describe('mergeDocuments', () => {
+  it('keeps edits to different fields of the same word from both devices', () => {
+    const renamed = edit(base, sheets => [{ ...sheets[0], words: [{ ...sheets[0].words[0], word: 'resilience' }, sheets[0].words[1]] }], 'phone', 2000);
+    const reviewed = edit(base, sheets => [{ ...sheets[0], words: [reviewWord(sheets[0].words[0], 'good', 3000), sheets[0].words[1]] }], 'laptop', 3000);
+
+    const [word] = mergeBothWays(renamed, reviewed)[0].words;
+    expect(word.word).toBe('resilience');
+    expect(word.learned).toBe(true);
+  });
+
+  it('lets the later write win when both devices change the same field', () => {
+    const early = edit(base, sheets => [{ ...sheets[0], name: 'Monday' }], 'phone', 2000);
+    const late = edit(base, sheets => [{ ...sheets[0], name: 'Week 1' }], 'laptop', 3000);
+    expect(mergeBothWays(early, late)[0].name).toBe('Week 1');
+  });
+
+  it('keeps the latest review even when stale progress was written later', () => {
+    const reviewed = edit(base, sheets => [{ ...sheets[0], words: [reviewWord(sheets[0].words[0], 'good', 2000), sheets[0].words[1]] }], 'phone', 2000);
+    const stale = edit(base, sheets => [{ ...sheets[0], words: [{ ...sheets[0].words[0], learned: true }, sheets[0].words[1]] }], 'laptop', 5000);
+
+    const [word] = mergeBothWays(reviewed, stale)[0].words;
+    expect(word.srs.lastReviewed).toBe(2000);
+  });
+
+  it('does not bring back a word deleted on another device', () => {
+    const deleted = edit(base, sheets => [{ ...sheets[0], words: sheets[0].words.slice(1) }], 'phone', 2000);
+    const edited = edit(base, sheets => [{ ...sheets[0], words: [{ ...sheets[0].words[0], translation: '有弹性的' }, sheets[0].words[1]] }], 'laptop', 3000);
+    expect(mergeBothWays(deleted, edited)[0].words.map(word => word.id)).toEqual(['w2']);
+  });
+});
+
+describe('isSyncDocument', () => {
+  it('accepts stamped documents and rejects anything else', () => {
+    expect(isSyncDocument(base)).toBe(true);
+    expect(isSyncDocument({ sheets: {}, words: { w1: { word: 'resilient' } } })).toBe(false);
+    expect(isSyncDocument(null)).toBe(false);
+  });
+});
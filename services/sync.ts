@@ -0,0 +1,249 @@
+import type { DaySheet, WordItem } from '../types';
+import { normalizeSheets } from './storage';
+import { isRecord } from './guards';
+import { profileKey } from './profiles';
+
+// --- Sync Document ---
+// For syncing, the library is flattened into records of independently timestamped fields, one
+// record per sheet and per word. Two copies merge field by field: the later write wins, so
+// renaming a word on the phone and reviewing it on the laptop both survive. Deleted sheets and
+// words stay behind as tombstones (deleted: true) so a stale device cannot bring them back.
+
+export type FieldStamp = {
+  value: unknown; // null for an unset optional field
+  at: number; // Timestamp (ms) of the write
+  by: string; // Device that wrote it; breaks ties between equal timestamps
+};
+
+export type SyncRecord = Record<string, FieldStamp>;
+
+export type SyncDocument = {
+  sheets: Record<string, SyncRecord>;
+  words: Record<string, SyncRecord>;
+};
+
+export const EMPTY_SYNC_DOCUMENT: SyncDocument = { sheets: {}, words: {} };
+
+// Record fields of a sheet. Its words are records of their own.
+const flattenSheet = ({ id, words, ...fields }: DaySheet, position: number): Record<string, unknown> => ({
+  ...fields,
+  position,
+  deleted: false,
+});
+
+// Record fields of a word. Learned state and scheduling move together as `progress`, so the most
+// recent review decides both.
+const flattenWord = ({ id, learned, srs, ...fields }: WordItem, sheetId: string, position: number) => ({
+  ...fields,
+  progress: { learned, srs },
+  sheetId,
+  position,
+  deleted: false,
+} as Record<string, unknown>);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Stamp every field whose value differs from the document's. A new stamp is always later than
+// the one it replaces, even when this device's clock is behind the device that wrote it.
+const stampRecord = (record: SyncRecord | undefined, fields: Record<string, unknown>, deviceId: string, now: number) => {
+  const next: SyncRecord = { ...record };
+  let changed = false;
+  new Set([...Object.keys(record || {}), ...Object.keys(fields)]).forEach(key => {
+    const previous = record?.[key];
+    // Unset fields only need a stamp once they had a value
+    if (previous ? sameValue(previous.value, fields[key]) : fields[key] == null) return;
+    next[key] = { value: fields[key] ?? null, at: Math.max(now, (previous?.at ?? 0) + 1), by: deviceId };
+    changed = true;
+  });
+  return changed ? next : record!;
+};
+
+// Bring the document up to date with the library as it is now on this device. The same document
+// comes back when nothing changed.
+export const stampChanges = (doc: SyncDocument, sheets: DaySheet[], deviceId: string, now = Date.now()): SyncDocument => {
+  const next: SyncDocument = { sheets: {}, words: {} };
+
+  sheets.forEach((sheet, sheetIdx) => {
+    next.sheets[sheet.id] = stampRecord(doc.sheets[sheet.id], flattenSheet(sheet, sheetIdx), deviceId, now);
+    sheet.words.forEach((word, wordIdx) => {
+      next.words[word.id] = stampRecord(doc.words[word.id], flattenWord(word, sheet.id, wordIdx), deviceId, now);
+    });
+  });
+
+  // Whatever is gone from the library was deleted here
+  (['sheets', 'words'] as const).forEach(kind => {
+    Object.entries(doc[kind]).forEach(([id, record]) => {
+      if (next[kind][id]) return;
+      next[kind][id] = record.deleted?.value ? record : stampRecord(record, { deleted: true }, deviceId, now);
+    });
+  });
+
+  const isUnchanged = (['sheets', 'words'] as const).every(kind =>
+    Object.keys(next[kind]).length === Object.keys(doc[kind]).length &&
+    Object.entries(next[kind]).every(([id, record]) => doc[kind][id] === record));
+  return isUnchanged ? doc : next;
+};
+
+// --- Merging ---
+
+// Later write wins; equal timestamps fall back to the device id, then the value itself, so every
+// device picks the same winner whichever order the copies meet in
+const compareStamps = (a: FieldStamp, b: FieldStamp) =>
+  a.at - b.at
+  || (a.by < b.by ? -1 : a.by > b.by ? 1 : 0)
+  || JSON.stringify(a.value).localeCompare(JSON.stringify(b.value));
+
+// Time of the review a `progress` value records; 0 for a word never reviewed
+const reviewedAt = ({ value }: FieldStamp): number =>
+  isRecord(value) && isRecord(value.srs) && typeof value.srs.lastReviewed === 'number' ? value.srs.lastReviewed : 0;
+
+// Progress goes to the most recent review, not the most recent write: a device that starts
+// syncing late (or restores an old backup) stamps its stale progress, which must not replace
+// reviews made elsewhere. The stamp only decides between equally recent reviews, such as
+// marking a word learned without reviewing it.
+const compareFields = (key: string, a: FieldStamp, b: FieldStamp) =>
+  key === 'progress' ? reviewedAt(a) - reviewedAt(b) || compareStamps(a, b) : compareStamps(a, b);
+
+const mergeRecords = (a: SyncRecord = {}, b: SyncRecord = {}): SyncRecord => {
+  const merged: SyncRecord = { ...a };
+  Object.entries(b).forEach(([key, stamp]) => {
+    if (!merged[key] || compareFields(key, stamp, merged[key]) > 0) merged[key] = stamp;
+  });
+  return merged;
+};
+
+export const mergeDocuments = (a: SyncDocument, b: SyncDocument): SyncDocument => {
+  const merged: SyncDocument = { sheets: {}, words: {} };
+  (['sheets', 'words'] as const).forEach(kind => {
+    new Set([...Object.keys(a[kind]), ...Object.keys(b[kind])]).forEach(id => {
+      merged[kind][id] = mergeRecords(a[kind][id], b[kind][id]);
+    });
+  });
+  return merged;
+};
+
+// --- Rebuilding the Library ---
+
+type RecordValues = Record<string, unknown> & { id: string };
+
+// Plain values of a record; unset fields are left out
+const valuesOf = (id: string, record: SyncRecord): RecordValues => {
+  const values: RecordValues = { id };
+  Object.entries(record).forEach(([key, stamp]) => {
+    if (stamp.value !== null) values[key] = stamp.value;
+  });
+  return values;
+};
+
+const positionOf = (values: RecordValues) => (typeof values.position === 'number' ? values.position : 0);
+
+const byPosition = (a: RecordValues, b: RecordValues) => positionOf(a) - positionOf(b) || a.id.localeCompare(b.id);
+
+// Library described by a document. Words whose sheet was deleted on another device go with it.
+export const documentToSheets = (doc: SyncDocument): DaySheet[] => {
+  const sheets = Object.entries(doc.sheets)
+    .map(([id, record]) => valuesOf(id, record))
+    .filter(sheet => !sheet.deleted)
+    .sort(byPosition);
+
+  const wordsBySheet = new Map<string, RecordValues[]>();
+  Object.entries(doc.words).forEach(([id, record]) => {
+    const word = valuesOf(id, record);
+    if (word.deleted || typeof word.sheetId !== 'string') return;
+    wordsBySheet.set(word.sheetId, [...(wordsBySheet.get(word.sheetId) || []), word]);
+  });
+
+  return normalizeSheets(sheets.map(({ position, deleted, ...sheet }) => ({
+    ...sheet,
+    words: (wordsBySheet.get(sheet.id) || [])
+      .sort(byPosition)
+      .map(({ sheetId, position, deleted, progress, ...word }) => ({ ...word, ...(isRecord(progress) ? progress : {}) })),
+  })));
+};
+
+// --- Validation ---
+
+const isFieldStamp = (stamp: unknown): stamp is FieldStamp =>
+  isRecord(stamp) && 'value' in stamp &&
+  typeof stamp.at === 'number' && Number.isFinite(stamp.at) && typeof stamp.by === 'string';
+
+const isRecordMap = (records: unknown) =>
+  isRecord(records) &&
+  Object.values(records).every(record => isRecord(record) && Object.values(record).every(isFieldStamp));
+
+export const isSyncDocument = (doc: unknown): doc is SyncDocument =>
+  isRecord(doc) && isRecordMap(doc.sheets) && isRecordMap(doc.words);
+
+// --- Sync Settings ---
+
+export type SyncSettings = {
+  enabled: boolean;
+  serverUrl: string; // e.g. http://localhost:8787
+  libraryId: string; // Devices sharing a library id share their words
+  token: string; // Sent as a bearer token when the server requires one
+  deviceId: string;
+};
+
+const SETTINGS_STORAGE_KEY = 'vocab_master_sync';
+
+const createDeviceId = () => `device-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadSyncSettings = (profileId: string): SyncSettings => {
+  const defaults: SyncSettings = { enabled: false, serverUrl: '', libraryId: '', token: '', deviceId: createDeviceId() };
+  try {
+    const saved = localStorage.getItem(profileKey(SETTINGS_STORAGE_KEY, profileId));
+    const parsed: unknown = saved ? JSON.parse(saved) : null;
+    if (!isRecord(parsed)) return defaults;
+    const text = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+    return {
+      enabled: parsed.enabled === true,
+      serverUrl: text(parsed.serverUrl, defaults.serverUrl),
+      libraryId: text(parsed.libraryId, defaults.libraryId),
+      token: text(parsed.token, defaults.token),
+      deviceId: text(parsed.deviceId, '') || defaults.deviceId,
+    };
+  } catch (e) {
+    console.error("Failed to load sync settings:", e);
+    return defaults;
+  }
+};
+
+export const saveSyncSettings = (settings: SyncSettings, profileId: string) => {
+  try {
+    localStorage.setItem(profileKey(SETTINGS_STORAGE_KEY, profileId), JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save sync settings:", e);
+  }
+};
+
+// Library ids are used as file names on the server
+export const isValidLibraryId = (id: string) => /^[A-Za-z0-9_-]{1,64}$/.test(id);
+
+// --- Sync Client ---
+
+export interface SyncClient {
+  // Sends this device's document and resolves with the server's merged copy
+  sync: (doc: SyncDocument) => Promise<SyncDocument>;
+}
+
+export const createHttpSyncClient = ({ serverUrl, libraryId, token }: Pick<SyncSettings, 'serverUrl' | 'libraryId' | 'token'>): SyncClient => ({
+  sync: async (doc) => {
+    const response = await fetch(`${serverUrl.replace(/\/+$/, '')}/libraries/${libraryId}/sync`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ document: doc }),
+    });
+    const data: unknown = await response.json().catch(() => null);
+    const reply = isRecord(data) ? data : {};
+    if (!response.ok) {
+      throw new Error(typeof reply.error === 'string' && reply.error ? reply.error : `Sync server responded with ${response.status}`);
+    }
+    if (!isSyncDocument(reply.document)) {
+      throw new Error('Sync server sent an unreadable library');
+    }
+    return reply.document;
+  },
+});
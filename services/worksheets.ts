@@ -0,0 +1,80 @@
+import type { DaySheet, WordItem } from '../types';
+import { shuffle } from './exercises';
+
+// --- Printable Worksheets ---
+// Paper versions of a day for class use. Question order is shuffled with a seed printed on the
+// sheet, so the same worksheet (and its answer key) can be printed again later.
+
+export type WorksheetLayout = 'list' | 'blank-translation' | 'blank-word' | 'fold';
+
+export const WORKSHEET_LAYOUTS: { id: WorksheetLayout; label: string; description: string }[] = [
+  { id: 'list', label: 'Word list', description: 'Every word with its meaning, synonyms and an example' },
+  { id: 'blank-translation', label: 'Quiz: write the meaning', description: 'Words are given, translations are left blank' },
+  { id: 'blank-word', label: 'Quiz: write the word', description: 'Translations are given, words are left blank' },
+  { id: 'fold', label: 'Fold-over sheet', description: 'Two columns; fold the answers back and test yourself' },
+];
+
+export type WorksheetOptions = {
+  layout: WorksheetLayout;
+  seed: number;
+  shuffled: boolean; // Off keeps the day's own order
+};
+
+export type WorksheetRow = {
+  number: number;
+  prompt: string;
+  hint: string; // Part of speech, printed next to the prompt
+  answer: string;
+  word: WordItem;
+};
+
+export type Worksheet = {
+  title: string;
+  subtitle: string;
+  layout: WorksheetLayout;
+  seed: number;
+  hasAnswerKey: boolean; // The word list already shows everything
+  rows: WorksheetRow[];
+};
+
+// mulberry32: small, fast and the same in every browser, which is all a reprint needs
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Five digits, short enough to copy from the printed sheet into the seed field
+export const createWorksheetSeed = () => 10000 + Math.floor(Math.random() * 90000);
+
+const toRow = (word: WordItem, index: number, layout: WorksheetLayout): WorksheetRow => {
+  const asksForWord = layout === 'blank-word';
+  return {
+    number: index + 1,
+    prompt: asksForWord ? word.translation : word.word,
+    hint: word.pos,
+    answer: asksForWord ? word.word : word.translation,
+    word,
+  };
+};
+
+export const buildWorksheet = (sheet: DaySheet, { layout, seed, shuffled }: WorksheetOptions): Worksheet => {
+  // A word-writing quiz needs something to write the word from
+  const words = layout === 'blank-word' ? sheet.words.filter(w => w.translation.trim()) : sheet.words;
+  const ordered = shuffled ? shuffle(words, createSeededRandom(seed)) : words;
+  const layoutInfo = WORKSHEET_LAYOUTS.find(l => l.id === layout)!;
+
+  return {
+    title: sheet.name,
+    subtitle: layoutInfo.label,
+    layout,
+    seed,
+    hasAnswerKey: layout !== 'list',
+    rows: ordered.map((word, index) => toRow(word, index, layout)),
+  };
+};
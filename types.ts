@@ -0,0 +1,71 @@
+// --- Types ---
+
+// Self-assessed recall quality for a single review
+export type Grade = 'again' | 'hard' | 'good' | 'easy';
+
+export type ReviewLog = {
+  at: number; // Timestamp (ms) of the review
+  grade: Grade;
+  interval: number; // Interval (days) scheduled by this review
+  ease: number; // Ease factor after this review
+};
+
+// SM-2 scheduling state kept per word
+export type SrsState = {
+  ease: number; // Ease factor, starts at 2.5, never below 1.3
+  interval: number; // Current interval in days
+  repetitions: number; // Consecutive successful reviews
+  lapses: number; // Times the word was forgotten after being learned
+  due: string | null; // Local date key (YYYY-MM-DD), null while the word is new
+  lastReviewed: number | null; // Timestamp (ms) of the latest review
+  history: ReviewLog[];
+};
+
+export type WordItem = {
+  id: string;
+  word: string;
+  pos: string; // Part of speech (e.g., n., adj.)
+  replacement: string; // Synonyms
+  translation: string; // Chinese meaning
+  learned: boolean; // Derived from the latest review (anything but 'again')
+  srs: SrsState;
+  examples?: string[]; // Example sentences
+  collocations?: string[]; // Common word partnerships (e.g. "build resilience")
+  notes?: string; // Free-form notes (mnemonics, usage hints)
+  tags?: string[];
+  source?: string; // Where the word was met (book, exam paper, article)
+  addedAt?: number; // Timestamp (ms) the word was added or imported; missing on older data
+};
+
+// Where a shared word list came from, so a newer version of it can be applied as an update
+export type SheetShareInfo = {
+  listId: string;
+  version: number;
+  author: string;
+  description: string;
+  fingerprint: string; // Hash of the words as last published or received
+};
+
+export type DaySheet = {
+  id: string;
+  name: string;
+  words: WordItem[];
+  mistakes?: string[]; // Word ids misspelled in dictation, awaiting a retry
+  planId?: string; // Set on days generated by a study plan
+  date?: string; // Planned study date (YYYY-MM-DD) of a plan day
+  planOwner?: string; // Profile following the plan; only its progress moves missed days
+  folder?: string; // Sidebar folder the day is filed under
+  share?: SheetShareInfo; // Set once the day has been shared or was received as a shared list
+};
+
+// --- Study Events ---
+
+export type StudyMode = 'flashcards' | 'dictation' | 'listening' | 'exercises' | 'pronunciation';
+
+// Timestamped record of study activity, kept in a separate log for statistics
+export type StudyEvent =
+  | { type: 'review'; at: number; wordId: string; grade: Grade }
+  | { type: 'spelling'; at: number; wordId: string; verdict: 'correct' | 'typo' | 'wrong' }
+  | { type: 'listen'; at: number; wordId: string }
+  | { type: 'pronunciation'; at: number; wordId: string; verdict: 'match' | 'mismatch' }
+  | { type: 'session'; at: number; mode: StudyMode; durationMs: number; words: number }; // `at` is the start
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +10,32 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // Installable offline app: the service worker precaches the built app shell.
+        // New versions wait until the user accepts the reload prompt.
+        VitePWA({
+          registerType: 'prompt',
+          includeAssets: ['favicon.svg', 'apple-touch-icon.png'],
+          manifest: {
+            name: 'VocabMaster – Daily Vocabulary Builder',
+            short_name: 'VocabMaster',
+            description: 'Daily vocabulary practice with spaced repetition, dictation and audio playback.',
+            theme_color: '#4f46e5',
+            background_color: '#f9fafb',
+            display: 'standalone',
+            start_url: '/',
+            icons: [
+              { src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+              { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+              { src: 'maskable-icon-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+            ],
+          },
+          workbox: {
+            globPatterns: ['**/*.{js,css,html,svg,png,woff2}'],
+          },
+        }),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)